@@ -2,23 +2,109 @@ import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   ViewState, 
   UserChannelInfo, 
-  NicheAnalysis, 
-  StrategyPlan, 
-  VideoConcept,
-  StoryboardScene
+  Workspace,
+  Project,
+  ProjectStatus,
+  ProgressStats,
+  MetricSnapshot,
+  NicheAnalysis,
+  PlatformMetadata,
+  ViralHook,
+  RenderJob,
+  StrategyPlan,
+  StrategyRevision,
+  VariantKind,
+  ChatAction
 } from './types';
 import { NICHES, WORKFLOW } from './constants';
 import { 
   analyzeNiche, 
   generateStrategy, 
+  regenerateStrategyPhase,
   generateVideoConcepts, 
   generateScript, 
-  splitScriptIntoStoryboard,
-  generateImageForScene,
+  adaptForPlatform,
+  generateSeoPackage,
   generateVoiceover,
   generateViralHooks,
-  compileVideoWithVeo
+  chatWithStrategist
 } from './geminiService';
+import StoryboardPanel from './StoryboardPanel';
+import ProjectHistory from './ProjectHistory';
+import VoicePanel from './VoicePanel';
+import RenderQueuePanel from './RenderQueuePanel';
+import AssemblerPanel from './AssemblerPanel';
+import RevenueHub from './RevenueHub';
+import { estimateRpm } from './revenue';
+import GrowthTracker from './GrowthTracker';
+import ContentCalendar from './ContentCalendar';
+import StrategyBoard from './StrategyBoard';
+import VariantsPanel from './VariantsPanel';
+import { VARIANT_SPECS, VARIANT_KINDS, groupVariants, findVariant, createVariantProject, readaptVariant, conformMetadata } from './variants';
+import SeoPanel from './SeoPanel';
+import { seoOf, rankCandidates, publishTitle } from './seo';
+import ThumbnailPanel from './ThumbnailPanel';
+import HookLab from './HookLab';
+import StrategistChat from './StrategistChat';
+import { useOperations } from './operations';
+import { createChatMessage, actionsFromToolCalls, updateAction, strategistContext, conceptFromArgs, replaceScriptSection, findPhaseIndex } from './chat';
+import ScriptAnalysisPanel from './ScriptAnalysisPanel';
+import UsagePanel from './UsagePanel';
+import CacheInspector from './CacheInspector';
+import { useResponseCache, deleteCacheEntries } from './cache';
+import { useUsageLedger, setUsageScope, setBudgetCaps, clearUsage } from './usage';
+import BrandProfilePanel from './BrandProfilePanel';
+import PromptTemplatesPanel from './PromptTemplatesPanel';
+import { DEFAULT_BRAND, setActiveBrand, usePromptTemplates, saveTemplateVersion, activateTemplateVersion } from './prompts';
+import { analyzeScript, formatSeconds, ScriptIssue } from './scriptAnalysis';
+import { hooksForNiche, saveHook, removeHook, spliceHook } from './hooks';
+import { thumbnailsOf } from './thumbnails';
+import NicheExplorer, { NicheResearch, EMPTY_RESEARCH } from './NicheExplorer';
+import { createStrategyRevision, withStrategyRevision, replacePhase } from './strategy';
+import { upcomingTasks, scheduledDate } from './calendar';
+import { METRICS, weekOverWeek, statsFromSnapshots, metricsFromStats, upsertSnapshots, createSnapshot, today } from './growth';
+import { useRenderQueue, projectRenderJobs, isActiveJob } from './renderJobs';
+import {
+  PROJECT_STATUSES,
+  syncProjects,
+  updateProject,
+  advanceStatus,
+  withRevision,
+  withAsset,
+  latestAsset,
+  hasUnsavedChanges
+} from './projects';
+import { getAIConfig } from './aiConfig';
+import { saveMedia, downloadBlob } from './media';
+import { DEFAULT_VOICE, PACING_WPM, base64PcmToWav } from './audio';
+import {
+  Bundle,
+  ImportMode,
+  readBundle,
+  exportWorkspaceBundle,
+  exportProjectBundle,
+  bundleFileName,
+  unpackWorkspace,
+  unpackProject,
+  mergeWorkspaces,
+  findProjectConflict,
+  importProjectInto,
+  discardUnusedMedia
+} from './bundle';
+import ChannelSwitcher from './ChannelSwitcher';
+import {
+  WorkspaceStore,
+  saveWorkspaceStore,
+  getActiveWorkspace,
+  createWorkspace,
+  duplicateWorkspace,
+  addWorkspace,
+  updateWorkspace,
+  switchWorkspace,
+  setWorkspaceArchived,
+  removeWorkspace,
+  DEFAULT_USER_INFO
+} from './workspaces';
 
 // --- Global Types Extensions ---
 declare global {
@@ -44,150 +130,587 @@ const Card = ({ children, className = "", hover = true }: { children: React.Reac
   </div>
 );
 
-// --- Audio Logic ---
-async function playBase64Audio(base64: string) {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-  
-  const dataInt16 = new Int16Array(bytes.buffer);
-  const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
-  const channelData = buffer.getChannelData(0);
-  for (let i = 0; i < dataInt16.length; i++) channelData[i] = dataInt16[i] / 32768.0;
-  
-  const source = ctx.createBufferSource();
-  source.buffer = buffer;
-  source.connect(ctx.destination);
-  source.start();
+const FINAL_CUT_LABEL = 'Final Cut';
+
+const STATUS_STYLES: Record<ProjectStatus, string> = {
+  idea: 'bg-slate-700/40 text-slate-300',
+  scripted: 'bg-blue-600/20 text-blue-400',
+  voiced: 'bg-cyan-600/20 text-cyan-400',
+  rendered: 'bg-indigo-600/20 text-indigo-400',
+  published: 'bg-emerald-600/20 text-emerald-400',
+};
+
+interface AppProps {
+  initialStore: WorkspaceStore;
 }
 
-const App: React.FC = () => {
+const App: React.FC<AppProps> = ({ initialStore }) => {
   const [view, setView] = useState<ViewState>(ViewState.Dashboard);
-  const [loading, setLoading] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [sidebarTab, setSidebarTab] = useState<'ideas' | 'hooks'>('ideas');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   // Persistence States
-  const [userInfo, setUserInfo] = useState<UserChannelInfo>(() => {
-    const saved = localStorage.getItem('cf_user_info');
-    return saved ? JSON.parse(saved) : { niche: '', platform: 'Both', frequency: '3x/week', onboardingComplete: false };
-  });
-  const [nicheAnalysis, setNicheAnalysis] = useState<NicheAnalysis | null>(() => {
-    const saved = localStorage.getItem('cf_niche_analysis');
-    return saved ? JSON.parse(saved) : null;
-  });
-  const [strategy, setStrategy] = useState<StrategyPlan | null>(() => {
-    const saved = localStorage.getItem('cf_strategy');
-    return saved ? JSON.parse(saved) : null;
-  });
-  const [concepts, setConcepts] = useState<VideoConcept[]>(() => {
-    const saved = localStorage.getItem('cf_concepts');
-    return saved ? JSON.parse(saved) : [];
-  });
-  const [activeConcept, setActiveConcept] = useState<VideoConcept | null>(null);
-  const [activeScript, setActiveScript] = useState<string | null>(null);
-  const [viralHooks, setViralHooks] = useState<{hook: string, reason: string}[]>([]);
-  const [hooksLoading, setHooksLoading] = useState(false);
-  const [voiceLoading, setVoiceLoading] = useState(false);
+  const [workspaceStore, setWorkspaceStore] = useState<WorkspaceStore>(initialStore);
+  const workspace = getActiveWorkspace(workspaceStore);
+  const { userInfo, nicheAnalysis, strategy, concepts, projects } = workspace;
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [nicheResearch, setNicheResearch] = useState<NicheResearch>(EMPTY_RESEARCH);
+  const operations = useOperations();
+  const usageLedger = useUsageLedger();
+  const cacheEntries = useResponseCache();
+  const promptTemplates = usePromptTemplates();
+  /** Scripts streaming in, by project id; shown in the editor until the generation finishes. */
+  const [scriptDrafts, setScriptDrafts] = useState<Record<string, string>>({});
+  const [scriptWpm, setScriptWpm] = useState<number | null>(null);
+  const [chatDraft, setChatDraft] = useState<{ workspaceId: string; text: string } | null>(null);
+  const [applyingActionId, setApplyingActionId] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ bundle: Bundle; conflict: string } | null>(null);
+
+  const activeProject = projects.find(p => p.id === activeProjectId) || null;
+  const rpmEstimate = workspace.revenue.rpm || estimateRpm(userInfo.niche, nicheAnalysis);
+  const dueTasks = useMemo(() => upcomingTasks(workspace.calendar, projects), [workspace.calendar, projects]);
+  const variantParent = activeProject?.variant ? projects.find(p => p.id === activeProject.variant!.parentId) || null : activeProject;
+  const activeConcept = activeProject?.concept ?? null;
+  const activeScript = activeProject?.script || null;
+  const streamingScript = activeProject ? scriptDrafts[activeProject.id] : undefined;
+  const channelLoading = operations.isRunning(`channel:${workspace.id}`);
+  const scriptLoading = !!activeProject && operations.isRunning(`script:${activeProject.id}`);
+  const voiceLoading = !!activeProject && operations.isRunning(`voice:${activeProject.id}`);
+  const strategyKey = (target: number | 'plan') => `strategy:${workspace.id}:${target}`;
+  const strategyBusy = operations.isRunning(strategyKey('plan'))
+    ? 'plan'
+    : strategy?.weeks.map((_, i) => i).find(i => operations.isRunning(strategyKey(i))) ?? null;
+  const adapting = variantParent ? VARIANT_KINDS.find(kind => operations.isRunning(`adapt:${variantParent.id}:${kind}`)) ?? null : null;
+  const analysisWpm = scriptWpm ?? PACING_WPM[(activeProject?.voice || DEFAULT_VOICE).pacing];
+  const scriptAnalysis = useMemo(
+    () => (activeScript ? analyzeScript(activeScript, { wpm: analysisWpm, structure: activeConcept?.structure }) : null),
+    [activeScript, analysisWpm, activeConcept?.structure]
+  );
 
   const scriptAreaRef = useRef<HTMLTextAreaElement>(null);
   const highlightLayerRef = useRef<HTMLDivElement>(null);
+  const savedStore = useRef<WorkspaceStore | undefined>(undefined);
+  const storageWarned = useRef(false);
 
   useEffect(() => {
-    localStorage.setItem('cf_user_info', JSON.stringify(userInfo));
-    localStorage.setItem('cf_niche_analysis', JSON.stringify(nicheAnalysis));
-    localStorage.setItem('cf_strategy', JSON.stringify(strategy));
-    localStorage.setItem('cf_concepts', JSON.stringify(concepts));
-  }, [userInfo, nicheAnalysis, strategy, concepts]);
+    const previous = savedStore.current;
+    savedStore.current = workspaceStore;
+    saveWorkspaceStore(workspaceStore, previous).catch(e => {
+      console.warn("Workspace save failed:", e);
+      if (storageWarned.current) return;
+      storageWarned.current = true;
+      setErrorMessage("Storage write failed. Recent changes may not survive a reload.");
+    });
+  }, [workspaceStore]);
 
-  const handleInitialize = async (niche: string) => {
-    if (!niche) return;
-    setLoading(true);
+  // AI calls are billed to the open channel and project unless they name their own.
+  useEffect(() => {
+    setUsageScope({ workspaceId: workspace.id, projectId: activeProjectId || undefined });
+  }, [workspace.id, activeProjectId]);
+
+  // Every text prompt speaks in the open channel's brand voice.
+  useEffect(() => {
+    setActiveBrand(workspace.brand);
+  }, [workspace.id, workspace.brand]);
+
+  // Switching channels drops whatever was open in the Creator.
+  useEffect(() => {
+    setActiveProjectId(null);
+    setShowHistory(false);
+  }, [workspace.id]);
+
+  /**
+   * Patches a workspace by id, so async results land in the channel that requested them.
+   */
+  const patchWorkspace = (id: string, patch: Partial<Workspace> | ((workspace: Workspace) => Partial<Workspace>)) => {
+    setWorkspaceStore(prev => updateWorkspace(prev, id, patch));
+  };
+
+  const patchProject = (workspaceId: string, projectId: string, patch: Partial<Project> | ((project: Project) => Partial<Project>)) => {
+    patchWorkspace(workspaceId, prev => ({ projects: updateProject(prev.projects, projectId, patch) }));
+  };
+
+  const setUserInfo = (info: UserChannelInfo) => patchWorkspace(workspace.id, { userInfo: info });
+
+  const handleSnapshotsChange = (snapshots: MetricSnapshot[]) => {
+    patchWorkspace(workspace.id, prev => ({ snapshots, stats: statsFromSnapshots(snapshots, prev.stats) }));
+  };
+
+  /**
+   * Stats edited directly (e.g. in the Revenue Hub) are logged as today's snapshot so the history stays complete.
+   */
+  const handleStatsEdit = (stats: ProgressStats) => {
+    patchWorkspace(workspace.id, prev => ({ stats, snapshots: upsertSnapshots(prev.snapshots, [createSnapshot(today(), metricsFromStats(stats))]) }));
+  };
+
+  const handleCreateWorkspace = (name: string) => {
+    setWorkspaceStore(prev => addWorkspace(prev, createWorkspace(name)));
+    setView(ViewState.Dashboard);
+  };
+
+  const handleDuplicateWorkspace = (id: string) => {
+    setWorkspaceStore(prev => {
+      const source = prev.workspaces.find(w => w.id === id);
+      return source ? addWorkspace(prev, duplicateWorkspace(source)) : prev;
+    });
+  };
+
+  const handleExportWorkspace = async (id: string) => {
+    const target = workspaceStore.workspaces.find(w => w.id === id);
+    if (!target) return;
+    try {
+      downloadBlob(await exportWorkspaceBundle(target), bundleFileName('workspace', target.name));
+    } catch (e: any) {
+      setErrorMessage(`Export failed: ${e.message}`);
+    }
+  };
+
+  const handleExportProject = async (project: Project) => {
+    try {
+      downloadBlob(await exportProjectBundle(project), bundleFileName('project', project.concept.title));
+    } catch (e: any) {
+      setErrorMessage(`Export failed: ${e.message}`);
+    }
+  };
+
+  /**
+   * Writes a validated bundle into the store. Workspace bundles land as their own channel;
+   * project bundles join the active one.
+   */
+  const applyImport = async (bundle: Bundle, mode: ImportMode) => {
+    setPendingImport(null);
+    try {
+      if (bundle.manifest.kind === 'workspace') {
+        const incoming = await unpackWorkspace(bundle);
+        // Edits only make the local copy newer, so what survives this merge survives the one below.
+        const current = workspaceStore.workspaces.find(w => w.id === incoming.id);
+        if (current && mode === 'merge') await discardUnusedMedia(incoming, mergeWorkspaces(current, incoming));
+        setWorkspaceStore(prev => {
+          const existing = prev.workspaces.find(w => w.id === incoming.id);
+          if (!existing) return addWorkspace(prev, { ...incoming, archived: false });
+          const next = mode === 'merge' ? mergeWorkspaces(existing, incoming) : { ...incoming, archived: false };
+          return switchWorkspace({ ...prev, workspaces: prev.workspaces.map(w => (w.id === existing.id ? next : w)) }, existing.id);
+        });
+        setView(ViewState.Dashboard);
+      } else {
+        const workspaceId = workspace.id;
+        const project = await unpackProject(bundle);
+        if (mode === 'merge') await discardUnusedMedia(project, importProjectInto(workspace, project, mode).projects);
+        patchWorkspace(workspaceId, prev => importProjectInto(prev, project, mode));
+        setView(ViewState.Creator);
+      }
+    } catch (e: any) {
+      setErrorMessage(`Import failed: ${e.message}`);
+    }
+  };
+
+  const handleImportFile = async (file: File) => {
+    try {
+      const bundle = await readBundle(file);
+      const { kind, workspace: incoming, project } = bundle.manifest;
+      const conflict = kind === 'workspace'
+        ? workspaceStore.workspaces.find(w => w.id === incoming!.id)?.name
+        : findProjectConflict(workspace, project!)?.concept.title;
+      if (conflict) setPendingImport({ bundle, conflict });
+      else await applyImport(bundle, 'merge');
+    } catch (e: any) {
+      setErrorMessage(`Import failed: ${e.message}`);
+    }
+  };
+
+  /**
+   * Researches a niche and plans a channel around it: analysis (unless already known), strategy
+   * and concepts. Existing projects are kept. Results cached for this niche are reused unless
+   * `fresh` is set.
+   */
+  const initializeChannel = async (workspaceId: string, niche: string, platform: UserChannelInfo['platform'], knownAnalysis?: NicheAnalysis, fresh = false) => {
+    // A channel created a moment ago isn't open yet, so the brand effect hasn't caught up.
+    setActiveBrand(workspaceStore.workspaces.find(w => w.id === workspaceId)?.brand || DEFAULT_BRAND);
     setErrorMessage(null);
     try {
-      const [analysis, strat, ideas] = await Promise.all([
-        analyzeNiche(niche),
-        generateStrategy(niche, userInfo.platform),
-        generateVideoConcepts(niche)
-      ]);
-      setNicheAnalysis(analysis);
-      setStrategy(strat);
-      setConcepts(ideas);
-      setUserInfo(prev => ({ ...prev, niche, onboardingComplete: true }));
+      const result = await operations.run(`channel:${workspaceId}`, signal => Promise.all([
+        knownAnalysis || analyzeNiche(niche, fresh, signal),
+        generateStrategy(niche, platform, fresh, signal),
+        generateVideoConcepts(niche, fresh, signal)
+      ]));
+      if (!result) return;
+      const [analysis, strat, ideas] = result;
+      patchWorkspace(workspaceId, prev => ({
+        nicheAnalysis: analysis,
+        strategy: strat,
+        strategyHistory: withStrategyRevision(prev.strategyHistory, createStrategyRevision(strat, 'generated', `Generated plan for ${niche}`, prev.strategyProgress)),
+        concepts: ideas,
+        projects: syncProjects(prev.projects, ideas),
+        userInfo: { ...prev.userInfo, niche, onboardingComplete: true },
+      }));
       setView(ViewState.Dashboard);
     } catch (e: any) {
       setErrorMessage(e.message || "Initialization error.");
+    }
+  };
+
+  const handleInitialize = async (niche: string, fresh = false) => {
+    if (!niche) return;
+    await initializeChannel(workspace.id, niche, userInfo.platform, undefined, fresh);
+  };
+
+  const handleAdoptNiche = (analysis: NicheAnalysis) => {
+    initializeChannel(workspace.id, analysis.name, userInfo.platform, analysis);
+  };
+
+  const handleLaunchNiche = (analysis: NicheAnalysis) => {
+    const fresh = createWorkspace(analysis.name, { ...DEFAULT_USER_INFO, niche: analysis.name, platform: userInfo.platform, frequency: userInfo.frequency });
+    setWorkspaceStore(prev => addWorkspace(prev, fresh));
+    initializeChannel(fresh.id, analysis.name, fresh.userInfo.platform, analysis);
+  };
+
+  /**
+   * Records a new plan version. `build` runs against the latest workspace so a slow request
+   * can't overwrite edits made while it was in flight.
+   */
+  const commitStrategy = (workspaceId: string, source: StrategyRevision['source'], label: string, build: (plan: StrategyPlan | null) => StrategyPlan | null) => {
+    patchWorkspace(workspaceId, prev => {
+      const plan = build(prev.strategy);
+      if (!plan) return {};
+      return { strategy: plan, strategyHistory: withStrategyRevision(prev.strategyHistory, createStrategyRevision(plan, source, label, prev.strategyProgress)) };
+    });
+  };
+
+  const handleRegeneratePlan = async () => {
+    const workspaceId = workspace.id;
+    setErrorMessage(null);
+    try {
+      const plan = await operations.run(strategyKey('plan'), signal => generateStrategy(userInfo.niche, userInfo.platform, true, signal));
+      if (plan) commitStrategy(workspaceId, 'generated', 'Regenerated plan', () => plan);
+    } catch (e: any) {
+      setErrorMessage(e.message || "Strategy engine failure.");
+    }
+  };
+
+  const handleRegeneratePhase = async (index: number, instruction: string) => {
+    if (!strategy) return false;
+    const workspaceId = workspace.id;
+    const range = strategy.weeks[index].range;
+    setErrorMessage(null);
+    try {
+      const week = await operations.run(strategyKey(index), signal =>
+        regenerateStrategyPhase(userInfo.niche, userInfo.platform, strategy, index, workspace.stats, workspace.strategyProgress, instruction, signal),
+      );
+      if (!week) return false;
+      commitStrategy(workspaceId, 'phase', `Regenerated ${range}${instruction.trim() ? ` (${instruction.trim()})` : ''}`, plan =>
+        plan && plan.weeks[index]?.range === range ? replacePhase(plan, index, week) : null,
+      );
+      return true;
+    } catch (e: any) {
+      setErrorMessage(e.message || "Strategy engine failure.");
+      return false;
+    }
+  };
+
+  const handleChatSend = async (text: string) => {
+    const workspaceId = workspace.id;
+    const project = activeProject;
+    const messages = [...workspace.chat, createChatMessage('user', text)];
+    patchWorkspace(workspaceId, { chat: messages });
+    setChatDraft({ workspaceId, text: '' });
+    setErrorMessage(null);
+    try {
+      const reply = await operations.run(`chat:${workspaceId}`, signal => chatWithStrategist(
+        messages,
+        strategistContext(workspace, project),
+        partial => setChatDraft({ workspaceId, text: partial }),
+        { niche: userInfo.niche, title: project?.concept.title || '' },
+        signal,
+      ));
+      if (!reply) return;
+      patchWorkspace(workspaceId, prev => ({
+        chat: [...prev.chat, createChatMessage('model', reply.text.trim(), actionsFromToolCalls(reply.toolCalls, project?.id))],
+      }));
+    } catch (e: any) {
+      setErrorMessage(e.message || "Strategist unavailable.");
     } finally {
-      setLoading(false);
+      setChatDraft(null);
     }
   };
 
-  const handleScriptRequest = async (concept: VideoConcept) => {
-    setLoading(true);
-    setActiveConcept(concept);
+  /**
+   * Carries out a change the strategist proposed and records the outcome on the proposal.
+   */
+  const handleApplyChatAction = async (action: ChatAction) => {
+    const workspaceId = workspace.id;
+    const settle = (status: ChatAction['status'], note: string) =>
+      patchWorkspace(workspaceId, prev => ({ chat: updateAction(prev.chat, action.id, { status, note }) }));
+    setApplyingActionId(action.id);
+    try {
+      if (action.tool === 'add_concept') {
+        const concept = conceptFromArgs(action.args);
+        if (concepts.some(c => c.title === concept.title)) throw new Error(`A concept titled "${concept.title}" already exists.`);
+        patchWorkspace(workspaceId, prev => {
+          const next = [...prev.concepts, concept];
+          return { concepts: next, projects: syncProjects(prev.projects, next) };
+        });
+        settle('applied', 'Added to concepts with a new project.');
+      } else if (action.tool === 'rewrite_script_section') {
+        const project = projects.find(p => p.id === action.projectId);
+        if (!project) throw new Error("The project this rewrite was written for is gone.");
+        const script = replaceScriptSection(project.script, Number(action.args.section), action.args.text || '');
+        patchProject(workspaceId, project.id, prev => withRevision(prev, script, 'generated'));
+        settle('applied', `Saved as a new revision of "${project.concept.title}".`);
+      } else {
+        const index = findPhaseIndex(strategy, action.args.range || '');
+        if (index < 0) throw new Error(`No roadmap phase matches "${action.args.range}".`);
+        if (!(await handleRegeneratePhase(index, action.args.instruction || ''))) throw new Error("The phase could not be regenerated.");
+        settle('applied', `Regenerated ${strategy!.weeks[index].range}.`);
+      }
+    } catch (e: any) {
+      settle('failed', e.message || "Action failed.");
+    } finally {
+      setApplyingActionId(null);
+    }
+  };
+
+  const handleRestoreStrategy = (revision: StrategyRevision) => {
+    commitStrategy(workspace.id, 'restored', `Restored "${revision.label}" from ${new Date(revision.createdAt).toLocaleDateString()}`, () => revision.plan);
+  };
+
+  /**
+   * Generates a script, streaming it into the editor. The project only changes once the script is
+   * complete, so cancelling leaves the previous version in place. An existing storyboard is kept
+   * (with its images, narration and clips) and flagged as built from an earlier script.
+   */
+  const handleScriptRequest = async (project: Project, fresh = false) => {
+    const workspaceId = workspace.id;
+    setActiveProjectId(project.id);
+    // The scope effect only runs after this render, and the request starts now.
+    setUsageScope({ workspaceId, projectId: project.id });
+    setView(ViewState.Creator);
     setErrorMessage(null);
     try {
-      const script = await generateScript(concept);
-      setActiveScript(script);
-      setView(ViewState.Creator);
+      const script = await operations.run(`script:${project.id}`, signal =>
+        generateScript(project.concept, text => setScriptDrafts(prev => ({ ...prev, [project.id]: text })), fresh, signal),
+      );
+      if (script === undefined) return;
+      patchProject(workspaceId, project.id, prev => ({
+        ...withRevision(prev, script, 'generated'),
+        storyboardStale: prev.storyboardStale || (prev.storyboard.length > 0 && script !== prev.script),
+        status: advanceStatus(prev, 'scripted'),
+      }));
     } catch (e: any) {
       setErrorMessage(e.message || "Script engine failure.");
     } finally {
-      setLoading(false);
+      setScriptDrafts(({ [project.id]: _done, ...rest }) => rest);
     }
   };
 
-  const handleVoiceProduction = async () => {
-    if (!activeScript) return;
-    setVoiceLoading(true);
+  /**
+   * Creates or refreshes one platform cut of `parent` from its current script.
+   */
+  const handleAdaptVariant = async (parent: Project, kind: VariantKind) => {
+    if (!parent.script) {
+      setErrorMessage("Write the script before adapting it for other platforms.");
+      return;
+    }
+    const workspaceId = workspace.id;
+    setErrorMessage(null);
     try {
-      const audioData = await generateVoiceover(activeScript);
-      await playBase64Audio(audioData);
+      const adaptation = await operations.run(`adapt:${parent.id}:${kind}`, signal => adaptForPlatform(parent.concept, parent.script, kind, signal));
+      if (!adaptation) return;
+      patchWorkspace(workspaceId, prev => {
+        const existing = findVariant(prev.projects, parent.id, kind);
+        return {
+          projects: existing
+            ? updateProject(prev.projects, existing.id, p => readaptVariant(p, adaptation))
+            : [...prev.projects, createVariantProject(parent, kind, adaptation)],
+        };
+      });
     } catch (e: any) {
-      setErrorMessage("Voice synthesizer offline.");
-    } finally {
-      setVoiceLoading(false);
+      setErrorMessage(e.message || `${VARIANT_SPECS[kind].label} adaptation failed.`);
     }
   };
 
-  const handleProduceVideo = async () => {
-    if (!activeScript) return;
-    const hasKey = await window.aistudio.hasSelectedApiKey();
-    if (!hasKey) {
-      setErrorMessage("Video Production requires a Billing-Enabled API Key.");
-      await window.aistudio.openSelectKey();
-      // Proceed assuming success as per guidelines race condition note
+  const handleVariantMetadata = (metadata: PlatformMetadata) => {
+    if (!activeProject?.variant) return;
+    patchProject(workspace.id, activeProject.id, prev => ({
+      variant: { ...prev.variant!, metadata },
+      concept: { ...prev.concept, seo: { description: metadata.description, tags: metadata.tags } },
+    }));
+  };
+
+  const handleGenerateSeo = async (keyword: string) => {
+    if (!activeProject?.script) return;
+    const workspaceId = workspace.id;
+    const project = activeProject;
+    setErrorMessage(null);
+    try {
+      const draft = await operations.run(`seo:${project.id}`, signal => generateSeoPackage(project.concept, project.script, keyword, signal));
+      if (!draft) return;
+      const { description, tags } = conformMetadata('youtube-long', { ...draft, title: '', hashtags: [] });
+      const candidates = rankCandidates(draft.titles, keyword);
+      patchProject(workspaceId, project.id, prev => {
+        const seo = seoOf(prev);
+        return {
+          seo: { ...seo, keyword, candidates, title: seo.title || candidates[0]?.title || '' },
+          concept: { ...prev.concept, seo: { description, tags } },
+        };
+      });
+    } catch (e: any) {
+      setErrorMessage(e.message || "SEO engine offline.");
     }
-    setLoading(true);
+  };
+
+  const handleGenerateHooks = async () => {
+    if (!activeProject) return;
+    const workspaceId = workspace.id;
+    const { id: projectId, concept } = activeProject;
+    setErrorMessage(null);
     try {
-      const videoUrl = await compileVideoWithVeo(activeScript, []);
-      window.open(videoUrl, '_blank');
+      const hooks = await operations.run(`hooks:${projectId}`, signal => generateViralHooks(concept, signal));
+      if (hooks) patchProject(workspaceId, projectId, { hooks });
     } catch (e: any) {
-      // Handle the case where the project/key is not found or inactive
-      if (e.message?.includes("Requested entity was not found")) {
-        setErrorMessage("API Key invalid or project not active. Resetting key selection.");
+      setErrorMessage(e.message || "Hook engine offline.");
+    }
+  };
+
+  const handleSaveHook = (hook: ViralHook) => {
+    if (!activeProject) return;
+    patchWorkspace(workspace.id, prev => ({ hookLibrary: saveHook(prev.hookLibrary, hook, prev.userInfo.niche, activeProject.concept.title) }));
+  };
+
+  /**
+   * Swaps the script's opening line for `hook`, saved as a revision so it can be undone from history.
+   */
+  const handleUseHook = (hook: string) => {
+    if (!activeProject) return;
+    patchProject(workspace.id, activeProject.id, prev => withRevision(prev, spliceHook(prev.script, hook), 'edited'));
+  };
+
+  const handleOpenProject = (project: Project) => {
+    if (!project.script) {
+      handleScriptRequest(project);
+      return;
+    }
+    setActiveProjectId(project.id);
+    setView(ViewState.Creator);
+  };
+
+  const handleScriptEdit = (script: string) => {
+    if (activeProject) patchProject(workspace.id, activeProject.id, { script });
+  };
+
+  const handleSaveRevision = () => {
+    if (activeProject) patchProject(workspace.id, activeProject.id, prev => withRevision(prev, prev.script, 'edited'));
+  };
+
+  const handleRestoreRevision = (text: string) => {
+    if (!activeProject) return;
+    patchProject(workspace.id, activeProject.id, prev => ({
+      ...withRevision(prev, text, 'restored'),
+      storyboardStale: prev.storyboardStale || (prev.storyboard.length > 0 && text !== prev.script),
+    }));
+  };
+
+  const handleVoiceProduction = async () => {
+    if (!activeProject || !activeScript) return;
+    const workspaceId = workspace.id;
+    const projectId = activeProject.id;
+    const voice = activeProject.voice || DEFAULT_VOICE;
+    try {
+      const audioData = await operations.run(`voice:${projectId}`, signal => generateVoiceover(activeScript, voice, signal));
+      if (!audioData) return;
+      const audioRef = await saveMedia(base64PcmToWav(audioData));
+      patchProject(workspaceId, projectId, prev => ({
+        ...withAsset(prev, { kind: 'audio', label: 'Voiceover', url: audioRef }),
+        status: advanceStatus(prev, 'voiced'),
+      }));
+    } catch (e: any) {
+      setErrorMessage(e.message || "Voice synthesizer offline.");
+    }
+  };
+
+  const handleClipFinished = (job: RenderJob) => {
+    patchProject(job.workspaceId, job.projectId, prev => {
+      const storyboard = prev.storyboard.map(scene => (scene.id === job.sceneId ? { ...scene, clipUrl: job.resultRef } : scene));
+      const complete = !storyboard.length || storyboard.every(scene => scene.clipUrl);
+      return {
+        ...withAsset(prev, { kind: 'video', label: job.label, url: job.resultRef! }),
+        storyboard,
+        status: complete ? advanceStatus(prev, 'rendered') : prev.status,
+      };
+    });
+  };
+
+  const renderQueue = useRenderQueue(handleClipFinished);
+  const projectJobs = activeProject ? renderQueue.jobs.filter(job => job.projectId === activeProject.id) : [];
+
+  const handleAssembled = (ref: string, aspect: string) => {
+    if (!activeProject) return;
+    patchProject(workspace.id, activeProject.id, prev => ({
+      ...withAsset(prev, { kind: 'video', label: `${FINAL_CUT_LABEL} (${aspect})`, url: ref }),
+      status: advanceStatus(prev, 'rendered'),
+    }));
+  };
+
+  const handleProduceVideo = async () => {
+    if (!activeProject || !activeScript) return;
+    if (getAIConfig().provider === 'gemini') {
+      const hasKey = await window.aistudio.hasSelectedApiKey();
+      if (!hasKey) {
+        setErrorMessage("Video Production requires a Billing-Enabled API Key.");
         await window.aistudio.openSelectKey();
-      } else {
-        setErrorMessage("Veo Engine reached quota: " + e.message);
+        // Proceed assuming success as per guidelines race condition note
       }
-    } finally {
-      setLoading(false);
     }
+    const pending = new Set(projectJobs.filter(isActiveJob).map(job => job.sceneId));
+    const jobs = projectRenderJobs(workspace.id, activeProject, activeProject.variant?.aspectRatio).filter(job => !pending.has(job.sceneId));
+    if (!jobs.length) {
+      setErrorMessage("Every scene already has a clip rendering.");
+      return;
+    }
+    renderQueue.enqueue(jobs);
   };
 
-  const renderScriptOverlay = (text: string) => {
+  const renderScriptTokens = (text: string, offset: number) => {
     const parts = text.split(/(\[.*?\]|\b(?:SCENE|HOOK|OUTRO|INTRO|NARRATOR):?|\*\*.*?\*\*)/gi);
     return parts.map((part, i) => {
-      if (part.startsWith('[') && part.endsWith(']')) return <span key={i} className="text-cyan-400 font-bold bg-cyan-500/10 px-1 rounded">{part}</span>;
-      if (/^(?:SCENE|HOOK|OUTRO|INTRO|NARRATOR):?/i.test(part)) return <span key={i} className="text-blue-500 font-black uppercase text-[10px] tracking-widest">{part}</span>;
-      if (part.startsWith('**')) return <span key={i} className="text-white font-bold">{part}</span>;
-      return <span key={i}>{part}</span>;
+      const key = `${offset}-${i}`;
+      if (part.startsWith('[') && part.endsWith(']')) return <span key={key} className="text-cyan-400 font-bold bg-cyan-500/10 px-1 rounded">{part}</span>;
+      if (/^(?:SCENE|HOOK|OUTRO|INTRO|NARRATOR):?/i.test(part)) return <span key={key} className="text-blue-500 font-black uppercase text-[10px] tracking-widest">{part}</span>;
+      if (part.startsWith('**')) return <span key={key} className="text-white font-bold">{part}</span>;
+      return <span key={key}>{part}</span>;
+    });
+  };
+
+  // Issue ranges may nest (a long sentence inside an overlong scene), so the text is cut at every
+  // range boundary and each piece styled by whichever issues cover it.
+  const renderScriptOverlay = (text: string, issues: ScriptIssue[]) => {
+    const ranged = issues.filter(issue => issue.start !== undefined && issue.end! > issue.start!);
+    const cuts = [...new Set([0, text.length, ...ranged.flatMap(issue => [issue.start!, issue.end!])])].sort((a, b) => a - b);
+    return cuts.slice(0, -1).map((start, i) => {
+      const end = cuts[i + 1];
+      const covering = ranged.filter(issue => issue.start! <= start && issue.end! >= end);
+      const tokens = renderScriptTokens(text.slice(start, end), start);
+      if (!covering.length) return tokens;
+      const sentence = covering.some(issue => issue.kind === 'long-sentence' || issue.kind === 'long-hook');
+      const section = covering.some(issue => issue.kind === 'scene-gap' || issue.kind === 'slow-open');
+      return (
+        <span key={`w-${start}`} className={`${sentence ? 'underline decoration-wavy decoration-amber-500/70 underline-offset-4' : ''} ${section ? 'bg-red-500/5' : ''}`}>
+          {tokens}
+        </span>
+      );
     });
   };
 
+  const selectScriptIssue = (issue: ScriptIssue) => {
+    const area = scriptAreaRef.current;
+    if (!area || issue.start === undefined) return;
+    area.focus();
+    area.setSelectionRange(issue.start, issue.end ?? issue.start);
+  };
+
   if (!userInfo.onboardingComplete) {
+    const otherChannels = workspaceStore.workspaces.filter(w => w.id !== workspace.id && !w.archived && w.userInfo.onboardingComplete);
     return (
       <div className="min-h-screen flex items-center justify-center p-6 bg-slate-950">
         <div className="max-w-md w-full glass p-10 rounded-[3rem] space-y-10 shadow-2xl border border-white/5 animate-fade">
@@ -197,13 +720,35 @@ const App: React.FC = () => {
             </div>
             <h1 className="text-4xl font-black text-white italic tracking-tighter uppercase leading-none">FORGE<span className="text-blue-500">AI</span></h1>
             <p className="text-slate-500 text-[10px] font-black uppercase tracking-[0.5em]">The Faceless Empire Builder</p>
+            <p className="text-blue-400 text-xs font-bold">{workspace.name}</p>
           </div>
           <div className="grid grid-cols-2 gap-3">
             {NICHES.map(n => (
               <button key={n} onClick={() => setUserInfo({ ...userInfo, niche: n })} className={`px-4 py-4 rounded-2xl border text-[11px] font-black uppercase transition-all duration-300 ${userInfo.niche === n ? 'bg-blue-600 border-blue-500 text-white shadow-xl shadow-blue-900/30' : 'bg-slate-900/50 border-white/5 text-slate-500 hover:text-slate-300 hover:bg-slate-800'}`}>{n}</button>
             ))}
           </div>
-          <button onClick={() => handleInitialize(userInfo.niche)} disabled={!userInfo.niche || loading} className="w-full py-6 bg-blue-600 hover:bg-blue-500 text-white rounded-3xl font-black text-sm uppercase tracking-[0.3em] shadow-xl disabled:opacity-50 transition-all active:scale-95">{loading ? "LINKING NODE..." : "INITIALIZE STUDIO"}</button>
+          <input
+            value={NICHES.includes(userInfo.niche) ? '' : userInfo.niche}
+            onChange={e => setUserInfo({ ...userInfo, niche: e.target.value })}
+            placeholder="Or type any niche / sub-niche"
+            className="w-full px-5 py-4 rounded-2xl bg-slate-900/50 border border-white/5 text-xs font-bold text-white placeholder:text-slate-600 outline-none focus:border-blue-500/40"
+          />
+          <button onClick={() => handleInitialize(userInfo.niche.trim())} disabled={!userInfo.niche || channelLoading} className="w-full py-6 bg-blue-600 hover:bg-blue-500 text-white rounded-3xl font-black text-sm uppercase tracking-[0.3em] shadow-xl disabled:opacity-50 transition-all active:scale-95">{channelLoading ? "LINKING NODE..." : "INITIALIZE STUDIO"}</button>
+          {channelLoading ? (
+            <button onClick={() => operations.cancel(`channel:${workspace.id}`)} className="w-full text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400">Cancel</button>
+          ) : (
+            <button onClick={() => handleInitialize(userInfo.niche.trim(), true)} disabled={!userInfo.niche} title="Research this niche again instead of reusing cached results" className="w-full text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-white disabled:opacity-30">↻ Fresh research (skip cache)</button>
+          )}
+          {otherChannels.length > 0 && (
+            <div className="text-center space-y-3">
+              <p className="text-[9px] font-black uppercase text-slate-600 tracking-widest">Or return to</p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {otherChannels.map(w => (
+                  <button key={w.id} onClick={() => setWorkspaceStore(prev => switchWorkspace(prev, w.id))} className="px-3 py-1.5 rounded-xl bg-white/5 border border-white/5 text-[10px] font-bold text-slate-400 hover:text-white transition-colors">{w.name}</button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     );
@@ -223,9 +768,13 @@ const App: React.FC = () => {
         <nav className="flex-1 px-4 space-y-2 mt-6">
           {[
             { id: ViewState.Dashboard, label: 'Empire Feed', icon: '📊' }, 
+            { id: ViewState.NicheSelector, label: 'Niche Explorer', icon: '🧭' }, 
             { id: ViewState.Strategy, label: '90D Roadmap', icon: '🎯' }, 
             { id: ViewState.Creator, label: 'Studio Ops', icon: '🎬' }, 
-            { id: ViewState.Monetization, label: 'Revenue Hub', icon: '💎' }
+            { id: ViewState.Strategist, label: 'Strategist', icon: '💬' }, 
+            { id: ViewState.Monetization, label: 'Revenue Hub', icon: '💎' },
+            { id: ViewState.Brand, label: 'Brand & Prompts', icon: '🎙️' },
+            { id: ViewState.Usage, label: 'Usage & Budget', icon: '🧾' }
           ].map(item => (
             <button key={item.id} onClick={() => { setView(item.id); setIsSidebarOpen(false); }} className={`w-full flex items-center space-x-5 px-5 py-4 rounded-[1.5rem] transition-all duration-300 ${view === item.id ? 'active-nav text-white' : 'text-slate-500 hover:bg-white/5 hover:text-slate-300'}`}>
               <span className="text-xl">{item.icon}</span>
@@ -235,10 +784,17 @@ const App: React.FC = () => {
         </nav>
         
         <div className="p-8 border-t border-white/5 bg-slate-900/30">
-          <div className="p-4 rounded-2xl bg-blue-600/5 border border-blue-500/10">
-            <span className="text-[9px] font-black uppercase text-blue-500/60 tracking-widest">Active Cluster</span>
-            <p className="font-bold text-white text-xs truncate mt-2">{userInfo.niche}</p>
-          </div>
+          <ChannelSwitcher
+            workspaces={workspaceStore.workspaces}
+            activeId={workspaceStore.activeId}
+            onSwitch={id => setWorkspaceStore(prev => switchWorkspace(prev, id))}
+            onCreate={handleCreateWorkspace}
+            onDuplicate={handleDuplicateWorkspace}
+            onArchive={(id, archived) => setWorkspaceStore(prev => setWorkspaceArchived(prev, id, archived))}
+            onDelete={id => setWorkspaceStore(prev => removeWorkspace(prev, id))}
+            onExport={handleExportWorkspace}
+            onImport={handleImportFile}
+          />
         </div>
       </aside>
 
@@ -260,25 +816,56 @@ const App: React.FC = () => {
           </div>
         )}
 
+        {pendingImport && (
+          <div className="mb-8 bg-amber-600/10 border border-amber-500/20 text-amber-300 text-xs font-bold p-5 rounded-3xl flex flex-wrap gap-4 justify-between items-center animate-fade backdrop-blur-xl shadow-2xl">
+            <span>
+              {pendingImport.bundle.manifest.kind === 'workspace' ? 'Channel' : 'Project'} "{pendingImport.conflict}" already exists.
+              Merge keeps the newest edits from both; replace overwrites it with the imported copy.
+            </span>
+            <div className="flex gap-2">
+              <button onClick={() => applyImport(pendingImport.bundle, 'merge')} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600 text-white hover:bg-blue-500">Merge</button>
+              <button onClick={() => applyImport(pendingImport.bundle, 'replace')} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-amber-300 border border-amber-500/20 hover:text-white">Replace</button>
+              <button onClick={() => setPendingImport(null)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase text-slate-500 hover:text-white">Cancel</button>
+            </div>
+          </div>
+        )}
+
         {view === ViewState.Dashboard && (
           <div className="max-w-7xl mx-auto space-y-12">
             <SectionHeader title="EMPIRE PULSE" subtitle="High-Frequency Growth Monitoring" />
             
             <div className="grid grid-cols-2 lg:grid-cols-4 gap-6">
-              <StatCard title="Total Network" value={1420} target={10000} color="blue" suffix=" Reach" />
-              <StatCard title="Retention" value={68} target={100} color="emerald" suffix="%" />
-              <StatCard title="CPM Avg" value={18.4} target={25} color="indigo" suffix="$" />
-              <StatCard title="Conversion" value={4.2} target={10} color="red" suffix="%" />
+              <StatCard title="YT Subscribers" value={workspace.stats.youtube.subs} target={METRICS.ytSubs.goal} color="blue" delta={weekOverWeek(workspace.snapshots, 'ytSubs')?.delta} />
+              <StatCard title="Watch Hours" value={workspace.stats.youtube.watchTime} target={METRICS.ytWatchHours.goal} color="emerald" suffix="h" delta={weekOverWeek(workspace.snapshots, 'ytWatchHours')?.delta} />
+              <StatCard title="RPM Est" value={rpmEstimate.base} target={rpmEstimate.high} color="indigo" suffix="$" />
+              <StatCard title="FB Followers" value={workspace.stats.facebook.followers} target={METRICS.fbFollowers.goal} color="red" delta={weekOverWeek(workspace.snapshots, 'fbFollowers')?.delta} />
             </div>
 
+            <GrowthTracker snapshots={workspace.snapshots} onSnapshotsChange={handleSnapshotsChange} />
+
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
               <div className="lg:col-span-2 glass p-10 rounded-[3rem] border border-white/5 space-y-8">
                 <div className="flex items-center justify-between mb-2">
                   <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Operational Protocol</h3>
-                  <span className="text-[11px] text-blue-500 font-bold px-3 py-1 rounded-full bg-blue-500/10">SYSTEM STABLE</span>
+                  {dueTasks.length > 0 ? (
+                    <span className="text-[11px] text-blue-500 font-bold px-3 py-1 rounded-full bg-blue-500/10">{dueTasks.filter(t => t.date < today()).length} OVERDUE · {dueTasks.length} DUE THIS WEEK</span>
+                  ) : (
+                    <span className="text-[11px] text-blue-500 font-bold px-3 py-1 rounded-full bg-blue-500/10">SYSTEM STABLE</span>
+                  )}
                 </div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                  {WORKFLOW.map(w => (
+                  {dueTasks.length > 0 ? dueTasks.slice(0, 8).map(t => (
+                    <button key={`${t.project.id}-${t.task}`} onClick={() => handleOpenProject(t.project)} className="text-left p-6 glass-card rounded-[2rem] border border-white/5 flex items-center space-x-5 transition-all hover:bg-blue-600/5 group">
+                      <div className={`w-12 h-12 shrink-0 rounded-2xl bg-slate-900 border flex flex-col items-center justify-center group-hover:bg-blue-600 group-hover:border-blue-500 transition-all shadow-inner ${t.date < today() ? 'border-red-500/40' : 'border-white/5'}`}>
+                        <span className="text-[9px] font-black text-slate-500 group-hover:text-white uppercase leading-none">{new Date(`${t.date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' })}</span>
+                        <span className="text-[9px] font-black text-slate-600 group-hover:text-white leading-none mt-1">{t.date.slice(8)}</span>
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-xs font-bold text-slate-300 leading-tight group-hover:text-white transition-colors">{t.task}</p>
+                        <p className="text-[10px] font-bold text-slate-600 truncate mt-1">{t.project.concept.title} · publishes {t.publishDate}</p>
+                      </div>
+                    </button>
+                  )) : WORKFLOW.map(w => (
                     <div key={w.day} className="p-6 glass-card rounded-[2rem] border border-white/5 flex items-center space-x-5 transition-all hover:bg-blue-600/5 group">
                       <div className="w-12 h-12 rounded-2xl bg-slate-900 border border-white/5 flex flex-col items-center justify-center group-hover:bg-blue-600 group-hover:border-blue-500 transition-all shadow-inner">
                         <span className="text-[9px] font-black text-slate-500 group-hover:text-white uppercase leading-none">{w.day.slice(0,3)}</span>
@@ -287,6 +874,9 @@ const App: React.FC = () => {
                     </div>
                   ))}
                 </div>
+                {dueTasks.length === 0 && (
+                  <p className="text-[10px] font-bold text-slate-600">Schedule projects on the 90D Roadmap calendar to replace this template with real deadlines.</p>
+                )}
                 {/* Mandatory Display of Search Grounding Sources */}
                 {nicheAnalysis?.sources && nicheAnalysis.sources.length > 0 && (
                   <div className="mt-8 pt-8 border-t border-white/5 animate-fade">
@@ -332,52 +922,108 @@ const App: React.FC = () => {
             <div className="grid grid-cols-1 xl:grid-cols-12 gap-8 flex-1">
               <div className="xl:col-span-3 space-y-6 overflow-y-auto custom-scrollbar pr-2 max-h-[80vh]">
                 <div className="flex glass p-2 rounded-2xl border border-white/5 sticky top-0 z-20 bg-slate-950/80 backdrop-blur-md">
-                  <button onClick={() => setSidebarTab('ideas')} className={`flex-1 py-3 text-[11px] font-black uppercase rounded-xl transition-all ${sidebarTab === 'ideas' ? 'bg-slate-800 text-blue-500 shadow-xl' : 'text-slate-500'}`}>IDEAS</button>
+                  <button onClick={() => setSidebarTab('ideas')} className={`flex-1 py-3 text-[11px] font-black uppercase rounded-xl transition-all ${sidebarTab === 'ideas' ? 'bg-slate-800 text-blue-500 shadow-xl' : 'text-slate-500'}`}>PROJECTS</button>
                   <button onClick={() => setSidebarTab('hooks')} className={`flex-1 py-3 text-[11px] font-black uppercase rounded-xl transition-all ${sidebarTab === 'hooks' ? 'bg-slate-800 text-cyan-500 shadow-xl' : 'text-slate-500'}`}>HOOKS</button>
                 </div>
                 
-                {sidebarTab === 'ideas' && concepts.map((c, i) => (
-                  <button key={i} onClick={() => handleScriptRequest(c)} className={`w-full text-left glass-card p-6 rounded-[2rem] border group transition-all ${activeConcept?.title === c.title ? 'border-blue-500 shadow-[0_0_20px_rgba(37,99,235,0.15)] bg-blue-500/5' : 'border-white/5'}`}>
-                    <h4 className="text-xs font-black text-white group-hover:text-blue-500 uppercase tracking-tight leading-tight">{c.title}</h4>
-                    <p className="text-[10px] text-slate-500 mt-3 line-clamp-2 leading-relaxed opacity-60 italic">{c.hook}</p>
-                    {/* Display Reference Counts for Grounded Concepts */}
-                    {c.sources && c.sources.length > 0 && (
-                      <div className="mt-4 flex items-center gap-1">
+                {sidebarTab === 'hooks' && (
+                  <HookLab
+                    title={activeConcept?.title ?? null}
+                    hooks={activeProject?.hooks || []}
+                    library={hooksForNiche(workspace.hookLibrary, userInfo.niche)}
+                    niche={userInfo.niche}
+                    pacing={(activeProject?.voice || DEFAULT_VOICE).pacing}
+                    script={activeScript || ''}
+                    loading={!!activeProject && operations.isRunning(`hooks:${activeProject.id}`)}
+                    onGenerate={handleGenerateHooks}
+                    onSave={handleSaveHook}
+                    onRemove={id => patchWorkspace(workspace.id, prev => ({ hookLibrary: removeHook(prev.hookLibrary, id) }))}
+                    onUse={handleUseHook}
+                  />
+                )}
+
+                {sidebarTab === 'ideas' && groupVariants(projects).map(p => (
+                  <button key={p.id} onClick={() => handleOpenProject(p)} className={`w-full text-left glass-card p-6 rounded-[2rem] border group transition-all ${p.variant ? 'ml-6 w-[calc(100%-1.5rem)]' : ''} ${activeProjectId === p.id ? 'border-blue-500 shadow-[0_0_20px_rgba(37,99,235,0.15)] bg-blue-500/5' : 'border-white/5'}`}>
+                    <div className="flex justify-between items-start gap-3">
+                      <h4 className="text-xs font-black text-white group-hover:text-blue-500 uppercase tracking-tight leading-tight">{p.concept.title}</h4>
+                      <span className={`shrink-0 text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[p.status]}`}>{p.status}</span>
+                    </div>
+                    <p className="text-[10px] text-slate-500 mt-3 line-clamp-2 leading-relaxed opacity-60 italic">{p.concept.hook}</p>
+                    <div className="mt-4 flex items-center gap-1">
+                      {/* Display Reference Counts for Grounded Concepts */}
+                      {p.concept.sources && p.concept.sources.length > 0 && (
                         <span className="text-[8px] font-black uppercase text-blue-500/50 bg-blue-500/10 px-2 py-0.5 rounded-full">
-                          {c.sources.length} Data Points
+                          {p.concept.sources.length} Data Points
                         </span>
-                      </div>
-                    )}
+                      )}
+                      {p.variant && (
+                        <span className="text-[8px] font-black uppercase text-indigo-400 bg-indigo-500/10 px-2 py-0.5 rounded-full">
+                          {VARIANT_SPECS[p.variant.kind].label}
+                        </span>
+                      )}
+                      {scheduledDate(workspace.calendar, p.id) && (
+                        <span className="text-[8px] font-black uppercase text-cyan-400/70 bg-cyan-500/10 px-2 py-0.5 rounded-full">
+                          📅 {scheduledDate(workspace.calendar, p.id)}
+                        </span>
+                      )}
+                      {p.revisions.length > 0 && (
+                        <span className="text-[8px] font-black uppercase text-slate-500 bg-white/5 px-2 py-0.5 rounded-full">
+                          {p.revisions.length} Rev
+                        </span>
+                      )}
+                    </div>
                   </button>
                 ))}
               </div>
 
               <div className="xl:col-span-9 h-full flex flex-col">
-                <div className="glass rounded-[3rem] border border-white/5 shadow-2xl flex flex-col flex-1 overflow-hidden relative">
+                <div className="glass rounded-[3rem] border border-white/5 shadow-2xl flex flex-col flex-1 min-h-[60vh] overflow-hidden relative">
+                  {activeProject && (
+                    <div className="px-8 py-4 border-b border-white/5 flex flex-wrap gap-4 justify-between items-center bg-slate-900/20">
+                      <div className="flex items-center gap-1">
+                        {PROJECT_STATUSES.map(status => (
+                          <button key={status} onClick={() => patchProject(workspace.id, activeProject.id, { status })} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${activeProject.status === status ? STATUS_STYLES[status] : 'text-slate-600 hover:text-slate-400'}`}>{status}</button>
+                        ))}
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {scriptLoading ? (
+                          <button onClick={() => operations.cancel(`script:${activeProject.id}`)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-red-600/10 text-red-400 border border-red-500/20 hover:bg-red-600 hover:text-white transition-all">■ Stop Writing</button>
+                        ) : (
+                          <button onClick={() => handleScriptRequest(activeProject, true)} title="Write a new script instead of reusing a cached one" className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">↻ Regenerate</button>
+                        )}
+                        <button onClick={handleSaveRevision} disabled={!hasUnsavedChanges(activeProject)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-30">💾 Save Revision</button>
+                        <button onClick={() => setShowHistory(!showHistory)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase border transition-all ${showHistory ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 text-slate-400 border-white/5 hover:text-white'}`}>🕘 History ({activeProject.revisions.length})</button>
+                        <button onClick={() => handleExportProject(activeProject)} title="Export the script, shot list and media for an editor" className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">📦 Export</button>
+                      </div>
+                    </div>
+                  )}
                   <div className="px-8 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/40 backdrop-blur-xl">
                     <div className="flex space-x-3">
-                      <button onClick={handleVoiceProduction} disabled={voiceLoading || !activeScript} className="px-6 py-3 bg-blue-600/10 hover:bg-blue-600 hover:text-white rounded-2xl text-[11px] font-black text-blue-500 uppercase transition-all border border-blue-500/20 disabled:opacity-30">
-                        {voiceLoading ? "RENDERING..." : "🎙️ Render Voice"}
+                      <button onClick={voiceLoading ? () => operations.cancel(`voice:${activeProject!.id}`) : handleVoiceProduction} disabled={!voiceLoading && (!activeScript || scriptLoading)} title={voiceLoading ? "Cancel the voiceover" : undefined} className="px-6 py-3 bg-blue-600/10 hover:bg-blue-600 hover:text-white rounded-2xl text-[11px] font-black text-blue-500 uppercase transition-all border border-blue-500/20 disabled:opacity-30">
+                        {voiceLoading ? "RENDERING... ✕" : "🎙️ Render Voice"}
                       </button>
-                      <button onClick={handleProduceVideo} disabled={loading || !activeScript} className="px-6 py-3 bg-indigo-600/10 hover:bg-indigo-600 hover:text-white rounded-2xl text-[11px] font-black text-indigo-500 uppercase transition-all border border-indigo-500/20 disabled:opacity-30">
-                        {loading ? "PRODUCING..." : "🎬 Produce Video (Veo)"}
+                      <button onClick={handleProduceVideo} disabled={!activeScript} className="px-6 py-3 bg-indigo-600/10 hover:bg-indigo-600 hover:text-white rounded-2xl text-[11px] font-black text-indigo-500 uppercase transition-all border border-indigo-500/20 disabled:opacity-30">
+                        {projectJobs.some(isActiveJob) ? `PRODUCING (${projectJobs.filter(isActiveJob).length})...` : activeProject?.storyboard.length ? "🎬 Render Scene Clips (Veo)" : "🎬 Produce Video (Veo)"}
                       </button>
                     </div>
                     <div className="text-right">
-                       <span className="block text-[10px] font-black text-blue-500 uppercase tracking-widest">{activeScript?.split(/\s+/).filter(Boolean).length || 0} WORDS</span>
+                       <span className="block text-[10px] font-black text-blue-500 uppercase tracking-widest">{(streamingScript ?? activeScript)?.split(/\s+/).filter(Boolean).length || 0} WORDS</span>
+                       {streamingScript !== undefined && <span className="block text-[9px] font-black text-cyan-400 uppercase tracking-widest animate-pulse">Writing...</span>}
+                       {scriptAnalysis && streamingScript === undefined && <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">~{formatSeconds(scriptAnalysis.seconds)} spoken</span>}
                     </div>
                   </div>
                   
                   <div className="flex-1 relative bg-slate-950/20">
                     <textarea 
                       ref={scriptAreaRef}
-                      value={activeScript || ''}
-                      onChange={e => setActiveScript(e.target.value)}
+                      value={streamingScript ?? activeScript ?? ''}
+                      onChange={e => handleScriptEdit(e.target.value)}
+                      readOnly={streamingScript !== undefined}
                       className="absolute inset-0 w-full h-full p-10 font-mono text-sm leading-relaxed bg-transparent text-transparent caret-blue-500 outline-none resize-none z-10 custom-scrollbar" 
                       placeholder="Select an idea to generate script architecture..."
                     />
                     <div ref={highlightLayerRef} className="absolute inset-0 w-full h-full p-10 font-mono text-sm leading-relaxed pointer-events-none z-0 whitespace-pre-wrap select-none text-slate-500 overflow-hidden">
-                      {activeScript ? renderScriptOverlay(activeScript) : (
+                      {streamingScript !== undefined ? renderScriptOverlay(streamingScript, []) : activeScript ? renderScriptOverlay(activeScript, scriptAnalysis?.issues || []) : (
                         <div className="h-full flex flex-col items-center justify-center opacity-5 space-y-4">
                            <span className="uppercase font-black tracking-[1em] text-5xl">OFFLINE</span>
                         </div>
@@ -385,35 +1031,230 @@ const App: React.FC = () => {
                     </div>
                   </div>
                 </div>
+
+                {scriptAnalysis && (
+                  <div className="mt-8">
+                    <ScriptAnalysisPanel analysis={scriptAnalysis} wpm={analysisWpm} onWpmChange={setScriptWpm} onSelectIssue={selectScriptIssue} />
+                  </div>
+                )}
+
+                {activeProject && showHistory && (
+                  <div className="mt-8">
+                    <ProjectHistory key={activeProject.id} project={activeProject} onRestore={handleRestoreRevision} />
+                  </div>
+                )}
+
+                {activeProject && variantParent && (
+                  <div className="mt-8">
+                    <VariantsPanel
+                      key={activeProject.id}
+                      project={activeProject}
+                      parent={activeProject.variant ? variantParent : null}
+                      projects={projects}
+                      onAdapt={kind => handleAdaptVariant(variantParent, kind)}
+                      adapting={adapting}
+                      onCancel={kind => operations.cancel(`adapt:${variantParent.id}:${kind}`)}
+                      onOpen={handleOpenProject}
+                      onMetadataChange={handleVariantMetadata}
+                    />
+                  </div>
+                )}
+
+                {activeProject && (
+                  <div className="mt-8">
+                    <StoryboardPanel
+                      key={activeProject.id}
+                      script={activeScript}
+                      scenes={activeProject.storyboard}
+                      onScenesChange={scenes => patchProject(workspace.id, activeProject.id, { storyboard: scenes })}
+                      stale={!!activeProject.storyboardStale}
+                      onRebuild={scenes => patchProject(workspace.id, activeProject.id, { storyboard: scenes, storyboardStale: false })}
+                      targetDuration={activeProject.targetDuration}
+                      onTargetDurationChange={seconds => patchProject(workspace.id, activeProject.id, { targetDuration: seconds })}
+                      aspectRatio={activeProject.variant?.aspectRatio}
+                    />
+                  </div>
+                )}
+
+                {activeProject && activeScript && !activeProject.variant && (
+                  <div className="mt-8">
+                    <SeoPanel
+                      key={activeProject.id}
+                      project={activeProject}
+                      defaultKeyword={userInfo.niche}
+                      onGenerate={handleGenerateSeo}
+                      generating={operations.isRunning(`seo:${activeProject.id}`)}
+                      onSeoChange={seo => patchProject(workspace.id, activeProject.id, { seo })}
+                      onMetadataChange={metadata => patchProject(workspace.id, activeProject.id, prev => ({ concept: { ...prev.concept, seo: metadata } }))}
+                    />
+                  </div>
+                )}
+
+                {activeProject && activeProject.variant?.aspectRatio !== '9:16' && (
+                  <div className="mt-8">
+                    <ThumbnailPanel
+                      key={activeProject.id}
+                      concept={activeProject.concept}
+                      title={activeProject.variant?.metadata.title || publishTitle(activeProject)}
+                      thumbnails={thumbnailsOf(activeProject)}
+                      onThumbnailsChange={thumbnails => patchProject(workspace.id, activeProject.id, { thumbnails })}
+                    />
+                  </div>
+                )}
+
+                {activeProject && activeScript && (
+                  <div className="mt-8">
+                    <VoicePanel
+                      key={activeProject.id}
+                      title={activeProject.concept.title}
+                      voice={activeProject.voice || DEFAULT_VOICE}
+                      onVoiceChange={voice => patchProject(workspace.id, activeProject.id, { voice })}
+                      narration={latestAsset(activeProject, 'audio')?.url}
+                      onRenderNarration={handleVoiceProduction}
+                      onCancelNarration={() => operations.cancel(`voice:${activeProject.id}`)}
+                      narrating={voiceLoading}
+                      scenes={activeProject.storyboard}
+                      onScenesChange={scenes => patchProject(workspace.id, activeProject.id, { storyboard: scenes })}
+                    />
+                  </div>
+                )}
+
+                {activeProject && activeProject.storyboard.length > 0 && (
+                  <div className="mt-8">
+                    <AssemblerPanel
+                      key={activeProject.id}
+                      title={activeProject.concept.title}
+                      scenes={activeProject.storyboard}
+                      defaultAspect={activeProject.variant?.aspectRatio}
+                      latest={[...activeProject.assets].reverse().find(asset => asset.kind === 'video' && asset.label.startsWith(FINAL_CUT_LABEL))?.url}
+                      voiceover={latestAsset(activeProject, 'audio')?.url}
+                      onAssembled={handleAssembled}
+                    />
+                  </div>
+                )}
+
+                {projectJobs.length > 0 && (
+                  <div className="mt-8">
+                    <RenderQueuePanel
+                      jobs={projectJobs}
+                      now={renderQueue.now}
+                      onCancel={renderQueue.cancel}
+                      onRetry={renderQueue.retry}
+                      onRemove={renderQueue.remove}
+                    />
+                  </div>
+                )}
               </div>
             </div>
           </div>
         )}
 
-        {view === ViewState.Strategy && strategy && (
+        {view === ViewState.NicheSelector && (
+          <div className="max-w-7xl mx-auto space-y-12 animate-fade">
+            <SectionHeader title="NICHE EXPLORER" subtitle="Grounded Side-by-Side Market Comparison" />
+            <NicheExplorer
+              channelName={workspace.name}
+              currentNiche={userInfo.niche}
+              research={nicheResearch}
+              onResearchChange={setNicheResearch}
+              onAdopt={handleAdoptNiche}
+              onLaunch={handleLaunchNiche}
+              busy={channelLoading}
+            />
+          </div>
+        )}
+
+        {view === ViewState.Strategy && (
           <div className="max-w-6xl mx-auto space-y-12 animate-fade">
             <SectionHeader title="90-DAY STRATEGY" subtitle="Tactical Market Penetration Cycle" />
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-              {strategy.weeks.map((s, i) => (
-                <div key={i} className="glass p-10 rounded-[3rem] border border-white/5 space-y-6 flex flex-col relative overflow-hidden group">
-                  <div className="absolute top-0 right-0 p-8 opacity-5 group-hover:opacity-10 transition-opacity">
-                    <span className="text-8xl font-black italic">W{i+1}</span>
-                  </div>
-                  <div className="flex justify-between items-center relative z-10">
-                    <span className="text-xs font-black text-slate-500 uppercase tracking-widest">{s.range}</span>
-                    <span className="bg-blue-600/10 text-blue-400 px-4 py-1.5 rounded-full text-[10px] font-black uppercase border border-blue-500/20">{s.phase}</span>
-                  </div>
-                  <div className="space-y-4 relative z-10 flex-1">
-                    {s.focus.map((f, fi) => (
-                      <div key={fi} className="flex items-start space-x-5 p-5 glass-card rounded-2xl border border-white/5 hover:bg-white/5">
-                        <div className="mt-1.5 w-2 h-2 rounded-full bg-blue-600 shadow-[0_0_12px_rgba(37,99,235,0.7)]"></div>
-                        <span className="text-sm font-bold text-slate-200 leading-snug">{f}</span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              ))}
-            </div>
+            <ContentCalendar
+              channelId={workspace.id}
+              channelName={workspace.name}
+              calendar={workspace.calendar}
+              onCalendarChange={calendar => patchWorkspace(workspace.id, { calendar })}
+              frequency={userInfo.frequency}
+              onFrequencyChange={frequency => setUserInfo({ ...userInfo, frequency })}
+              strategy={strategy}
+              projects={projects}
+              onOpenProject={handleOpenProject}
+            />
+            <StrategyBoard
+              plan={strategy}
+              progress={workspace.strategyProgress}
+              onProgressChange={strategyProgress => patchWorkspace(workspace.id, { strategyProgress })}
+              history={workspace.strategyHistory}
+              onRestore={handleRestoreStrategy}
+              onRegeneratePhase={handleRegeneratePhase}
+              onRegeneratePlan={handleRegeneratePlan}
+              busy={strategyBusy}
+              onCancel={() => strategyBusy !== null && operations.cancel(strategyKey(strategyBusy))}
+            />
+          </div>
+        )}
+
+        {view === ViewState.Strategist && (
+          <div className="max-w-5xl mx-auto space-y-8 animate-fade">
+            <SectionHeader title="AI STRATEGIST" subtitle="Grounded in this channel's data" />
+            <StrategistChat
+              key={workspace.id}
+              messages={workspace.chat}
+              draft={chatDraft?.workspaceId === workspace.id ? chatDraft.text : null}
+              projectTitle={activeProject?.concept.title || null}
+              applyingId={applyingActionId}
+              onSend={handleChatSend}
+              onApply={handleApplyChatAction}
+              onDismiss={action => patchWorkspace(workspace.id, prev => ({ chat: updateAction(prev.chat, action.id, { status: 'dismissed', note: 'Dismissed by the creator.' }) }))}
+              onStop={() => operations.cancel(`chat:${workspace.id}`)}
+              onClear={() => patchWorkspace(workspace.id, { chat: [] })}
+            />
+          </div>
+        )}
+
+        {view === ViewState.Monetization && (
+          <div className="max-w-7xl mx-auto space-y-12 animate-fade">
+            <SectionHeader title="REVENUE HUB" subtitle="Eligibility, RPM Modeling & Income Projection" />
+            <RevenueHub
+              niche={userInfo.niche}
+              nicheAnalysis={nicheAnalysis}
+              stats={workspace.stats}
+              onStatsChange={handleStatsEdit}
+              model={workspace.revenue}
+              onModelChange={revenue => patchWorkspace(workspace.id, { revenue })}
+            />
+          </div>
+        )}
+
+        {view === ViewState.Brand && (
+          <div className="max-w-7xl mx-auto space-y-12 animate-fade">
+            <SectionHeader title="BRAND & PROMPTS" subtitle="Channel voice and the templates behind every generation" />
+            <BrandProfilePanel
+              channelName={workspace.name}
+              brand={workspace.brand}
+              onChange={brand => patchWorkspace(workspace.id, { brand })}
+            />
+            <PromptTemplatesPanel
+              histories={promptTemplates}
+              brand={workspace.brand}
+              onSave={(id, body, note) => saveTemplateVersion(id, body, note).catch(e => setErrorMessage(e.message || "Template could not be saved."))}
+              onActivate={(id, versionId) => activateTemplateVersion(id, versionId).catch(e => setErrorMessage(e.message || "Template version could not be switched."))}
+            />
+          </div>
+        )}
+
+        {view === ViewState.Usage && (
+          <div className="max-w-7xl mx-auto space-y-12 animate-fade">
+            <SectionHeader title="USAGE & BUDGET" subtitle="Estimated AI spend, budget caps and cached responses" />
+            <UsagePanel
+              entries={usageLedger.entries}
+              caps={usageLedger.caps}
+              workspaces={workspaceStore.workspaces}
+              onCapsChange={caps => setBudgetCaps(caps).catch(e => setErrorMessage(e.message || "Budget caps could not be saved."))}
+              onClear={() => clearUsage().catch(e => setErrorMessage(e.message || "Usage ledger could not be cleared."))}
+            />
+            <CacheInspector
+              entries={cacheEntries}
+              onDelete={keys => deleteCacheEntries(keys).catch(e => setErrorMessage(e.message || "Cache entries could not be removed."))}
+            />
           </div>
         )}
       </main>
@@ -423,7 +1264,7 @@ const App: React.FC = () => {
 
 // --- View Helpers ---
 
-const StatCard = ({ title, value, target, color, suffix = "" }: any) => {
+const StatCard = ({ title, value, target, color, suffix = "", delta }: any) => {
   const progress = Math.min(100, (value / target) * 100);
   const colorMap: any = { 
     blue: 'from-blue-600 to-cyan-600 shadow-blue-500/30', 
@@ -441,6 +1282,11 @@ const StatCard = ({ title, value, target, color, suffix = "" }: any) => {
         <span className="text-4xl font-black text-white italic tracking-tighter">{value.toLocaleString()}{suffix}</span>
         <span className="text-[10px] font-bold text-slate-600">/ {target.toLocaleString()}</span>
       </div>
+      {delta !== undefined && (
+        <span className={`text-[10px] font-black uppercase tracking-widest ${delta >= 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+          {delta >= 0 ? '▲' : '▼'} {Math.abs(delta).toLocaleString()} vs last week
+        </span>
+      )}
       <div className="w-full bg-slate-950 h-2.5 rounded-full overflow-hidden border border-white/5 shadow-inner">
         <div className={`h-full bg-gradient-to-r ${colorMap[color]} transition-all duration-1000`} style={{ width: `${progress}%` }} />
       </div>
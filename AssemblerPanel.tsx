@@ -0,0 +1,113 @@
+import React, { useRef, useState } from 'react';
+import { StoryboardScene } from './types';
+import { AssemblyAspect, assembleVideo, planTimeline, timelineDuration, supportedRecorderType } from './assembler';
+import { formatDuration } from './storyboard';
+import { saveMedia, loadMedia, useMediaUrl, downloadBlob, fileSlug } from './media';
+
+interface AssemblerPanelProps {
+  title: string;
+  scenes: StoryboardScene[];
+  /** Latest assembled cut, if any. */
+  latest?: string;
+  /** Full-script voiceover, used when no scene is voiced. */
+  voiceover?: string;
+  /** Starting frame; variants open on their platform's aspect. */
+  defaultAspect?: AssemblyAspect;
+  onAssembled: (ref: string, aspect: AssemblyAspect) => void;
+}
+
+const CutPreview = ({ src }: { src: string }) => {
+  const url = useMediaUrl(src);
+  return url ? <video src={url} controls className="max-h-[60vh] max-w-full mx-auto rounded-2xl bg-black" /> : null;
+};
+
+const AssemblerPanel: React.FC<AssemblerPanelProps> = ({ title, scenes, latest, voiceover, defaultAspect, onAssembled }) => {
+  const [aspect, setAspect] = useState<AssemblyAspect>(defaultAspect || '16:9');
+  const [captions, setCaptions] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const visuals = scenes.filter(s => s.clipUrl || s.imageUrl).length;
+  const clips = scenes.filter(s => s.clipUrl).length;
+  const voiced = scenes.filter(s => s.audioUrl).length;
+  const estimate = timelineDuration(planTimeline(scenes));
+  const recorderType = supportedRecorderType();
+
+  const handleAssemble = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const video = await assembleVideo(scenes, { aspect, captions, voiceover }, setProgress, controller.signal);
+      onAssembled(await saveMedia(video), aspect);
+    } catch (e: any) {
+      if (e.name !== 'AbortError') setError(e.message || "Assembly failed.");
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!latest) return;
+    const blob = await loadMedia(latest);
+    if (blob) downloadBlob(blob, `${fileSlug(title)}.${blob.type.includes('mp4') ? 'mp4' : 'webm'}`);
+  };
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Final Cut</h3>
+          <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">
+            {visuals}/{scenes.length} Visuals ({clips} clips) · {voiced ? `${voiced}/${scenes.length} Voiced` : voiceover ? 'Full voiceover' : `0/${scenes.length} Voiced`} · ~{formatDuration(estimate)}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex bg-slate-950/60 border border-white/5 rounded-xl p-1">
+            {(['16:9', '9:16'] as AssemblyAspect[]).map(a => (
+              <button key={a} onClick={() => setAspect(a)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${aspect === a ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}>{a}</button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer">
+            <input type="checkbox" checked={captions} onChange={e => setCaptions(e.target.checked)} className="accent-blue-500" />
+            Captions
+          </label>
+          {progress === null ? (
+            <button onClick={handleAssemble} disabled={!scenes.length || !recorderType} className="px-6 py-3 bg-emerald-600/10 hover:bg-emerald-600 hover:text-white rounded-2xl text-[11px] font-black text-emerald-500 uppercase transition-all border border-emerald-500/20 disabled:opacity-30">
+              🎞️ Assemble
+            </button>
+          ) : (
+            <button onClick={() => abortRef.current?.abort()} className="px-6 py-3 bg-white/5 rounded-2xl text-[11px] font-black text-slate-400 uppercase border border-white/5 hover:text-red-400">Cancel</button>
+          )}
+        </div>
+      </div>
+
+      {progress !== null && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+            <span className="text-slate-500">Recording in real time · keep this tab visible</span>
+            <span className="text-emerald-400">{Math.round(progress * 100)}%</span>
+          </div>
+          <div className="w-full bg-slate-950 h-2.5 rounded-full overflow-hidden border border-white/5">
+            <div className="h-full bg-gradient-to-r from-emerald-600 to-cyan-600 transition-all" style={{ width: `${progress * 100}%` }} />
+          </div>
+        </div>
+      )}
+
+      {!recorderType && <p className="text-xs font-bold text-amber-400">This browser cannot record video; try a recent Chrome, Edge or Firefox.</p>}
+      {error && <p className="text-xs font-bold text-red-400">{error}</p>}
+
+      {latest && progress === null && (
+        <div className="space-y-3">
+          <CutPreview src={latest} />
+          <button onClick={handleDownload} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">⇩ Download</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssemblerPanel;
@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadMedia, isMediaRef } from './media';
+import { toPlayableAudio } from './audio';
+import { formatDuration } from './storyboard';
+
+interface AudioPlayerProps {
+  /** A media ref or URL. */
+  src: string;
+  compact?: boolean;
+}
+
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ src, compact = false }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setUrl(null);
+    setError(null);
+    setPlaying(false);
+    setPosition(0);
+    (async () => {
+      const blob = await loadMedia(src);
+      if (!blob) {
+        if (!cancelled) setUrl(isMediaRef(src) ? null : src);
+        return;
+      }
+      const created = URL.createObjectURL(await toPlayableAudio(blob));
+      if (cancelled) return URL.revokeObjectURL(created);
+      objectUrl = created;
+      setUrl(created);
+    })().catch(e => { if (!cancelled) setError(e.message || "Audio unavailable."); });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [src]);
+
+  const toggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(e => setError(e.message));
+    else audio.pause();
+  };
+
+  const seek = (seconds: number) => {
+    if (audioRef.current) audioRef.current.currentTime = seconds;
+    setPosition(seconds);
+  };
+
+  if (error) return <p className="text-[10px] font-bold text-red-400">{error}</p>;
+
+  return (
+    <div className={`flex items-center gap-3 ${compact ? '' : 'bg-slate-950/60 border border-white/5 rounded-2xl px-4 py-3'}`}>
+      {url && (
+        <audio
+          ref={audioRef}
+          src={url}
+          preload="metadata"
+          onLoadedMetadata={e => setDuration(e.currentTarget.duration || 0)}
+          onTimeUpdate={e => setPosition(e.currentTarget.currentTime)}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => { setPlaying(false); setPosition(0); }}
+        />
+      )}
+      <button onClick={toggle} disabled={!url} title={playing ? 'Pause' : 'Play'} className="w-8 h-8 shrink-0 rounded-full bg-blue-600 hover:bg-blue-500 text-white text-[11px] flex items-center justify-center disabled:opacity-30">
+        {playing ? '❚❚' : '▶'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={duration || 0}
+        step={0.1}
+        value={position}
+        onChange={e => seek(Number(e.target.value))}
+        disabled={!url || !duration}
+        className="flex-1 min-w-0 accent-blue-500"
+      />
+      <span className="text-[10px] font-black text-slate-500 tabular-nums shrink-0">
+        {formatDuration(Math.floor(position))} / {formatDuration(Math.round(duration))}
+      </span>
+    </div>
+  );
+};
+
+export default AudioPlayer;
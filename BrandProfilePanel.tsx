@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import { BrandProfile } from './types';
+import { READING_LEVELS, brandInstruction } from './prompts';
+
+interface BrandProfilePanelProps {
+  channelName: string;
+  brand: BrandProfile;
+  onChange: (brand: BrandProfile) => void;
+}
+
+const LANGUAGES = ['English', 'Spanish', 'Portuguese', 'French', 'German', 'Hindi', 'Indonesian', 'Japanese'];
+
+function parseWordList(text: string): string[] {
+  return [...new Set(text.split(/[\n,]/).map(w => w.trim()).filter(Boolean))];
+}
+
+const inputClass = "w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40";
+
+const BrandProfilePanel: React.FC<BrandProfilePanelProps> = ({ channelName, brand, onChange }) => {
+  // Kept as typed so a trailing comma doesn't vanish mid-word; parsed when the field loses focus.
+  const [bannedDraft, setBannedDraft] = useState(brand.bannedWords.join(', '));
+  const [showInstruction, setShowInstruction] = useState(false);
+
+  useEffect(() => {
+    setBannedDraft(brand.bannedWords.join(', '));
+  }, [brand.bannedWords]);
+
+  const update = (patch: Partial<BrandProfile>) => onChange({ ...brand, ...patch });
+  const instruction = brandInstruction(brand);
+
+  return (
+    <div className="glass p-10 rounded-[3rem] border border-white/5 space-y-8">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div className="space-y-1">
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Brand Profile</h3>
+          <p className="text-[10px] font-bold text-slate-600">How {channelName} sounds. Added to every text prompt for this channel.</p>
+        </div>
+        <button onClick={() => setShowInstruction(!showInstruction)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase border transition-all ${showInstruction ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 text-slate-400 border-white/5 hover:text-white'}`}>
+          {showInstruction ? 'Hide' : 'Show'} Injected Text
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <label className="block space-y-1">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Audience</span>
+          <input value={brand.audience} onChange={e => update({ audience: e.target.value })} placeholder="e.g. adults who fall asleep to history documentaries" className={inputClass} />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Tone of Voice</span>
+          <input value={brand.tone} onChange={e => update({ tone: e.target.value })} placeholder="e.g. calm, reflective, lightly wry" className={inputClass} />
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Language</span>
+          <input list="brand-languages" value={brand.language} onChange={e => update({ language: e.target.value })} placeholder="Same as the request" className={inputClass} />
+          <datalist id="brand-languages">
+            {LANGUAGES.map(language => <option key={language} value={language} />)}
+          </datalist>
+        </label>
+        <label className="block space-y-1">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Reading Level</span>
+          <select value={brand.readingLevel} onChange={e => update({ readingLevel: e.target.value })} className={inputClass}>
+            <option value="">Not specified</option>
+            {READING_LEVELS.map(level => <option key={level} value={level}>{level}</option>)}
+            {brand.readingLevel && !READING_LEVELS.includes(brand.readingLevel) && <option value={brand.readingLevel}>{brand.readingLevel}</option>}
+          </select>
+        </label>
+        <label className="block space-y-1 lg:col-span-2">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Banned Words (comma or line separated)</span>
+          <textarea
+            value={bannedDraft}
+            onChange={e => setBannedDraft(e.target.value)}
+            onBlur={() => update({ bannedWords: parseWordList(bannedDraft) })}
+            rows={2}
+            placeholder="e.g. insane, smash that like button, you won't believe"
+            className={`${inputClass} resize-none`}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Example Scripts</p>
+          <button onClick={() => update({ exampleScripts: [...brand.exampleScripts, ''] })} disabled={brand.exampleScripts.length >= 3} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white disabled:opacity-30">+ Add Example</button>
+        </div>
+        {brand.exampleScripts.length === 0 && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">Paste up to three scripts whose voice new copy should match</p>}
+        {brand.exampleScripts.map((script, i) => (
+          <div key={i} className="relative">
+            <textarea
+              value={script}
+              onChange={e => update({ exampleScripts: brand.exampleScripts.map((s, j) => (j === i ? e.target.value : s)) })}
+              rows={5}
+              placeholder={`Example script ${i + 1}`}
+              className={`${inputClass} font-mono font-normal custom-scrollbar`}
+            />
+            <button onClick={() => update({ exampleScripts: brand.exampleScripts.filter((_, j) => j !== i) })} title="Remove example" className="absolute top-2 right-3 text-[10px] font-black text-slate-600 hover:text-red-400">✕</button>
+          </div>
+        ))}
+      </div>
+
+      {showInstruction && (
+        <pre className="bg-slate-950/60 border border-white/5 rounded-2xl p-5 text-[10px] text-slate-400 font-mono whitespace-pre-wrap max-h-72 overflow-y-auto custom-scrollbar">
+          {instruction || 'Nothing is injected until a field is filled in.'}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default BrandProfilePanel;
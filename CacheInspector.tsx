@@ -0,0 +1,60 @@
+import React from 'react';
+import { CacheEntry } from './types';
+import { isExpired } from './cache';
+
+interface CacheInspectorProps {
+  entries: CacheEntry[];
+  onDelete: (keys: string[]) => void;
+}
+
+function formatAge(iso: string): string {
+  const minutes = Math.round((Date.now() - Date.parse(iso)) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return `${Math.round(minutes / 1440)}d ago`;
+}
+
+function formatExpiry(entry: CacheEntry): string {
+  if (entry.expiresAt === null) return 'never expires';
+  if (isExpired(entry)) return 'expired';
+  const minutes = Math.round((Date.parse(entry.expiresAt) - Date.now()) / 60000);
+  return minutes < 60 ? `expires in ${minutes}m` : `expires in ${Math.round(minutes / 60)}h`;
+}
+
+const CacheInspector: React.FC<CacheInspectorProps> = ({ entries, onDelete }) => {
+  const expired = entries.filter(entry => isExpired(entry));
+  const hits = entries.reduce((sum, entry) => sum + entry.hits, 0);
+  const kilobytes = Math.round(entries.reduce((sum, entry) => sum + entry.text.length, 0) / 1024);
+
+  return (
+    <div className="glass p-10 rounded-[3rem] border border-white/5 space-y-6">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div className="space-y-1">
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Response Cache</h3>
+          <p className="text-[10px] font-bold text-slate-600">{entries.length} responses · {kilobytes} KB · served {hits} time{hits === 1 ? '' : 's'} without a model call</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => onDelete(expired.map(e => e.key))} disabled={!expired.length} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white disabled:opacity-30">Clear Expired</button>
+          <button onClick={() => onDelete(entries.map(e => e.key))} disabled={!entries.length} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase text-slate-500 hover:text-red-400 disabled:opacity-30">Clear All</button>
+        </div>
+      </div>
+
+      {entries.length === 0 && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">Nothing cached yet</p>}
+      <div className="space-y-2 max-h-[28rem] overflow-y-auto custom-scrollbar">
+        {entries.map(entry => (
+          <div key={entry.key} className={`flex justify-between items-center gap-4 bg-slate-950/40 border border-white/5 rounded-xl px-4 py-3 ${isExpired(entry) ? 'opacity-50' : ''}`}>
+            <div className="min-w-0 space-y-1">
+              <p className="text-[11px] font-bold text-white truncate">{entry.label}</p>
+              <p className="text-[9px] font-bold text-slate-600 uppercase tracking-wider">
+                {entry.task} · {entry.model} · {formatAge(entry.createdAt)} · {formatExpiry(entry)} · {entry.hits} hit{entry.hits === 1 ? '' : 's'}
+              </p>
+            </div>
+            <button onClick={() => onDelete([entry.key])} title="Remove from cache" className="shrink-0 text-[10px] font-black text-slate-600 hover:text-red-400">✕</button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CacheInspector;
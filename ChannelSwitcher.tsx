@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { Workspace } from './types';
+
+interface ChannelSwitcherProps {
+  workspaces: Workspace[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: (name: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  onDelete: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const ChannelSwitcher: React.FC<ChannelSwitcherProps> = ({ workspaces, activeId, onSwitch, onCreate, onDuplicate, onArchive, onDelete, onExport, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const active = workspaces.find(w => w.id === activeId);
+  const live = workspaces.filter(w => !w.archived);
+  const archived = workspaces.filter(w => w.archived);
+
+  const handleCreate = () => {
+    onCreate(newName.trim() || `Channel ${workspaces.length + 1}`);
+    setNewName('');
+    setOpen(false);
+  };
+
+  const handleDelete = (workspace: Workspace) => {
+    if (window.confirm(`Delete "${workspace.name}" and all of its data? This cannot be undone.`)) onDelete(workspace.id);
+  };
+
+  return (
+    <div className="p-4 rounded-2xl bg-blue-600/5 border border-blue-500/10">
+      <button onClick={() => setOpen(!open)} className="w-full text-left">
+        <div className="flex justify-between items-center">
+          <span className="text-[9px] font-black uppercase text-blue-500/60 tracking-widest">Active Cluster</span>
+          <span className="text-[9px] text-blue-500/60">{open ? '▲' : '▼'}</span>
+        </div>
+        <p className="font-bold text-white text-xs truncate mt-2">{active?.name}</p>
+        {active?.userInfo.niche && active.userInfo.niche !== active.name && (
+          <p className="text-[10px] text-slate-500 font-bold truncate">{active.userInfo.niche}</p>
+        )}
+      </button>
+
+      {open && (
+        <div className="mt-4 pt-4 border-t border-white/5 space-y-3 animate-fade">
+          <div className="space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+            {live.map(w => (
+              <div key={w.id} className={`group flex items-center justify-between rounded-xl px-2 py-1.5 ${w.id === activeId ? 'bg-blue-600/20' : 'hover:bg-white/5'}`}>
+                <button onClick={() => { onSwitch(w.id); setOpen(false); }} className={`flex-1 text-left text-[11px] font-bold truncate ${w.id === activeId ? 'text-white' : 'text-slate-400'}`}>{w.name}</button>
+                <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={() => onExport(w.id)} title="Export bundle" className="text-[10px] text-slate-500 hover:text-white">⇩</button>
+                  <button onClick={() => onDuplicate(w.id)} title="Duplicate" className="text-[10px] text-slate-500 hover:text-white">⧉</button>
+                  <button onClick={() => onArchive(w.id, true)} title="Archive" className="text-[10px] text-slate-500 hover:text-white">⌫</button>
+                  <button onClick={() => handleDelete(w)} title="Delete" className="text-[10px] text-slate-500 hover:text-red-400">✕</button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <input
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+              placeholder="New channel name"
+              className="flex-1 min-w-0 bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-[11px] font-bold text-white outline-none focus:border-blue-500/40"
+            />
+            <button onClick={handleCreate} className="px-3 py-2 bg-blue-600 hover:bg-blue-500 rounded-xl text-[10px] font-black text-white uppercase">+</button>
+          </div>
+
+          <button onClick={() => fileInput.current?.click()} className="w-full py-2 rounded-xl border border-dashed border-white/10 text-[9px] font-black uppercase text-slate-500 tracking-widest hover:text-white hover:border-blue-500/40">Import Bundle</button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) { onImport(file); setOpen(false); }
+            }}
+          />
+
+          {archived.length > 0 && (
+            <div>
+              <button onClick={() => setShowArchived(!showArchived)} className="text-[9px] font-black uppercase text-slate-500 tracking-widest hover:text-slate-300">
+                Archived ({archived.length}) {showArchived ? '▲' : '▼'}
+              </button>
+              {showArchived && archived.map(w => (
+                <div key={w.id} className="flex items-center justify-between px-2 py-1.5">
+                  <span className="text-[11px] font-bold text-slate-600 truncate">{w.name}</span>
+                  <div className="flex gap-2">
+                    <button onClick={() => onArchive(w.id, false)} className="text-[9px] font-black uppercase text-blue-500 hover:text-blue-400">Restore</button>
+                    <button onClick={() => handleDelete(w)} title="Delete" className="text-[10px] text-slate-500 hover:text-red-400">✕</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelSwitcher;
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { ContentCalendar as Calendar, Project, ProjectStatus, StrategyPlan } from './types';
+import { FREQUENCIES } from './constants';
+import {
+  PLAN_WEEKS,
+  addDays,
+  planEndDate,
+  calendarSlots,
+  strategyPhases,
+  phaseForWeek,
+  assignProject,
+  unassignDate,
+  rescheduleCalendar,
+  productionSchedule,
+  calendarToIcs,
+} from './calendar';
+import { today } from './growth';
+import { downloadBlob, fileSlug } from './media';
+
+interface ContentCalendarProps {
+  channelId: string;
+  channelName: string;
+  calendar: Calendar;
+  onCalendarChange: (calendar: Calendar) => void;
+  frequency: string;
+  onFrequencyChange: (frequency: string) => void;
+  strategy: StrategyPlan | null;
+  projects: Project[];
+  onOpenProject: (project: Project) => void;
+}
+
+const STATUS_STYLES: Record<ProjectStatus, string> = {
+  idea: 'bg-slate-700/40 text-slate-300',
+  scripted: 'bg-blue-600/20 text-blue-400',
+  voiced: 'bg-cyan-600/20 text-cyan-400',
+  rendered: 'bg-indigo-600/20 text-indigo-400',
+  published: 'bg-emerald-600/20 text-emerald-400',
+};
+
+const PHASE_COLORS = ['text-blue-400', 'text-cyan-400', 'text-indigo-400', 'text-emerald-400', 'text-amber-400', 'text-rose-400'];
+
+const DRAG_TYPE = 'text/plain';
+
+const shortDate = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+const dayName = (date: string) => new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { weekday: 'short', timeZone: 'UTC' });
+
+const ContentCalendar: React.FC<ContentCalendarProps> = ({
+  channelId,
+  channelName,
+  calendar,
+  onCalendarChange,
+  frequency,
+  onFrequencyChange,
+  strategy,
+  projects,
+  onOpenProject,
+}) => {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const slots = calendarSlots(calendar, frequency, strategy, projects);
+  const slotByDate = new Map(slots.map(s => [s.date, s]));
+  const phases = strategyPhases(strategy);
+  const scheduled = new Set(Object.values(calendar.assignments));
+  const unscheduled = projects.filter(p => !scheduled.has(p.id) && p.status !== 'published');
+  const current = today();
+  const openSoon = slots.filter(s => !s.project && s.date >= current && s.date <= addDays(current, 13)).length;
+
+  const handleDrop = (e: React.DragEvent, date: string | null) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const [projectId, fromDate] = e.dataTransfer.getData(DRAG_TYPE).split('|');
+    if (!projects.some(p => p.id === projectId)) return;
+    if (date) onCalendarChange(assignProject(calendar, date, projectId));
+    else if (fromDate) onCalendarChange(unassignDate(calendar, fromDate));
+  };
+
+  const dragProps = (project: Project, fromDate = '') => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => {
+      e.dataTransfer.setData(DRAG_TYPE, `${project.id}|${fromDate}`);
+      e.dataTransfer.effectAllowed = 'move';
+    },
+  });
+
+  const dropProps = (date: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      e.preventDefault();
+      setDropTarget(date ?? 'pool');
+    },
+    onDragLeave: () => setDropTarget(null),
+    onDrop: (e: React.DragEvent) => handleDrop(e, date),
+  });
+
+  const handleExport = () => {
+    const ics = calendarToIcs(channelId, channelName, slots, productionSchedule(calendar, projects));
+    downloadBlob(new Blob([ics], { type: 'text/calendar' }), `${fileSlug(channelName)}-calendar.ics`);
+  };
+
+  return (
+    <div className="glass p-8 rounded-[3rem] border border-white/5 space-y-6">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Content Calendar</h3>
+          <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">
+            {slots.length} Slots · {slots.filter(s => s.project).length} Filled · {openSoon} Open in next 14 days · Ends {shortDate(planEndDate(calendar))}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-[9px] font-black text-slate-500 uppercase tracking-widest">
+            Start
+            <input
+              type="date"
+              value={calendar.startDate}
+              onChange={e => e.target.value && onCalendarChange(rescheduleCalendar(calendar, e.target.value))}
+              className="bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+            />
+          </label>
+          <div className="flex bg-slate-950/60 border border-white/5 rounded-xl p-1">
+            {FREQUENCIES.map(f => (
+              <button key={f} onClick={() => onFrequencyChange(f)} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${frequency === f ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-white'}`}>{f}</button>
+            ))}
+          </div>
+          <button onClick={handleExport} title="Import into Google Calendar, Outlook or Apple Calendar" className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">⇩ Export .ics</button>
+        </div>
+      </div>
+
+      <div
+        {...dropProps(null)}
+        className={`flex flex-wrap gap-2 p-4 rounded-2xl border border-dashed transition-all ${dropTarget === 'pool' ? 'border-blue-500/60 bg-blue-500/5' : 'border-white/10'}`}
+      >
+        <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest self-center mr-2">Unscheduled</span>
+        {unscheduled.length === 0 && <span className="text-[10px] font-bold text-slate-700 self-center">Every project has a date. Drag one here to unschedule it.</span>}
+        {unscheduled.map(project => (
+          <div key={project.id} {...dragProps(project)} className="cursor-grab active:cursor-grabbing flex items-center gap-2 px-3 py-1.5 rounded-xl glass-card border border-white/5 hover:border-blue-500/30">
+            <span className="text-[10px] font-bold text-slate-300 max-w-[220px] truncate">{project.concept.title}</span>
+            <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[project.status]}`}>{project.status}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto custom-scrollbar">
+        <div className="min-w-[860px] space-y-2">
+          <div className="grid grid-cols-[110px_repeat(7,minmax(0,1fr))] gap-2">
+            <span />
+            {Array.from({ length: 7 }, (_, i) => (
+              <span key={i} className="text-[9px] font-black text-slate-600 uppercase tracking-widest text-center">{dayName(addDays(calendar.startDate, i))}</span>
+            ))}
+          </div>
+          {Array.from({ length: PLAN_WEEKS }, (_, w) => {
+            const phase = phaseForWeek(phases, w + 1);
+            return (
+              <div key={w} className="grid grid-cols-[110px_repeat(7,minmax(0,1fr))] gap-2">
+                <div className="flex flex-col justify-center">
+                  <span className="text-[10px] font-black text-white uppercase">W{w + 1}</span>
+                  {phase && <span className={`text-[8px] font-black uppercase tracking-widest truncate ${PHASE_COLORS[phase.index % PHASE_COLORS.length]}`} title={phase.range}>{phase.phase}</span>}
+                </div>
+                {Array.from({ length: 7 }, (_, d) => {
+                  const date = addDays(calendar.startDate, w * 7 + d);
+                  const slot = slotByDate.get(date);
+                  const project = slot?.project;
+                  return (
+                    <div
+                      key={date}
+                      {...dropProps(date)}
+                      className={`min-h-[72px] p-2 rounded-xl border transition-all flex flex-col gap-1 ${
+                        dropTarget === date ? 'border-blue-500/60 bg-blue-500/10' : slot ? 'border-blue-500/20 bg-blue-500/5' : 'border-white/5 bg-slate-950/30'
+                      } ${date < current ? 'opacity-50' : ''}`}
+                    >
+                      <span className={`text-[9px] font-black tabular-nums ${date === current ? 'text-blue-400' : 'text-slate-600'}`}>{shortDate(date)}</span>
+                      {project ? (
+                        <div {...dragProps(project, date)} className="group cursor-grab active:cursor-grabbing space-y-1">
+                          <button onClick={() => onOpenProject(project)} className="block w-full text-left text-[10px] font-bold text-slate-200 leading-tight line-clamp-2 hover:text-blue-400">{project.concept.title}</button>
+                          <div className="flex items-center justify-between">
+                            <span className={`text-[7px] font-black uppercase px-1.5 py-0.5 rounded-full ${STATUS_STYLES[project.status]}`}>{project.status}</span>
+                            <button onClick={() => onCalendarChange(unassignDate(calendar, date))} title="Unschedule" className="text-[9px] text-slate-600 opacity-0 group-hover:opacity-100 hover:text-red-400">✕</button>
+                          </div>
+                        </div>
+                      ) : (
+                        slot?.planned && <span className="text-[8px] font-black uppercase tracking-widest text-blue-500/50">Open slot</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContentCalendar;
@@ -0,0 +1,156 @@
+import React, { useRef, useState } from 'react';
+import { MetricKey, MetricSnapshot } from './types';
+import { METRICS, METRIC_KEYS, series, latestValue, weekOverWeek, createSnapshot, upsertSnapshots, importAnalyticsCsv, today } from './growth';
+
+interface GrowthTrackerProps {
+  snapshots: MetricSnapshot[];
+  onSnapshotsChange: (snapshots: MetricSnapshot[]) => void;
+}
+
+const CHART_W = 320;
+const CHART_H = 110;
+const PAD = 8;
+
+const TimeSeriesChart = ({ points, goal }: { points: { date: string; value: number }[]; goal: number }) => {
+  if (points.length < 2) {
+    return <div className="h-[110px] flex items-center justify-center text-[9px] font-black uppercase tracking-[0.3em] text-slate-700">Need 2+ snapshots</div>;
+  }
+  const times = points.map(p => Date.parse(p.date));
+  const minT = Math.min(...times);
+  const spanT = Math.max(1, Math.max(...times) - minT);
+  const max = Math.max(...points.map(p => p.value), 1);
+  const x = (t: number) => PAD + ((t - minT) / spanT) * (CHART_W - PAD * 2);
+  const y = (v: number) => CHART_H - PAD - (v / max) * (CHART_H - PAD * 2);
+  const path = points.map((p, i) => `${i ? 'L' : 'M'}${x(times[i])},${y(p.value)}`).join(' ');
+  const area = `${path} L${x(times[times.length - 1])},${CHART_H - PAD} L${x(times[0])},${CHART_H - PAD} Z`;
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+      {goal <= max && <line x1={PAD} x2={CHART_W - PAD} y1={y(goal)} y2={y(goal)} stroke="#34d399" strokeDasharray="4 4" strokeWidth={1} />}
+      <path d={area} fill="rgba(37,99,235,0.12)" />
+      <path d={path} fill="none" stroke="#3b82f6" strokeWidth={2} />
+    </svg>
+  );
+};
+
+const GrowthTracker: React.FC<GrowthTrackerProps> = ({ snapshots, onSnapshotsChange }) => {
+  const [date, setDate] = useState(today());
+  const [draft, setDraft] = useState<Partial<Record<MetricKey, string>>>({});
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const handleLog = () => {
+    const metrics: MetricSnapshot['metrics'] = {};
+    METRIC_KEYS.forEach(key => {
+      const raw = draft[key]?.trim();
+      if (raw) metrics[key] = Math.max(0, Number(raw) || 0);
+    });
+    if (!Object.keys(metrics).length) return setMessage({ text: "Enter at least one metric.", error: true });
+    onSnapshotsChange(upsertSnapshots(snapshots, [createSnapshot(date, metrics)]));
+    setDraft({});
+    setMessage({ text: `Logged snapshot for ${date}.` });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = importAnalyticsCsv(await file.text(), snapshots);
+      onSnapshotsChange(upsertSnapshots(snapshots, imported));
+      setMessage({ text: `Imported ${imported.length} days from ${file.name} (${imported[0].date} – ${imported[imported.length - 1].date}).` });
+    } catch (e: any) {
+      setMessage({ text: e.message || "Import failed.", error: true });
+    }
+  };
+
+  const recent = [...snapshots].reverse().slice(0, 8);
+
+  return (
+    <div className="glass p-10 rounded-[3rem] border border-white/5 space-y-8">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Growth Tracker</h3>
+        <div className="flex gap-2">
+          <button onClick={() => fileInput.current?.click()} title="YouTube Studio or Meta Business Suite export, by day" className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">⇪ Import CSV</button>
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+        {METRIC_KEYS.map(key => {
+          const meta = METRICS[key];
+          const latest = latestValue(snapshots, key);
+          const wow = weekOverWeek(snapshots, key);
+          const progress = Math.min(1, (latest?.value || 0) / meta.goal);
+          return (
+            <div key={key} className="glass-card p-5 rounded-[2rem] border border-white/5 space-y-3">
+              <div className="flex justify-between items-center text-[9px] font-black uppercase tracking-widest">
+                <span className="text-slate-500">{meta.platform} · {meta.label}</span>
+                {wow && <span className={wow.delta >= 0 ? 'text-emerald-400' : 'text-red-400'}>{wow.delta >= 0 ? '▲' : '▼'} {Math.abs(wow.delta).toLocaleString()} WoW</span>}
+              </div>
+              <div className="flex items-baseline gap-2">
+                <span className="text-2xl font-black text-white italic tracking-tighter">{latest ? latest.value.toLocaleString() : '—'}</span>
+                <span className="text-[10px] font-bold text-slate-600">/ {meta.goal.toLocaleString()} {meta.unit}</span>
+              </div>
+              <div className="w-full bg-slate-950 h-2 rounded-full overflow-hidden border border-white/5">
+                <div className={`h-full bg-gradient-to-r transition-all duration-1000 ${progress >= 1 ? 'from-emerald-600 to-green-600' : 'from-blue-600 to-cyan-600'}`} style={{ width: `${progress * 100}%` }} />
+              </div>
+              <TimeSeriesChart points={series(snapshots, key)} goal={meta.goal} />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Log Snapshot</p>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="col-span-2 block space-y-1">
+              <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Date</span>
+              <input type="date" value={date} max={today()} onChange={e => setDate(e.target.value)} className="w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40" />
+            </label>
+            {METRIC_KEYS.map(key => (
+              <label key={key} className="block space-y-1">
+                <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{METRICS[key].platform} {METRICS[key].label}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft[key] ?? ''}
+                  placeholder={latestValue(snapshots, key)?.value.toString() || '0'}
+                  onChange={e => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+                />
+              </label>
+            ))}
+          </div>
+          <button onClick={handleLog} className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-2xl text-[11px] font-black text-white uppercase">Log Snapshot</button>
+          {message && <p className={`text-[10px] font-bold ${message.error ? 'text-red-400' : 'text-emerald-400'}`}>{message.text}</p>}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Recent Snapshots</p>
+          {recent.length === 0 && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">No snapshots yet</p>}
+          {recent.map(snapshot => (
+            <div key={snapshot.id} className="flex items-center justify-between gap-3 p-3 glass-card rounded-xl border border-white/5">
+              <span className="text-[10px] font-black text-white tabular-nums">{snapshot.date}</span>
+              <span className="flex-1 text-[10px] font-bold text-slate-500 truncate">
+                {METRIC_KEYS.filter(k => snapshot.metrics[k] !== undefined).map(k => `${METRICS[k].label}: ${snapshot.metrics[k]!.toLocaleString()}`).join(' · ')}
+              </span>
+              <span className="text-[8px] font-black uppercase text-slate-600">{snapshot.source}</span>
+              <button onClick={() => onSnapshotsChange(snapshots.filter(s => s.id !== snapshot.id))} title="Delete" className="text-[10px] text-slate-500 hover:text-red-400">✕</button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GrowthTracker;
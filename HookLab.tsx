@@ -0,0 +1,107 @@
+import React from 'react';
+import { ViralHook, SavedHook, VoicePacing } from './types';
+import { scoreHook, isSaved, opensWith, HOOK_TARGET_SECONDS } from './hooks';
+
+interface HookLabProps {
+  /** Title of the active concept; null when no project is open. */
+  title: string | null;
+  hooks: ViralHook[];
+  library: SavedHook[];
+  niche: string;
+  pacing: VoicePacing;
+  script: string;
+  loading: boolean;
+  onGenerate: () => void;
+  onSave: (hook: ViralHook) => void;
+  onRemove: (id: string) => void;
+  onUse: (hook: string) => void;
+}
+
+const scoreStyle = (score: number) => (score >= 75 ? 'text-emerald-400 bg-emerald-500/10' : score >= 50 ? 'text-amber-400 bg-amber-500/10' : 'text-red-400 bg-red-500/10');
+
+const HookCard: React.FC<{
+  hook: ViralHook;
+  pacing: VoicePacing;
+  inScript: boolean;
+  canUse: boolean;
+  onUse: () => void;
+  action: React.ReactNode;
+  note?: string;
+}> = ({ hook, pacing, inScript, canUse, onUse, action, note }) => {
+  const rating = scoreHook(hook.hook, pacing);
+  return (
+    <div className={`glass-card p-5 rounded-[2rem] border space-y-3 ${inScript ? 'border-cyan-500/40' : 'border-white/5'}`}>
+      <div className="flex justify-between items-start gap-3">
+        <p className="text-xs font-bold text-white leading-relaxed">{hook.hook}</p>
+        <span className={`shrink-0 text-[10px] font-black px-2 py-0.5 rounded-full ${scoreStyle(rating.score)}`}>{rating.score}</span>
+      </div>
+      <p className="text-[10px] text-slate-500 italic leading-relaxed">{hook.reason}</p>
+      <div className="flex flex-wrap gap-1 text-[8px] font-black uppercase">
+        <span className="text-slate-500 bg-white/5 px-2 py-0.5 rounded-full">{rating.words} words</span>
+        <span className={`px-2 py-0.5 rounded-full ${rating.seconds > HOOK_TARGET_SECONDS ? 'text-red-400 bg-red-500/10' : 'text-slate-500 bg-white/5'}`}>{rating.seconds.toFixed(1)}s spoken</span>
+        {rating.loops.length
+          ? rating.loops.map(loop => <span key={loop} className="text-cyan-400 bg-cyan-500/10 px-2 py-0.5 rounded-full">{loop}</span>)
+          : <span className="text-red-400 bg-red-500/10 px-2 py-0.5 rounded-full">No open loop</span>}
+      </div>
+      {note && <p className="text-[9px] font-bold text-slate-600 truncate">{note}</p>}
+      <div className="flex gap-2">
+        <button onClick={onUse} disabled={!canUse || inScript} className="flex-1 py-2 rounded-xl text-[10px] font-black uppercase bg-cyan-600/10 text-cyan-400 border border-cyan-500/20 hover:bg-cyan-600 hover:text-white transition-all disabled:opacity-40">
+          {inScript ? '✓ In Script' : '⤵ Use in Script'}
+        </button>
+        {action}
+      </div>
+    </div>
+  );
+};
+
+const HookLab: React.FC<HookLabProps> = ({ title, hooks, library, niche, pacing, script, loading, onGenerate, onSave, onRemove, onUse }) => (
+  <div className="space-y-6">
+    <button onClick={onGenerate} disabled={!title || loading} className="w-full py-4 rounded-2xl text-[11px] font-black uppercase bg-cyan-600/10 text-cyan-500 border border-cyan-500/20 hover:bg-cyan-600 hover:text-white transition-all disabled:opacity-30">
+      {loading ? 'ENGINEERING HOOKS...' : !title ? 'Open a project first' : hooks.length ? '↻ Regenerate Hooks' : '⚡ Generate Hooks'}
+    </button>
+
+    {hooks.map(hook => {
+      const saved = isSaved(library, niche, hook.hook);
+      return (
+        <HookCard
+          key={hook.hook}
+          hook={hook}
+          pacing={pacing}
+          inScript={opensWith(script, hook.hook)}
+          canUse={!!title}
+          onUse={() => onUse(hook.hook)}
+          action={
+            <button onClick={() => onSave(hook)} disabled={saved} title="Save to the niche's hook library" className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white disabled:opacity-40">
+              {saved ? '★' : '☆'}
+            </button>
+          }
+        />
+      );
+    })}
+
+    <div className="space-y-4 pt-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Library · {niche || 'No niche'}</span>
+        <span className="text-[10px] font-black text-slate-600">{library.length}</span>
+      </div>
+      {library.length === 0 ? (
+        <p className="text-[10px] font-bold text-slate-600">Star hooks to reuse them across this niche's videos.</p>
+      ) : library.map(saved => (
+        <HookCard
+          key={saved.id}
+          hook={saved}
+          pacing={pacing}
+          inScript={opensWith(script, saved.hook)}
+          canUse={!!title}
+          onUse={() => onUse(saved.hook)}
+          note={`From: ${saved.source}`}
+          action={
+            <button onClick={() => onRemove(saved.id)} title="Remove from library" className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-500 border border-white/5 hover:text-red-400">✕</button>
+          }
+        />
+      ))}
+    </div>
+  </div>
+);
+
+export default HookLab;
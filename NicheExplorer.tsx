@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { NicheAnalysis, TrendingNiche } from './types';
+import { analyzeNiche, getTrendingGlobalNiches } from './geminiService';
+import { MAX_CANDIDATES, nicheScore, rankNiches, parseCandidates } from './niches';
+import { estimateRpm } from './revenue';
+import { useOperations } from './operations';
+
+/** Explorer state, kept by the parent so it survives switching views. */
+export interface NicheResearch {
+  candidates: string[];
+  analyses: Record<string, NicheAnalysis>;
+}
+
+export const EMPTY_RESEARCH: NicheResearch = { candidates: [], analyses: {} };
+
+interface NicheExplorerProps {
+  channelName: string;
+  currentNiche: string;
+  research: NicheResearch;
+  onResearchChange: React.Dispatch<React.SetStateAction<NicheResearch>>;
+  /** Re-plans the active channel around the niche. */
+  onAdopt: (analysis: NicheAnalysis) => void;
+  /** Creates and initializes a new channel for the niche. */
+  onLaunch: (analysis: NicheAnalysis) => void;
+  busy: boolean;
+}
+
+const COMPETITION_STYLES: Record<NicheAnalysis['competition'], string> = {
+  Low: 'bg-emerald-600/20 text-emerald-400',
+  Medium: 'bg-amber-600/20 text-amber-400',
+  High: 'bg-red-600/20 text-red-400',
+};
+
+const NicheExplorer: React.FC<NicheExplorerProps> = ({ channelName, currentNiche, research, onResearchChange, onAdopt, onLaunch, busy }) => {
+  const [draft, setDraft] = useState('');
+  const [suggestions, setSuggestions] = useState<TrendingNiche[]>([]);
+  const operations = useOperations();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const suggesting = operations.isRunning('suggest');
+  const analyzing = research.candidates.find(name => operations.isRunning(`analyze:${name}`)) ?? null;
+  const analyzingAll = operations.isRunning('analyze');
+
+  const pending = research.candidates.filter(c => !research.analyses[c]);
+  const ranked = rankNiches(research.candidates.map(c => research.analyses[c]).filter(Boolean));
+  const seed = draft.split(/[\n,]/)[0].trim() || currentNiche;
+
+  const addCandidates = (text: string) => {
+    onResearchChange(prev => {
+      const room = MAX_CANDIDATES - prev.candidates.length;
+      return { ...prev, candidates: [...prev.candidates, ...parseCandidates(text, prev.candidates).slice(0, Math.max(0, room))] };
+    });
+  };
+
+  const removeCandidate = (name: string) => {
+    onResearchChange(prev => {
+      const { [name]: _removed, ...analyses } = prev.analyses;
+      return { candidates: prev.candidates.filter(c => c !== name), analyses };
+    });
+  };
+
+  const handleSuggest = async (topic: string) => {
+    setErrors(prev => ({ ...prev, suggestions: '' }));
+    try {
+      const found = await operations.run('suggest', signal => getTrendingGlobalNiches(topic, false, signal));
+      if (found) setSuggestions(found);
+    } catch (e: any) {
+      setErrors(prev => ({ ...prev, suggestions: e.message || "Suggestions failed." }));
+    }
+  };
+
+  const analyzeCandidate = async (name: string) => {
+    try {
+      const analysis = await operations.run(`analyze:${name}`, signal => analyzeNiche(name, false, signal));
+      if (!analysis) return;
+      onResearchChange(prev => (prev.candidates.includes(name) ? { ...prev, analyses: { ...prev.analyses, [name]: analysis } } : prev));
+      setErrors(prev => ({ ...prev, [name]: '' }));
+    } catch (e: any) {
+      setErrors(prev => ({ ...prev, [name]: e.message || "Analysis failed." }));
+    }
+  };
+
+  // One at a time: grounded analyses are the most rate-limited requests the studio makes.
+  // Cancelling the batch also cancels the candidate it is on.
+  const handleAnalyze = () => operations.run('analyze', async signal => {
+    for (const name of pending) {
+      if (signal.aborted) return;
+      const stop = () => operations.cancel(`analyze:${name}`);
+      signal.addEventListener('abort', stop);
+      await analyzeCandidate(name);
+      signal.removeEventListener('abort', stop);
+    }
+  });
+
+  const rows: { label: string; render: (a: NicheAnalysis) => React.ReactNode }[] = [
+    {
+      label: 'Trend score',
+      render: a => (
+        <div className="space-y-1">
+          <span className="text-sm font-black text-white">{a.trendScore}/10</span>
+          <div className="w-full bg-slate-950 h-1.5 rounded-full overflow-hidden">
+            <div className="h-full bg-gradient-to-r from-blue-600 to-cyan-600" style={{ width: `${a.trendScore * 10}%` }} />
+          </div>
+        </div>
+      ),
+    },
+    { label: 'Competition', render: a => <span className={`text-[9px] font-black px-2 py-1 rounded-lg uppercase tracking-widest ${COMPETITION_STYLES[a.competition]}`}>{a.competition}</span> },
+    { label: 'Monetization', render: a => a.monetization },
+    { label: 'Est. RPM', render: a => { const rpm = estimateRpm(a.name, a); return `$${rpm.low}–$${rpm.high}`; } },
+    { label: 'Longevity', render: a => a.longevity },
+    { label: 'Platform fit', render: a => a.platformFit },
+    {
+      label: 'Sources',
+      render: a => (a.sources?.length ? (
+        <div className="flex flex-col gap-1">
+          {a.sources.map((s, i) => (
+            <a key={i} href={s.uri} target="_blank" rel="noopener noreferrer" className="text-[9px] font-bold text-blue-400 hover:underline truncate max-w-[200px]">{s.title}</a>
+          ))}
+        </div>
+      ) : <span className="text-slate-700">None</span>),
+    },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="glass p-8 rounded-[3rem] border border-white/5 space-y-5">
+          <div>
+            <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Candidates</h3>
+            <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">{research.candidates.length}/{MAX_CANDIDATES} · {ranked.length} Analyzed</p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && draft.trim()) {
+                  addCandidates(draft);
+                  setDraft('');
+                }
+              }}
+              placeholder="Any niche or sub-niche, comma-separated"
+              className="flex-1 min-w-0 bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+            />
+            <button
+              onClick={() => { addCandidates(draft); setDraft(''); }}
+              disabled={!draft.trim() || research.candidates.length >= MAX_CANDIDATES}
+              className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-40"
+            >
+              + Add
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {research.candidates.length === 0 && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">Add a few niches to compare</p>}
+            {research.candidates.map(name => (
+              <span key={name} title={errors[name] || undefined} className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border text-[10px] font-bold ${errors[name] ? 'border-red-500/30 text-red-300' : research.analyses[name] ? 'border-emerald-500/20 text-emerald-300' : 'border-white/10 text-slate-300'}`}>
+                {analyzing === name ? '⏳' : research.analyses[name] ? '✓' : errors[name] ? '!' : '·'} {name}
+                <button onClick={() => removeCandidate(name)} disabled={analyzing === name} className="text-slate-500 hover:text-red-400">✕</button>
+              </span>
+            ))}
+          </div>
+          <button onClick={analyzingAll ? () => operations.cancel('analyze') : handleAnalyze} disabled={!analyzingAll && !pending.length} title={analyzingAll ? "Cancel the remaining analyses" : undefined} className="w-full py-3 bg-blue-600 hover:bg-blue-500 rounded-2xl text-[11px] font-black text-white uppercase disabled:opacity-40">
+            {analyzingAll ? `Analyzing ${analyzing || ''}... ✕` : `Analyze ${pending.length || ''} Candidate${pending.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+
+        <div className="glass p-8 rounded-[3rem] border border-white/5 space-y-5">
+          <div className="flex flex-wrap gap-2 justify-between items-center">
+            <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Suggestions</h3>
+            <div className="flex gap-2">
+              <button onClick={() => handleSuggest('')} disabled={suggesting} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-40">🔥 Trending</button>
+              {seed && (
+                <button onClick={() => handleSuggest(seed)} disabled={suggesting} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-40 max-w-[220px] truncate">Sub-niches of {seed}</button>
+              )}
+            </div>
+          </div>
+          {suggesting && (
+            <div className="flex justify-between items-center">
+              <p className="text-[10px] font-black text-blue-400 uppercase tracking-widest animate-pulse">Scanning search trends...</p>
+              <button onClick={() => operations.cancel('suggest')} className="text-[10px] font-black uppercase text-slate-500 hover:text-red-400">Cancel ✕</button>
+            </div>
+          )}
+          {errors.suggestions && <p className="text-xs font-bold text-red-400">{errors.suggestions}</p>}
+          {!suggesting && suggestions.length === 0 && !errors.suggestions && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">Pull trending niches or drill into a topic</p>}
+          <div className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+            {suggestions.map(s => {
+              const added = research.candidates.some(c => c.toLowerCase() === s.name.toLowerCase());
+              return (
+                <div key={s.name} className="flex items-start gap-3 p-3 glass-card rounded-xl border border-white/5">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-[11px] font-black text-white">{s.name}</p>
+                    <p className="text-[10px] font-bold text-slate-500 leading-relaxed">{s.reason}</p>
+                  </div>
+                  <button onClick={() => addCandidates(s.name)} disabled={added || research.candidates.length >= MAX_CANDIDATES} className="text-[9px] font-black uppercase text-blue-500 hover:text-blue-400 disabled:text-slate-600 shrink-0">
+                    {added ? 'Added' : '+ Compare'}
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          {suggestions[0]?.sources && suggestions[0].sources.length > 0 && (
+            <div className="flex flex-wrap gap-2 pt-2 border-t border-white/5">
+              {suggestions[0].sources.map((src, i) => (
+                <a key={i} href={src.uri} target="_blank" rel="noopener noreferrer" className="px-3 py-1.5 bg-blue-500/5 border border-blue-500/10 rounded-xl text-[9px] font-bold text-blue-400 hover:bg-blue-500/10 transition-colors truncate max-w-[200px]">{src.title}</a>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {ranked.length > 0 && (
+        <div className="glass p-8 rounded-[3rem] border border-white/5 space-y-4 overflow-x-auto custom-scrollbar">
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Comparison</h3>
+          <table className="w-full text-left border-separate border-spacing-y-2 min-w-[640px]">
+            <thead>
+              <tr>
+                <th className="w-32" />
+                {ranked.map((a, i) => (
+                  <th key={a.name} className="px-3 align-bottom">
+                    {i === 0 && ranked.length > 1 && <span className="block text-[8px] font-black uppercase tracking-widest text-emerald-400 mb-1">★ Top pick</span>}
+                    <span className="text-xs font-black text-white uppercase tracking-tight">{a.name}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="text-[11px] font-bold text-slate-300">
+              <tr>
+                <td className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Score</td>
+                {ranked.map((a, i) => (
+                  <td key={a.name} className="px-3">
+                    <span className={`text-lg font-black italic ${i === 0 ? 'text-emerald-400' : 'text-white'}`}>{nicheScore(a)}</span>
+                    <span className="text-[9px] text-slate-600"> / 20</span>
+                  </td>
+                ))}
+              </tr>
+              {rows.map(row => (
+                <tr key={row.label}>
+                  <td className="text-[9px] font-black text-slate-500 uppercase tracking-widest align-top pt-1">{row.label}</td>
+                  {ranked.map(a => <td key={a.name} className="px-3 align-top leading-relaxed">{row.render(a)}</td>)}
+                </tr>
+              ))}
+              <tr>
+                <td />
+                {ranked.map(a => (
+                  <td key={a.name} className="px-3 pt-3">
+                    <div className="flex flex-col gap-2">
+                      <button
+                        onClick={() => window.confirm(`Re-plan "${channelName}" around ${a.name}? Strategy and concepts are regenerated; existing projects are kept.`) && onAdopt(a)}
+                        disabled={busy}
+                        className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40"
+                      >
+                        Use for {channelName}
+                      </button>
+                      <button onClick={() => onLaunch(a)} disabled={busy} className="px-3 py-2 rounded-xl text-[9px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-40">
+                        + New Channel
+                      </button>
+                    </div>
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-[10px] font-bold text-slate-600">Score: trend (0–10) + competition (Low 3, Medium 1.5) + longevity (up to 2) + RPM (up to 5).</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NicheExplorer;
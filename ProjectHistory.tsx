@@ -0,0 +1,80 @@
+import React, { useState, useMemo } from 'react';
+import { Project } from './types';
+import { diffLines, diffStats } from './textDiff';
+import { countWords } from './storyboard';
+
+interface ProjectHistoryProps {
+  project: Project;
+  onRestore: (text: string) => void;
+}
+
+const SOURCE_LABELS = { generated: 'AI Draft', edited: 'Edit', restored: 'Restore' };
+
+const ProjectHistory: React.FC<ProjectHistoryProps> = ({ project, onRestore }) => {
+  const revisions = [...project.revisions].reverse();
+  const [selectedId, setSelectedId] = useState<string | null>(revisions[0]?.id ?? null);
+  const [compareTo, setCompareTo] = useState<'previous' | 'current'>('previous');
+
+  const selectedIndex = project.revisions.findIndex(r => r.id === selectedId);
+  const selected = project.revisions[selectedIndex];
+
+  const diff = useMemo(() => {
+    if (!selected) return [];
+    return compareTo === 'previous'
+      ? diffLines(project.revisions[selectedIndex - 1]?.text ?? '', selected.text)
+      : diffLines(selected.text, project.script);
+  }, [selected, selectedIndex, compareTo, project.revisions, project.script]);
+  const stats = diffStats(diff);
+
+  if (!revisions.length) {
+    return (
+      <div className="glass rounded-[3rem] border border-white/5 p-8 text-center text-[10px] font-black uppercase tracking-[0.4em] text-slate-700">
+        No revisions saved yet
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 grid grid-cols-1 lg:grid-cols-4 gap-6 animate-fade">
+      <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-2">
+        <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest mb-4">Revisions</h3>
+        {revisions.map(r => (
+          <button key={r.id} onClick={() => setSelectedId(r.id)} className={`w-full text-left p-4 rounded-2xl border transition-all ${r.id === selectedId ? 'border-blue-500 bg-blue-500/5' : 'border-white/5 hover:bg-white/5'}`}>
+            <div className="flex justify-between items-center">
+              <span className="text-[10px] font-black uppercase tracking-widest text-blue-400">{SOURCE_LABELS[r.source]}</span>
+              <span className="text-[9px] font-bold text-slate-600">{countWords(r.text)}w</span>
+            </div>
+            <p className="text-[10px] text-slate-500 font-bold mt-1">{new Date(r.createdAt).toLocaleString()}</p>
+          </button>
+        ))}
+      </div>
+
+      <div className="lg:col-span-3 space-y-4">
+        <div className="flex flex-wrap gap-3 justify-between items-center">
+          <div className="flex glass p-1 rounded-xl border border-white/5">
+            <button onClick={() => setCompareTo('previous')} className={`px-4 py-2 text-[10px] font-black uppercase rounded-lg ${compareTo === 'previous' ? 'bg-slate-800 text-blue-500' : 'text-slate-500'}`}>vs Previous</button>
+            <button onClick={() => setCompareTo('current')} className={`px-4 py-2 text-[10px] font-black uppercase rounded-lg ${compareTo === 'current' ? 'bg-slate-800 text-blue-500' : 'text-slate-500'}`}>vs Working Copy</button>
+          </div>
+          <div className="flex items-center gap-4">
+            <span className="text-[10px] font-black uppercase tracking-widest">
+              <span className="text-emerald-400">+{stats.added}</span> <span className="text-red-400">−{stats.removed}</span>
+            </span>
+            {selected && (
+              <button onClick={() => onRestore(selected.text)} className="px-4 py-2 bg-blue-600/10 hover:bg-blue-600 hover:text-white rounded-xl text-[10px] font-black text-blue-500 uppercase transition-all border border-blue-500/20">Restore</button>
+            )}
+          </div>
+        </div>
+        <div className="bg-slate-950/60 rounded-2xl border border-white/5 p-4 font-mono text-[11px] leading-relaxed max-h-[45vh] overflow-y-auto custom-scrollbar">
+          {diff.map((line, i) => (
+            <div key={i} className={line.type === 'added' ? 'bg-emerald-500/10 text-emerald-300' : line.type === 'removed' ? 'bg-red-500/10 text-red-300 line-through' : 'text-slate-500'}>
+              <span className="select-none opacity-50 mr-3">{line.type === 'added' ? '+' : line.type === 'removed' ? '−' : ' '}</span>
+              {line.text || ' '}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProjectHistory;
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BrandProfile, PromptTemplateHistory, PromptTemplateId } from './types';
+import { TEMPLATE_IDS, TEMPLATE_SPECS, brandInstruction, renderTemplate, unknownVariables } from './prompts';
+
+interface PromptTemplatesPanelProps {
+  histories: Partial<Record<PromptTemplateId, PromptTemplateHistory>>;
+  /** The open channel's profile, shown in the preview. */
+  brand: BrandProfile;
+  onSave: (id: PromptTemplateId, body: string, note: string) => void;
+  onActivate: (id: PromptTemplateId, versionId: string | null) => void;
+}
+
+const EMPTY_HISTORY: PromptTemplateHistory = { versions: [], activeId: null };
+
+const PromptTemplatesPanel: React.FC<PromptTemplatesPanelProps> = ({ histories, brand, onSave, onActivate }) => {
+  const [selected, setSelected] = useState<PromptTemplateId>('script');
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const editorRef = useRef<HTMLTextAreaElement>(null);
+
+  const spec = TEMPLATE_SPECS[selected];
+  const history = histories[selected] || EMPTY_HISTORY;
+  const active = history.versions.find(v => v.id === history.activeId);
+  const activeBody = active?.body ?? spec.body;
+  const dirty = draft !== activeBody;
+  const unknown = unknownVariables(selected, draft);
+  const brandText = brandInstruction(brand);
+
+  useEffect(() => {
+    setDraft(activeBody);
+    setNote('');
+  }, [selected, activeBody]);
+
+  const insertVariable = (name: string) => {
+    const el = editorRef.current;
+    const slot = `{{${name}}}`;
+    const start = el?.selectionStart ?? draft.length;
+    const end = el?.selectionEnd ?? draft.length;
+    setDraft(draft.slice(0, start) + slot + draft.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + slot.length, start + slot.length);
+    });
+  };
+
+  return (
+    <div className="glass p-10 rounded-[3rem] border border-white/5 space-y-8">
+      <div className="space-y-1">
+        <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Prompt Templates</h3>
+        <p className="text-[10px] font-bold text-slate-600">Shared by every channel. Saving creates a new version; earlier versions and the built-in default stay one click away.</p>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-[14rem_1fr] gap-8">
+        <div className="space-y-1">
+          {TEMPLATE_IDS.map(id => (
+            <button key={id} onClick={() => setSelected(id)} className={`w-full flex justify-between items-center px-4 py-3 rounded-xl text-left text-[11px] font-bold transition-all ${selected === id ? 'bg-blue-600/20 text-white border border-blue-500/30' : 'text-slate-400 hover:bg-white/5 border border-transparent'}`}>
+              <span>{TEMPLATE_SPECS[id].label}</span>
+              {histories[id]?.activeId && <span className="text-[8px] font-black uppercase px-2 py-0.5 rounded-full text-amber-400 bg-amber-500/10">custom</span>}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-6 min-w-0">
+          <p className="text-[11px] font-bold text-slate-400">{spec.description}</p>
+
+          {Object.keys(spec.variables).length > 0 && (
+            <div className="flex flex-wrap gap-2 items-center">
+              <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Insert</span>
+              {Object.keys(spec.variables).map(name => (
+                <button key={name} onClick={() => insertVariable(name)} className="px-3 py-1 rounded-lg text-[10px] font-mono font-bold bg-white/5 text-blue-300 border border-white/5 hover:text-white">{`{{${name}}}`}</button>
+              ))}
+            </div>
+          )}
+
+          <textarea
+            ref={editorRef}
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={10}
+            spellCheck={false}
+            className="w-full bg-slate-950/60 border border-white/5 rounded-2xl p-5 text-xs text-slate-200 font-mono outline-none resize-y custom-scrollbar focus:border-blue-500/40"
+          />
+          {unknown.length > 0 && (
+            <p className="text-[10px] font-bold text-amber-400">Not supplied by this generation and will be sent as typed: {unknown.map(v => `{{${v}}}`).join(', ')}</p>
+          )}
+
+          <div className="flex flex-wrap gap-2 items-center">
+            <input value={note} onChange={e => setNote(e.target.value)} placeholder="What changed (optional)" className="flex-1 min-w-[12rem] bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40" />
+            <button onClick={() => onSave(selected, draft, note)} disabled={!dirty || !draft.trim()} className="px-5 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-30">Save Version</button>
+            <button onClick={() => setDraft(activeBody)} disabled={!dirty} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase text-slate-500 hover:text-white disabled:opacity-30">Discard</button>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Preview with sample values</p>
+              <pre className="bg-slate-950/60 border border-white/5 rounded-2xl p-5 text-[10px] text-slate-300 font-mono whitespace-pre-wrap max-h-80 overflow-y-auto custom-scrollbar">{renderTemplate(draft, spec.variables)}</pre>
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest pt-2">Appended to the system instruction</p>
+              <pre className="bg-slate-950/60 border border-white/5 rounded-2xl p-5 text-[10px] text-slate-500 font-mono whitespace-pre-wrap max-h-48 overflow-y-auto custom-scrollbar">{brandText || "This channel has no brand profile yet."}</pre>
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Versions</p>
+              <VersionRow label="Built-in default" detail="Ships with ContentForge" active={!history.activeId} onUse={() => onActivate(selected, null)} />
+              {[...history.versions].reverse().map(version => (
+                <VersionRow
+                  key={version.id}
+                  label={version.note || 'Untitled version'}
+                  detail={new Date(version.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                  active={history.activeId === version.id}
+                  onUse={() => onActivate(selected, version.id)}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const VersionRow: React.FC<{ label: string; detail: string; active: boolean; onUse: () => void }> = ({ label, detail, active, onUse }) => (
+  <div className={`flex justify-between items-center gap-4 rounded-xl px-4 py-2 border ${active ? 'bg-blue-600/10 border-blue-500/30' : 'bg-slate-950/40 border-white/5'}`}>
+    <div className="min-w-0">
+      <p className="text-[11px] font-bold text-white truncate">{label}</p>
+      <p className="text-[9px] font-bold text-slate-600">{detail}</p>
+    </div>
+    {active ? (
+      <span className="shrink-0 text-[8px] font-black uppercase px-2 py-0.5 rounded-full text-blue-400 bg-blue-500/10">active</span>
+    ) : (
+      <button onClick={onUse} className="shrink-0 px-3 py-1 rounded-lg text-[10px] font-black uppercase bg-white/5 text-slate-400 hover:text-white">Use</button>
+    )}
+  </div>
+);
+
+export default PromptTemplatesPanel;
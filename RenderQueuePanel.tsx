@@ -0,0 +1,83 @@
+import React from 'react';
+import { RenderJob, RenderJobStatus } from './types';
+import { isActiveJob, jobElapsedMs, MAX_WAIT_MS } from './renderJobs';
+import { formatDuration } from './storyboard';
+import { useMediaUrl } from './media';
+
+interface RenderQueuePanelProps {
+  jobs: RenderJob[];
+  now: number;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+const STATUS_STYLES: Record<RenderJobStatus, string> = {
+  queued: 'bg-slate-700/40 text-slate-300',
+  running: 'bg-indigo-600/20 text-indigo-400',
+  succeeded: 'bg-emerald-600/20 text-emerald-400',
+  failed: 'bg-red-600/20 text-red-400',
+  cancelled: 'bg-slate-700/40 text-slate-500',
+  timedOut: 'bg-amber-600/20 text-amber-400',
+};
+
+const ClipPreview = ({ src }: { src: string }) => {
+  const url = useMediaUrl(src);
+  return url ? <video src={url} controls className="w-full rounded-xl bg-black aspect-video" /> : null;
+};
+
+const RenderQueuePanel: React.FC<RenderQueuePanelProps> = ({ jobs, now, onCancel, onRetry, onRemove }) => {
+  const active = jobs.filter(isActiveJob).length;
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+      <div>
+        <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Render Queue</h3>
+        <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">
+          {active} Active · {jobs.length - active} Finished · Max wait {MAX_WAIT_MS / 60000} min
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {jobs.map(job => (
+          <div key={job.id} className="glass-card rounded-2xl border border-white/5 p-4 space-y-3">
+            <div className="flex justify-between items-center gap-2">
+              <span className="text-xs font-bold text-white truncate">{job.label}</span>
+              <span className={`text-[9px] font-black px-2 py-1 rounded-lg uppercase tracking-widest shrink-0 ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+            </div>
+
+            {isActiveJob(job) && (
+              <div className="w-full bg-slate-950 h-2 rounded-full overflow-hidden border border-white/5">
+                <div className="h-full bg-gradient-to-r from-indigo-600 to-blue-600 transition-all duration-1000" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+              </div>
+            )}
+
+            {job.status === 'succeeded' && job.resultRef && <ClipPreview src={job.resultRef} />}
+            {job.error && <p className="text-[10px] font-bold text-red-400">{job.error}</p>}
+
+            <div className="flex justify-between items-center">
+              <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest tabular-nums">
+                {job.status === 'queued' ? 'Waiting' : `${formatDuration(jobElapsedMs(job, now) / 1000)} elapsed`}
+                {job.imageRef ? ' · Image-seeded' : ''}
+              </span>
+              <div className="flex gap-1">
+                {isActiveJob(job) ? (
+                  <button onClick={() => onCancel(job.id)} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-red-400">Cancel</button>
+                ) : (
+                  <>
+                    {job.status !== 'succeeded' && (
+                      <button onClick={() => onRetry(job.id)} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white">Retry</button>
+                    )}
+                    <button onClick={() => onRemove(job.id)} title="Clear from queue; finished clips stay in the project" className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white">Clear</button>
+                  </>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RenderQueuePanel;
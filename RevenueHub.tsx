@@ -0,0 +1,197 @@
+import React from 'react';
+import { ProgressStats, NicheAnalysis, RevenueModel, RpmRange, IncomeStream, IncomeStreamKind } from './types';
+import {
+  MONETIZATION_PROGRAMS,
+  STREAM_KINDS,
+  requirementProgress,
+  isEligible,
+  estimateRpm,
+  projectRevenue,
+  monthsToAdEligibility,
+  createIncomeStream,
+  ProjectionPoint,
+} from './revenue';
+
+interface RevenueHubProps {
+  niche: string;
+  nicheAnalysis: NicheAnalysis | null;
+  stats: ProgressStats;
+  onStatsChange: (stats: ProgressStats) => void;
+  model: RevenueModel;
+  onModelChange: (model: RevenueModel) => void;
+}
+
+const money = (value: number) => `$${Math.round(value).toLocaleString()}`;
+
+const input = "w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40";
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+  suffix?: string;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onChange, step = 1, suffix }) => (
+  <label className="block space-y-1">
+    <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{label}{suffix ? ` (${suffix})` : ''}</span>
+    <input type="number" min={0} step={step} value={value} onChange={e => onChange(Math.max(0, Number(e.target.value) || 0))} className={input} />
+  </label>
+);
+
+const CHART_W = 640;
+const CHART_H = 220;
+const PAD = 36;
+
+const ProjectionChart = ({ points }: { points: ProjectionPoint[] }) => {
+  const max = Math.max(1, ...points.map(p => p.best));
+  const x = (i: number) => PAD + (i / Math.max(1, points.length - 1)) * (CHART_W - PAD * 2);
+  const y = (v: number) => CHART_H - PAD - (v / max) * (CHART_H - PAD * 2);
+  const line = (key: keyof ProjectionPoint) => points.map((p, i) => `${i ? 'L' : 'M'}${x(i)},${y(p[key])}`).join(' ');
+  const band = [...points.map((p, i) => `${x(i)},${y(p.best)}`), ...[...points].reverse().map((p, i) => `${x(points.length - 1 - i)},${y(p.worst)}`)].join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={PAD} x2={CHART_W - PAD} y1={y(max * f)} y2={y(max * f)} stroke="rgba(255,255,255,0.05)" />
+          <text x={PAD - 6} y={y(max * f) + 3} textAnchor="end" className="fill-slate-600 text-[9px] font-bold">{money(max * f)}</text>
+        </g>
+      ))}
+      <polygon points={band} fill="rgba(37,99,235,0.08)" />
+      <path d={line('worst')} fill="none" stroke="#f87171" strokeWidth={2} strokeDasharray="4 4" />
+      <path d={line('best')} fill="none" stroke="#34d399" strokeWidth={2} strokeDasharray="4 4" />
+      <path d={line('base')} fill="none" stroke="#3b82f6" strokeWidth={3} />
+      {points.map((p, i) => (
+        <text key={p.month} x={x(i)} y={CHART_H - PAD + 16} textAnchor="middle" className="fill-slate-600 text-[9px] font-bold">M{p.month}</text>
+      ))}
+    </svg>
+  );
+};
+
+const RevenueHub: React.FC<RevenueHubProps> = ({ niche, nicheAnalysis, stats, onStatsChange, model, onModelChange }) => {
+  const estimate = estimateRpm(niche, nicheAnalysis);
+  const rpm: RpmRange = model.rpm || estimate;
+  const projection = projectRevenue(model, rpm, stats);
+  const adsIn = monthsToAdEligibility(stats, model);
+  const totals = {
+    worst: projection.reduce((n, p) => n + p.worst, 0),
+    base: projection.reduce((n, p) => n + p.base, 0),
+    best: projection.reduce((n, p) => n + p.best, 0),
+  };
+
+  const setModel = (patch: Partial<RevenueModel>) => onModelChange({ ...model, ...patch });
+  const setStream = (id: string, patch: Partial<IncomeStream>) => setModel({ streams: model.streams.map(s => (s.id === id ? { ...s, ...patch } : s)) });
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {MONETIZATION_PROGRAMS.map(program => {
+          const eligible = isEligible(program, stats);
+          return (
+            <div key={program.id} className="glass p-8 rounded-[2.5rem] border border-white/5 space-y-5">
+              <div className="flex justify-between items-center">
+                <div>
+                  <p className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{program.platform}</p>
+                  <h3 className="text-sm font-black text-white uppercase tracking-tight">{program.name}</h3>
+                </div>
+                <span className={`text-[9px] font-black px-3 py-1 rounded-lg uppercase tracking-widest ${eligible ? 'bg-emerald-600/20 text-emerald-400' : 'bg-slate-700/40 text-slate-400'}`}>{eligible ? 'Eligible' : 'Locked'}</span>
+              </div>
+              {program.requirements.map(req => {
+                const progress = requirementProgress(req, stats);
+                return (
+                  <div key={req.label} className="space-y-2">
+                    <div className="flex justify-between items-center gap-2">
+                      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{req.label}</span>
+                      <div className="flex items-center gap-1 text-[10px] font-bold text-slate-600">
+                        <input
+                          type="number"
+                          min={0}
+                          value={req.value(stats)}
+                          onChange={e => onStatsChange(req.update(stats, Math.max(0, Number(e.target.value) || 0)))}
+                          className="w-20 bg-slate-950/60 border border-white/5 rounded-lg px-2 py-1 text-xs font-bold text-white text-right outline-none"
+                        />
+                        / {req.target.toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="w-full bg-slate-950 h-2 rounded-full overflow-hidden border border-white/5">
+                      <div className={`h-full bg-gradient-to-r transition-all duration-1000 ${progress >= 1 ? 'from-emerald-600 to-green-600' : 'from-blue-600 to-cyan-600'}`} style={{ width: `${progress * 100}%` }} />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="glass p-8 rounded-[2.5rem] border border-white/5 space-y-5">
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">AdSense Model</h3>
+          <NumberField label="Monthly views" value={model.monthlyViews} step={1000} onChange={monthlyViews => setModel({ monthlyViews })} />
+          <NumberField label="View growth" suffix="% / mo" value={Math.round(model.viewGrowth * 100)} onChange={v => setModel({ viewGrowth: v / 100 })} />
+          <NumberField label="Avg view duration" suffix="min" value={model.avgViewMinutes} step={0.5} onChange={avgViewMinutes => setModel({ avgViewMinutes })} />
+          <p className="text-[10px] font-bold text-slate-500">
+            {adsIn === 0 ? 'Ad revenue is live.' : Number.isFinite(adsIn) ? `Ad revenue projected to start in month ${adsIn} (watch hours).` : 'At this pace the watch-hour threshold is out of reach within 3 years.'}
+          </p>
+        </div>
+
+        <div className="glass p-8 rounded-[2.5rem] border border-white/5 space-y-5">
+          <div className="flex justify-between items-center">
+            <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">RPM (per 1k views)</h3>
+            {model.rpm && <button onClick={() => setModel({ rpm: undefined })} className="text-[9px] font-black uppercase text-blue-500 hover:text-blue-400">Use estimate</button>}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {(['low', 'base', 'high'] as (keyof RpmRange)[]).map(key => (
+              <NumberField key={key} label={key} value={rpm[key]} step={0.5} onChange={v => setModel({ rpm: { low: rpm.low, base: rpm.base, high: rpm.high, [key]: v } })} />
+            ))}
+          </div>
+          <p className="text-[10px] font-bold text-slate-500 leading-relaxed">{model.rpm ? 'Manual override.' : estimate.basis}</p>
+        </div>
+
+        <div className="glass p-8 rounded-[2.5rem] border border-white/5 space-y-4">
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Income Streams</h3>
+          {model.streams.length === 0 && <p className="text-[10px] font-bold text-slate-600 uppercase tracking-widest">No streams yet</p>}
+          <div className="space-y-3 max-h-64 overflow-y-auto custom-scrollbar pr-1">
+            {model.streams.map(stream => (
+              <div key={stream.id} className="glass-card p-3 rounded-2xl border border-white/5 space-y-2">
+                <div className="flex gap-2 items-center">
+                  <span className="text-[8px] font-black px-2 py-0.5 rounded-full uppercase bg-indigo-600/20 text-indigo-400 shrink-0">{STREAM_KINDS[stream.kind]}</span>
+                  <input value={stream.name} onChange={e => setStream(stream.id, { name: e.target.value })} className={input} />
+                  <button onClick={() => setModel({ streams: model.streams.filter(s => s.id !== stream.id) })} title="Remove" className="text-[10px] text-slate-500 hover:text-red-400">✕</button>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <NumberField label="Monthly" suffix="$" value={stream.monthly} step={10} onChange={monthly => setStream(stream.id, { monthly })} />
+                  <NumberField label="Growth" suffix="% / mo" value={Math.round(stream.growth * 100)} onChange={v => setStream(stream.id, { growth: v / 100 })} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(STREAM_KINDS) as IncomeStreamKind[]).map(kind => (
+              <button key={kind} onClick={() => setModel({ streams: [...model.streams, createIncomeStream(kind)] })} className="flex-1 py-2 rounded-xl border border-dashed border-white/10 text-[9px] font-black uppercase text-slate-500 hover:text-white hover:border-blue-500/40">+ {STREAM_KINDS[kind]}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="glass p-8 rounded-[3rem] border border-white/5 space-y-6">
+        <div className="flex flex-wrap gap-4 justify-between items-center">
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">12-Month Projection</h3>
+          <div className="flex gap-6 text-[10px] font-black uppercase tracking-widest">
+            <span className="text-red-400">Worst {money(totals.worst)}</span>
+            <span className="text-blue-400">Base {money(totals.base)}</span>
+            <span className="text-emerald-400">Best {money(totals.best)}</span>
+          </div>
+        </div>
+        <ProjectionChart points={projection} />
+        <p className="text-[10px] font-bold text-slate-600">
+          Worst: half the view growth, low RPM, 70% of stream income. Best: 1.5× growth, high RPM, 120% of stream income.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RevenueHub;
@@ -0,0 +1,108 @@
+import React from 'react';
+import { ScriptAnalysis, ScriptIssue, MAX_SCENE_SECONDS, OPENING_VISUAL_SECONDS, formatSeconds } from './scriptAnalysis';
+import { HOOK_TARGET_SECONDS } from './hooks';
+
+interface ScriptAnalysisPanelProps {
+  analysis: ScriptAnalysis;
+  wpm: number;
+  onWpmChange: (wpm: number) => void;
+  /** Selects an issue's text in the editor. */
+  onSelectIssue: (issue: ScriptIssue) => void;
+}
+
+const Stat = ({ label, value, warn }: { label: string; value: string; warn?: boolean }) => (
+  <div className="glass-card px-4 py-3 rounded-2xl border border-white/5">
+    <span className="block text-[8px] font-black text-slate-500 uppercase tracking-widest">{label}</span>
+    <span className={`block text-sm font-black ${warn ? 'text-amber-400' : 'text-white'}`}>{value}</span>
+  </div>
+);
+
+const ScriptAnalysisPanel: React.FC<ScriptAnalysisPanelProps> = ({ analysis, wpm, onWpmChange, onSelectIssue }) => {
+  const { sections, structure, issues, hook, firstSceneSeconds } = analysis;
+  const peak = Math.max(MAX_SCENE_SECONDS * 1.25, ...sections.map(s => s.seconds));
+  const warnings = issues.filter(i => i.severity === 'warning').length;
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Script Analysis</h3>
+          <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">
+            {warnings ? `${warnings} retention warning${warnings === 1 ? '' : 's'}` : 'No retention warnings'} · Checked locally, no quota used
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+          Pace
+          <input
+            type="number"
+            min={80}
+            max={260}
+            step={5}
+            value={wpm}
+            onChange={e => onWpmChange(Math.max(1, Number(e.target.value) || 0))}
+            className="w-20 bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+          />
+          WPM
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+        <Stat label="Spoken" value={formatSeconds(analysis.seconds)} />
+        <Stat label="Words" value={String(analysis.words)} />
+        <Stat label="Scenes" value={String(analysis.sceneCount)} warn={!analysis.sceneCount} />
+        <Stat label="First visual" value={firstSceneSeconds === null ? '—' : formatSeconds(firstSceneSeconds)} warn={firstSceneSeconds === null || firstSceneSeconds > OPENING_VISUAL_SECONDS} />
+        <Stat label="Hook" value={`${hook.words}w · ${formatSeconds(hook.seconds)}`} warn={hook.seconds > HOOK_TARGET_SECONDS} />
+        <Stat label="Sentences" value={String(analysis.sentenceCount)} />
+      </div>
+
+      {sections.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">
+            <span>Pacing · seconds per scene</span>
+            <span>Limit {MAX_SCENE_SECONDS}s</span>
+          </div>
+          <div className="relative h-28 flex items-end gap-1 border-b border-white/5">
+            <div className="absolute inset-x-0 border-t border-dashed border-red-500/40" style={{ bottom: `${(MAX_SCENE_SECONDS / peak) * 100}%` }} />
+            {sections.map(section => (
+              <div
+                key={section.start}
+                title={`${section.label} · ${formatSeconds(section.at)} · ${section.words} words · ${formatSeconds(section.seconds)}`}
+                className={`flex-1 min-w-[4px] rounded-t-md ${section.seconds > MAX_SCENE_SECONDS ? 'bg-red-500/70' : section.label === 'Cold open' ? 'bg-slate-600' : 'bg-blue-500/60'}`}
+                style={{ height: `${Math.max(2, (section.seconds / peak) * 100)}%` }}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {structure.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest mr-1">Structure</span>
+          {structure.map((beat, i) => (
+            <span key={`${beat.beat}-${i}`} className={`text-[9px] font-black uppercase px-2 py-1 rounded-full ${!beat.found ? 'bg-red-500/10 text-red-400' : !beat.inOrder ? 'bg-amber-500/10 text-amber-400' : 'bg-emerald-500/10 text-emerald-400'}`}>
+              {beat.found ? (beat.inOrder ? '✓' : '↕') : '✕'} {beat.beat}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map((issue, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onSelectIssue(issue)}
+                disabled={issue.start === undefined}
+                className={`text-left text-[10px] font-bold ${issue.severity === 'warning' ? 'text-amber-400' : 'text-slate-500'} enabled:hover:underline`}
+              >
+                {issue.severity === 'warning' ? '⚠' : 'ℹ'} {issue.message}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScriptAnalysisPanel;
@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { Project, ProjectSeo, VideoConcept } from './types';
+import { VARIANT_SPECS, tagCharacters } from './variants';
+import {
+  seoOf,
+  publishTitle,
+  scoreTitle,
+  TitleScore,
+  TITLE_VISIBLE,
+  buildChapters,
+  formatTimestamp,
+  projectDescription,
+  seoIssues,
+  formatSeo,
+} from './seo';
+
+interface SeoPanelProps {
+  project: Project;
+  /** Keyword suggested until one is set, usually the channel niche. */
+  defaultKeyword: string;
+  onGenerate: (keyword: string) => void;
+  generating: boolean;
+  onSeoChange: (seo: ProjectSeo) => void;
+  onMetadataChange: (metadata: VideoConcept['seo']) => void;
+}
+
+const YOUTUBE = VARIANT_SPECS['youtube-long'];
+
+const field = "w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40";
+
+const SCORE_PARTS: { key: keyof Omit<TitleScore, 'total' | 'notes'>; label: string }[] = [
+  { key: 'length', label: 'Length' },
+  { key: 'keyword', label: 'Keyword' },
+  { key: 'curiosity', label: 'Curiosity' },
+  { key: 'emotion', label: 'Emotion' },
+];
+
+const scoreColor = (total: number) => (total >= 70 ? 'text-emerald-400' : total >= 45 ? 'text-amber-400' : 'text-red-400');
+
+const Counter = ({ value, limit }: { value: number; limit: number }) => (
+  <span className={value > limit ? 'text-red-400' : 'text-slate-600'}>{value}/{limit}</span>
+);
+
+const SeoPanel: React.FC<SeoPanelProps> = ({ project, defaultKeyword, onGenerate, generating, onSeoChange, onMetadataChange }) => {
+  const [copied, setCopied] = useState<'description' | 'all' | null>(null);
+  const seo = seoOf(project);
+  const keyword = seo.keyword || defaultKeyword;
+  const title = publishTitle(project);
+  const score = scoreTitle(title, keyword, seo.candidates.find(c => c.title === title));
+  const chapters = buildChapters(project.storyboard, seo.chapterTitles);
+  const description = projectDescription(project);
+  const issues = seoIssues(project);
+  const { seo: metadata } = project.concept;
+
+  const set = (patch: Partial<ProjectSeo>) => onSeoChange({ ...seo, keyword, ...patch });
+
+  const handleCopy = async (which: 'description' | 'all') => {
+    await navigator.clipboard.writeText(which === 'all' ? formatSeo(project) : description);
+    setCopied(which);
+    setTimeout(() => setCopied(null), 1500);
+  };
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-8 animate-fade">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">SEO Workbench</h3>
+          <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">Titles · Description · Tags · Chapters</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            value={keyword}
+            onChange={e => set({ keyword: e.target.value })}
+            placeholder="Focus keyword"
+            className="w-48 bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+          />
+          <button onClick={() => onGenerate(keyword.trim())} disabled={generating || !keyword.trim() || !project.script} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40">
+            {generating ? 'Optimizing...' : seo.candidates.length ? '↻ Regenerate' : '✦ Generate'}
+          </button>
+          <button onClick={() => handleCopy('all')} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">{copied === 'all' ? '✓ Copied' : '⧉ Copy All'}</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <label className="block space-y-1">
+            <span className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">
+              Title <span><Counter value={title.length} limit={YOUTUBE.titleLimit} /> · {TITLE_VISIBLE} visible</span>
+            </span>
+            <input value={seo.title || project.concept.title} onChange={e => set({ title: e.target.value })} className={field} />
+          </label>
+          <div className="flex items-center gap-4">
+            <span className={`text-3xl font-black ${scoreColor(score.total)}`}>{score.total}</span>
+            <div className="flex-1 grid grid-cols-4 gap-2">
+              {SCORE_PARTS.map(({ key, label }) => (
+                <div key={key} className="space-y-1">
+                  <span className="block text-[8px] font-black text-slate-500 uppercase tracking-widest">{label} {score[key]}</span>
+                  <div className="w-full bg-slate-950 h-1.5 rounded-full overflow-hidden">
+                    <div className="h-full bg-blue-500" style={{ width: `${(score[key] / 25) * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+          {score.notes.length > 0 && (
+            <ul className="space-y-1">
+              {score.notes.map(note => <li key={note} className="text-[10px] font-bold text-slate-500">· {note}</li>)}
+            </ul>
+          )}
+
+          {seo.candidates.length > 0 && (
+            <div className="space-y-2">
+              <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">Candidates</span>
+              {seo.candidates.map(candidate => {
+                const candidateScore = scoreTitle(candidate.title, keyword, candidate);
+                const active = candidate.title === title;
+                return (
+                  <div key={candidate.title} className={`glass-card p-3 rounded-2xl border flex items-center gap-3 ${active ? 'border-blue-500/40' : 'border-white/5'}`}>
+                    <span className={`w-8 text-center text-sm font-black ${scoreColor(candidateScore.total)}`}>{candidateScore.total}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-[11px] font-bold text-white leading-snug">{candidate.title}</p>
+                      <p className="text-[9px] font-bold text-slate-600">{candidate.reason}</p>
+                    </div>
+                    <button onClick={() => set({ title: candidate.title })} disabled={active} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white disabled:opacity-30">
+                      {active ? 'Using' : 'Use'}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <label className="block space-y-1">
+            <span className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">Description <Counter value={description.length} limit={YOUTUBE.descriptionLimit} /></span>
+            <textarea value={metadata.description} onChange={e => onMetadataChange({ ...metadata, description: e.target.value })} rows={5} className={`${field} resize-y custom-scrollbar`} />
+          </label>
+          <label className="block space-y-1">
+            <span className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">Tags <Counter value={tagCharacters(metadata.tags)} limit={YOUTUBE.tagBudget} /></span>
+            <input value={metadata.tags.join(', ')} onChange={e => onMetadataChange({ ...metadata, tags: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })} placeholder="comma, separated" className={field} />
+          </label>
+
+          <div className="space-y-2">
+            <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">Chapters</span>
+            {chapters.length === 0 ? (
+              <p className="text-[10px] font-bold text-slate-600">Chapters are built from the storyboard's scene durations.</p>
+            ) : chapters.map(chapter => (
+              <div key={chapter.sceneId} className="flex items-center gap-2">
+                <span className="w-14 text-[10px] font-black text-blue-400 font-mono">{formatTimestamp(chapter.start)}</span>
+                <input
+                  value={chapter.title}
+                  onChange={e => set({ chapterTitles: { ...seo.chapterTitles, [chapter.sceneId]: e.target.value } })}
+                  className="flex-1 bg-slate-950/60 border border-white/5 rounded-lg px-2 py-1 text-[11px] font-bold text-white outline-none focus:border-blue-500/40"
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <ul className="space-y-1">
+          {issues.map(issue => <li key={issue} className="text-[10px] font-bold text-amber-400">⚠ {issue}</li>)}
+        </ul>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between items-center">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Upload Description</span>
+          <button onClick={() => handleCopy('description')} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white">{copied === 'description' ? '✓ Copied' : '⧉ Copy'}</button>
+        </div>
+        <pre className="bg-slate-950/60 border border-white/5 rounded-2xl p-4 text-[11px] text-slate-300 whitespace-pre-wrap font-mono max-h-72 overflow-y-auto custom-scrollbar">{description || 'No description yet.'}</pre>
+      </div>
+    </div>
+  );
+};
+
+export default SeoPanel;
@@ -0,0 +1,196 @@
+import React, { useState, useRef } from 'react';
+import { StoryboardScene } from './types';
+import { splitScriptIntoStoryboard, generateImageForScene } from './geminiService';
+import {
+  normalizeScenes,
+  totalDuration,
+  formatDuration,
+  moveScene,
+  mergeWithNext,
+  splitScene,
+} from './storyboard';
+import { saveMedia, useMediaUrl } from './media';
+import { useOperations } from './operations';
+
+interface StoryboardPanelProps {
+  script: string | null;
+  scenes: StoryboardScene[];
+  onScenesChange: (scenes: StoryboardScene[]) => void;
+  /** The scenes were split from an earlier version of the script. */
+  stale: boolean;
+  /** Replaces the storyboard with a fresh split of the current script. */
+  onRebuild: (scenes: StoryboardScene[]) => void;
+  targetDuration: number;
+  onTargetDurationChange: (seconds: number) => void;
+  /** Frame for generated stills; vertical for Shorts/Reels variants. */
+  aspectRatio?: '16:9' | '9:16';
+}
+
+const SceneImage = ({ src, alt }: { src: string; alt: string }) => {
+  const url = useMediaUrl(src);
+  return url ? <img src={url} alt={alt} className="w-full h-full object-cover" /> : null;
+};
+
+const StoryboardPanel: React.FC<StoryboardPanelProps> = ({ script, scenes, onScenesChange, stale, onRebuild, targetDuration, onTargetDurationChange, aspectRatio }) => {
+  const operations = useOperations();
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const [imageErrors, setImageErrors] = useState<Record<string, string>>({});
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Image generation resolves after the user may have edited other scenes, so patch against the latest list.
+  const latestScenes = useRef(scenes);
+  latestScenes.current = scenes;
+
+  const runtime = totalDuration(scenes);
+  const runtimeProgress = targetDuration > 0 ? Math.min(100, (runtime / targetDuration) * 100) : 0;
+  const overTarget = runtime > targetDuration;
+  const splitting = operations.isRunning('split');
+
+  const handleSplit = async () => {
+    if (!script) return;
+    setSplitError(null);
+    try {
+      const result = await operations.run('split', signal => splitScriptIntoStoryboard(script, signal));
+      if (!result) return;
+      onRebuild(normalizeScenes(result));
+      setImageErrors({});
+    } catch (e: any) {
+      setSplitError(e.message || "Storyboard engine failure.");
+    }
+  };
+
+  const updateScene = (id: string, patch: Partial<StoryboardScene>) => {
+    onScenesChange(scenes.map(s => (s.id === id ? { ...s, ...patch } : s)));
+  };
+
+  const handleGenerateImage = async (scene: StoryboardScene) => {
+    setImageErrors(prev => ({ ...prev, [scene.id]: '' }));
+    try {
+      const image = await operations.run(`image:${scene.id}`, signal => generateImageForScene(scene.visualPrompt, aspectRatio, signal));
+      if (!image) return;
+      const imageUrl = await saveMedia(image);
+      onScenesChange(latestScenes.current.map(s => (s.id === scene.id ? { ...s, imageUrl } : s)));
+    } catch (e: any) {
+      setImageErrors(prev => ({ ...prev, [scene.id]: e.message || "Visual synthesizer offline." }));
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) onScenesChange(moveScene(scenes, dragIndex, index));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Storyboard</h3>
+          <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">{scenes.length} Scenes · Drag to reorder</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            Target
+            <input
+              type="number"
+              min={10}
+              step={10}
+              value={targetDuration}
+              onChange={e => onTargetDurationChange(Math.max(0, Number(e.target.value) || 0))}
+              className="w-20 bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+            />
+            SEC
+          </label>
+          <button onClick={splitting ? () => operations.cancel('split') : handleSplit} disabled={!splitting && !script} title={splitting ? "Cancel the split" : undefined} className="px-6 py-3 bg-cyan-600/10 hover:bg-cyan-600 hover:text-white rounded-2xl text-[11px] font-black text-cyan-500 uppercase transition-all border border-cyan-500/20 disabled:opacity-30">
+            {splitting ? "SEQUENCING... ✕" : scenes.length ? "🎞️ Re-split Script" : "🎞️ Build Storyboard"}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+          <span className="text-slate-500">Runtime</span>
+          <span className={overTarget ? 'text-red-400' : 'text-blue-400'}>{formatDuration(runtime)} / {formatDuration(targetDuration)}</span>
+        </div>
+        <div className="w-full bg-slate-950 h-2.5 rounded-full overflow-hidden border border-white/5 shadow-inner">
+          <div className={`h-full bg-gradient-to-r transition-all duration-1000 ${overTarget ? 'from-red-600 to-rose-600' : 'from-blue-600 to-cyan-600'}`} style={{ width: `${runtimeProgress}%` }} />
+        </div>
+      </div>
+
+      {stale && scenes.length > 0 && (
+        <p className="text-[10px] font-bold text-amber-400 bg-amber-500/10 border border-amber-500/20 rounded-xl px-4 py-3">
+          These scenes come from an earlier script. Re-split to match the current one; images, narration and clips stay until you do.
+        </p>
+      )}
+      {splitError && <p className="text-xs font-bold text-red-400">{splitError}</p>}
+
+      {scenes.length === 0 ? (
+        <div className="py-12 text-center text-[10px] font-black uppercase tracking-[0.4em] text-slate-700">
+          {script ? "Split the script to sequence scenes" : "No script loaded"}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 2xl:grid-cols-3 gap-6">
+          {scenes.map((scene, i) => {
+            const imageLoading = operations.isRunning(`image:${scene.id}`);
+            const imageError = imageErrors[scene.id];
+            return (
+              <div
+                key={scene.id}
+                draggable
+                onDragStart={() => setDragIndex(i)}
+                onDragOver={e => { e.preventDefault(); setDropIndex(i); }}
+                onDragLeave={() => setDropIndex(prev => (prev === i ? null : prev))}
+                onDrop={e => { e.preventDefault(); handleDrop(i); }}
+                onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+                className={`glass-card rounded-[2rem] border overflow-hidden flex flex-col transition-all cursor-grab active:cursor-grabbing ${dropIndex === i && dragIndex !== i ? 'border-blue-500' : 'border-white/5'} ${dragIndex === i ? 'opacity-40' : ''}`}
+              >
+                <div className={`${aspectRatio === '9:16' ? 'h-80 aspect-[9/16] self-center' : 'aspect-video'} bg-slate-950/60 relative flex items-center justify-center`}>
+                  {scene.imageUrl ? (
+                    <SceneImage src={scene.imageUrl} alt={scene.visualPrompt} />
+                  ) : (
+                    <span className="text-[10px] font-black uppercase tracking-[0.4em] text-slate-700">{imageLoading ? "RENDERING..." : "NO VISUAL"}</span>
+                  )}
+                  <span className="absolute top-3 left-3 text-[9px] font-black px-2 py-1 bg-slate-950/80 text-blue-400 rounded-lg uppercase tracking-widest">S{i + 1}</span>
+                </div>
+
+                <div className="p-5 space-y-4 flex-1 flex flex-col">
+                  <p className="text-xs text-slate-300 leading-relaxed">{scene.text}</p>
+                  <textarea
+                    value={scene.visualPrompt}
+                    onChange={e => updateScene(scene.id, { visualPrompt: e.target.value })}
+                    rows={3}
+                    className="w-full bg-slate-950/60 border border-white/5 rounded-xl p-3 text-[11px] font-mono text-cyan-300 outline-none resize-none focus:border-cyan-500/40 custom-scrollbar"
+                  />
+                  {imageError && <p className="text-[10px] font-bold text-red-400">{imageError}</p>}
+
+                  <div className="flex items-center justify-between gap-2 mt-auto">
+                    <label className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+                      <input
+                        type="number"
+                        min={1}
+                        value={scene.duration}
+                        onChange={e => updateScene(scene.id, { duration: Math.max(1, Number(e.target.value) || 1) })}
+                        className="w-14 bg-slate-950/60 border border-white/5 rounded-lg px-2 py-1 text-xs font-bold text-white outline-none"
+                      />
+                      SEC
+                    </label>
+                    <div className="flex gap-1">
+                      <button onClick={() => (imageLoading ? operations.cancel(`image:${scene.id}`) : handleGenerateImage(scene))} disabled={!imageLoading && !scene.visualPrompt.trim()} title={imageLoading ? "Cancel the image" : "Generate image"} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30">
+                        {imageLoading ? "... ✕" : scene.imageUrl ? "↻ IMG" : "🖼️ IMG"}
+                      </button>
+                      <button onClick={() => onScenesChange(splitScene(scenes, i))} disabled={scene.duration < 2} title={scene.duration < 2 ? "Too short to split" : "Split scene"} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-30">Split</button>
+                      <button onClick={() => onScenesChange(mergeWithNext(scenes, i))} disabled={i === scenes.length - 1} title="Merge with next scene" className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-30">Merge ↓</button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StoryboardPanel;
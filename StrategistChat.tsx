@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChatAction, ChatMessage } from './types';
+import { describeAction } from './chat';
+
+interface StrategistChatProps {
+  messages: ChatMessage[];
+  /** Reply streaming in; null when the strategist is idle. */
+  draft: string | null;
+  /** Title of the open project, which script rewrites apply to. */
+  projectTitle: string | null;
+  /** Action being applied right now. */
+  applyingId: string | null;
+  onSend: (text: string) => void;
+  onApply: (action: ChatAction) => void;
+  onDismiss: (action: ChatAction) => void;
+  /** Cancels the reply streaming in. */
+  onStop: () => void;
+  onClear: () => void;
+}
+
+const SUGGESTIONS = [
+  'What should I focus on this week?',
+  'Add a concept that fills a gap in my list',
+  'Rewrite section 2 of the script with a stronger reveal',
+  'Regenerate weeks 5-6 around my current numbers',
+];
+
+const STATUS_STYLES: Record<ChatAction['status'], string> = {
+  proposed: 'text-blue-400 bg-blue-500/10',
+  applied: 'text-emerald-400 bg-emerald-500/10',
+  dismissed: 'text-slate-500 bg-white/5',
+  failed: 'text-red-400 bg-red-500/10',
+};
+
+const ActionCard: React.FC<{ action: ChatAction; applying: boolean; onApply: () => void; onDismiss: () => void }> = ({ action, applying, onApply, onDismiss }) => (
+  <div className="glass-card p-4 rounded-2xl border border-white/5 space-y-2">
+    <div className="flex justify-between items-center gap-3">
+      <span className="text-[11px] font-black text-white">{describeAction(action)}</span>
+      <span className={`shrink-0 text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[action.status]}`}>{action.status}</span>
+    </div>
+    {action.tool === 'add_concept' && action.args.hook && <p className="text-[10px] text-slate-400 italic">{action.args.hook}</p>}
+    {action.tool === 'rewrite_script_section' && (
+      <pre className="text-[10px] text-slate-400 font-mono whitespace-pre-wrap max-h-40 overflow-y-auto custom-scrollbar">{action.args.text}</pre>
+    )}
+    {action.note && <p className="text-[10px] font-bold text-slate-500">{action.note}</p>}
+    {action.status === 'proposed' && (
+      <div className="flex gap-2">
+        <button onClick={onApply} disabled={applying} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40">
+          {applying ? 'Applying...' : 'Apply'}
+        </button>
+        <button onClick={onDismiss} disabled={applying} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase text-slate-500 hover:text-white">Dismiss</button>
+      </div>
+    )}
+  </div>
+);
+
+const StrategistChat: React.FC<StrategistChatProps> = ({ messages, draft, projectTitle, applyingId, onSend, onApply, onDismiss, onStop, onClear }) => {
+  const [input, setInput] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+  const sending = draft !== null;
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, draft]);
+
+  const send = (text: string) => {
+    if (!text.trim() || sending) return;
+    onSend(text.trim());
+    setInput('');
+  };
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl flex flex-col h-[70vh] overflow-hidden">
+      <div className="px-8 py-5 border-b border-white/5 flex justify-between items-center bg-slate-900/40">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+          {projectTitle ? `Open project: ${projectTitle}` : 'No project open · script edits unavailable'}
+        </span>
+        <button onClick={onClear} disabled={!messages.length || sending} className="text-[10px] font-black uppercase text-slate-500 hover:text-red-400 disabled:opacity-30">Clear chat</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-8 space-y-6">
+        {!messages.length && !sending && (
+          <div className="h-full flex flex-col items-center justify-center gap-4 text-center">
+            <p className="text-xs font-bold text-slate-500 max-w-md">Ask about your niche, roadmap, concepts or the open script. The strategist sees this channel's data and proposes changes for you to approve.</p>
+            <div className="flex flex-wrap justify-center gap-2">
+              {SUGGESTIONS.map(s => (
+                <button key={s} onClick={() => send(s)} className="px-4 py-2 rounded-xl text-[10px] font-bold bg-white/5 text-slate-400 border border-white/5 hover:text-white">{s}</button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {messages.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[80%] space-y-3 ${message.role === 'user' ? 'bg-blue-600/20 border-blue-500/20' : 'bg-slate-900/60 border-white/5'} border rounded-3xl px-6 py-4`}>
+              {message.text && <p className="text-xs text-slate-200 leading-relaxed whitespace-pre-wrap">{message.text}</p>}
+              {message.actions?.map(action => (
+                <ActionCard
+                  key={action.id}
+                  action={action}
+                  applying={applyingId === action.id}
+                  onApply={() => onApply(action)}
+                  onDismiss={() => onDismiss(action)}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {sending && (
+          <div className="flex justify-start">
+            <div className="max-w-[80%] bg-slate-900/60 border border-white/5 rounded-3xl px-6 py-4">
+              <p className="text-xs text-slate-200 leading-relaxed whitespace-pre-wrap">{draft || <span className="text-slate-500 animate-pulse">Thinking...</span>}</p>
+            </div>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+
+      <div className="p-6 border-t border-white/5 flex gap-3">
+        <textarea
+          value={input}
+          onChange={e => setInput(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send(input);
+            }
+          }}
+          rows={2}
+          placeholder="Ask the strategist... (Shift+Enter for a new line)"
+          className="flex-1 bg-slate-950/60 border border-white/5 rounded-2xl px-5 py-3 text-xs text-white outline-none resize-none focus:border-blue-500/40"
+        />
+        {sending ? (
+          <button onClick={onStop} className="px-6 rounded-2xl text-[11px] font-black uppercase bg-red-600/10 text-red-400 border border-red-500/20 hover:bg-red-600 hover:text-white">■ Stop</button>
+        ) : (
+          <button onClick={() => send(input)} disabled={!input.trim()} className="px-6 rounded-2xl text-[11px] font-black uppercase bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-30">Send</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StrategistChat;
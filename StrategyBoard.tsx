@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { StrategyPlan, StrategyProgress, StrategyRevision } from './types';
+import { focusKey, toggleFocus, setFocusNote, phaseCompletion, planCompletion, planChanges } from './strategy';
+
+interface StrategyBoardProps {
+  plan: StrategyPlan | null;
+  progress: StrategyProgress;
+  onProgressChange: (progress: StrategyProgress) => void;
+  history: StrategyRevision[];
+  onRestore: (revision: StrategyRevision) => void;
+  onRegeneratePhase: (index: number, instruction: string) => void;
+  onRegeneratePlan: () => void;
+  /** Phase index being regenerated, or 'plan' for the whole roadmap. */
+  busy: number | 'plan' | null;
+  onCancel: () => void;
+}
+
+const SOURCE_LABELS: Record<StrategyRevision['source'], string> = {
+  generated: 'Full plan',
+  phase: 'Phase',
+  restored: 'Restored',
+};
+
+const ProgressBar = ({ ratio }: { ratio: number }) => (
+  <div className="w-full bg-slate-950 h-2 rounded-full overflow-hidden border border-white/5">
+    <div className={`h-full bg-gradient-to-r transition-all duration-1000 ${ratio >= 1 ? 'from-emerald-600 to-green-600' : 'from-blue-600 to-cyan-600'}`} style={{ width: `${ratio * 100}%` }} />
+  </div>
+);
+
+const StrategyBoard: React.FC<StrategyBoardProps> = ({ plan, progress, onProgressChange, history, onRestore, onRegeneratePhase, onRegeneratePlan, busy, onCancel }) => {
+  const [instructions, setInstructions] = useState<Record<number, string>>({});
+  const [openNotes, setOpenNotes] = useState<Record<string, boolean>>({});
+  const [showHistory, setShowHistory] = useState(false);
+
+  if (!plan) {
+    return (
+      <div className="glass p-10 rounded-[3rem] border border-white/5 text-center space-y-4">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">No roadmap yet</p>
+        <button onClick={busy === 'plan' ? onCancel : onRegeneratePlan} disabled={busy !== null && busy !== 'plan'} className="px-6 py-3 bg-blue-600 hover:bg-blue-500 rounded-2xl text-[11px] font-black text-white uppercase disabled:opacity-50">
+          {busy === 'plan' ? 'Generating... ✕' : 'Generate Roadmap'}
+        </button>
+      </div>
+    );
+  }
+
+  const overall = planCompletion(plan, progress);
+
+  return (
+    <div className="space-y-8">
+      <div className="glass p-8 rounded-[3rem] border border-white/5 space-y-4">
+        <div className="flex flex-wrap gap-4 justify-between items-center">
+          <div>
+            <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Roadmap Progress</h3>
+            <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">{overall.done}/{overall.total} Focus items · {plan.weeks.length} Phases</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-2xl font-black text-white italic tracking-tighter">{Math.round(overall.ratio * 100)}%</span>
+            <button onClick={() => setShowHistory(!showHistory)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">
+              History ({history.length})
+            </button>
+            <button onClick={busy === 'plan' ? onCancel : onRegeneratePlan} disabled={busy !== null && busy !== 'plan'} title={busy === 'plan' ? "Cancel the regeneration" : "Replaces every phase; ticks on unchanged items are kept"} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40">
+              {busy === 'plan' ? 'Regenerating... ✕' : '↻ Regenerate All'}
+            </button>
+          </div>
+        </div>
+        <ProgressBar ratio={overall.ratio} />
+
+        {showHistory && (
+          <div className="pt-4 border-t border-white/5 space-y-3 max-h-96 overflow-y-auto custom-scrollbar pr-1">
+            {history.length === 0 && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">No versions recorded yet</p>}
+            {[...history].reverse().map((revision, i) => {
+              const index = history.length - 1 - i;
+              const changes = planChanges(index > 0 ? history[index - 1].plan : null, revision.plan);
+              return (
+                <div key={revision.id} className="p-4 glass-card rounded-2xl border border-white/5 space-y-2">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-[8px] font-black px-2 py-0.5 rounded-full uppercase bg-indigo-600/20 text-indigo-400">{SOURCE_LABELS[revision.source]}</span>
+                    <span className="text-[11px] font-bold text-white flex-1">{revision.label}</span>
+                    <span className="text-[10px] font-bold text-slate-500">{new Date(revision.createdAt).toLocaleString()}</span>
+                    <span className="text-[10px] font-black text-slate-500">{Math.round(revision.completion * 100)}% done</span>
+                    {i === 0 ? (
+                      <span className="text-[9px] font-black uppercase text-emerald-400">Current</span>
+                    ) : (
+                      <button onClick={() => onRestore(revision)} disabled={busy !== null} className="text-[9px] font-black uppercase text-blue-500 hover:text-blue-400 disabled:opacity-40">Restore</button>
+                    )}
+                  </div>
+                  {index > 0 && changes.length === 0 && <p className="text-[10px] font-bold text-slate-600">No changes from the previous version.</p>}
+                  {index > 0 && changes.map(change => (
+                    <div key={change.range} className="text-[10px] font-bold space-y-0.5">
+                      <p className="text-slate-400">{change.range}{change.phase ? ` · ${change.phase.from} → ${change.phase.to}` : ''}</p>
+                      {change.added.map(f => <p key={`+${f}`} className="text-emerald-400/80 pl-3">+ {f}</p>)}
+                      {change.removed.map(f => <p key={`-${f}`} className="text-red-400/70 pl-3 line-through">{f}</p>)}
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        {plan.weeks.map((s, i) => {
+          const phase = phaseCompletion(s, progress);
+          return (
+            <div key={`${i}-${s.range}`} className="glass p-10 rounded-[3rem] border border-white/5 space-y-6 flex flex-col relative overflow-hidden group">
+              <div className="absolute top-0 right-0 p-8 opacity-5 group-hover:opacity-10 transition-opacity">
+                <span className="text-8xl font-black italic">W{i+1}</span>
+              </div>
+              <div className="flex justify-between items-center relative z-10">
+                <span className="text-xs font-black text-slate-500 uppercase tracking-widest">{s.range}</span>
+                <span className="bg-blue-600/10 text-blue-400 px-4 py-1.5 rounded-full text-[10px] font-black uppercase border border-blue-500/20">{s.phase}</span>
+              </div>
+              <div className="space-y-2 relative z-10">
+                <div className="flex justify-between text-[10px] font-black uppercase tracking-widest">
+                  <span className="text-slate-500">{phase.done}/{phase.total} Done</span>
+                  <span className={phase.ratio >= 1 ? 'text-emerald-400' : 'text-blue-400'}>{Math.round(phase.ratio * 100)}%</span>
+                </div>
+                <ProgressBar ratio={phase.ratio} />
+              </div>
+              <div className="space-y-4 relative z-10 flex-1">
+                {s.focus.map((f, fi) => {
+                  const key = focusKey(s, f);
+                  const done = !!progress.done[key];
+                  const note = progress.notes[key] || '';
+                  return (
+                    <div key={fi} className={`p-5 glass-card rounded-2xl border space-y-3 ${done ? 'border-emerald-500/20 bg-emerald-500/5' : 'border-white/5 hover:bg-white/5'}`}>
+                      <div className="flex items-start space-x-4">
+                        <button
+                          onClick={() => onProgressChange(toggleFocus(progress, key))}
+                          title={done ? 'Mark as not done' : 'Mark as done'}
+                          className={`mt-0.5 w-5 h-5 shrink-0 rounded-md border flex items-center justify-center text-[10px] font-black transition-all ${done ? 'bg-emerald-600 border-emerald-500 text-white' : 'border-white/20 text-transparent hover:border-blue-500'}`}
+                        >
+                          ✓
+                        </button>
+                        <span className={`flex-1 text-sm font-bold leading-snug ${done ? 'text-slate-500 line-through' : 'text-slate-200'}`}>{f}</span>
+                        <button onClick={() => setOpenNotes(prev => ({ ...prev, [key]: !prev[key] }))} title="Notes" className={`text-xs ${note ? 'text-amber-400' : 'text-slate-600 hover:text-slate-300'}`}>✎</button>
+                      </div>
+                      {openNotes[key] ? (
+                        <textarea
+                          value={note}
+                          onChange={e => onProgressChange(setFocusNote(progress, key, e.target.value))}
+                          placeholder="What happened, blockers, links..."
+                          rows={2}
+                          className="w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-slate-300 outline-none focus:border-blue-500/40 resize-none"
+                        />
+                      ) : (
+                        note && <p className="text-[11px] font-bold text-amber-300/70 pl-9 whitespace-pre-wrap">{note}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <div className="flex gap-2 relative z-10">
+                <input
+                  value={instructions[i] || ''}
+                  onChange={e => setInstructions(prev => ({ ...prev, [i]: e.target.value }))}
+                  placeholder="Adjust (optional): e.g. more Shorts, fewer uploads"
+                  className="flex-1 min-w-0 bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+                />
+                <button
+                  onClick={busy === i ? onCancel : () => onRegeneratePhase(i, instructions[i] || '')}
+                  disabled={busy !== null && busy !== i}
+                  title={busy === i ? "Cancel the regeneration" : "Rewrites this phase from current stats and completion; other phases are untouched"}
+                  className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-40 shrink-0"
+                >
+                  {busy === i ? 'Working... ✕' : '↻ Regenerate'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default StrategyBoard;
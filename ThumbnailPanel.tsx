@@ -0,0 +1,363 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { VideoConcept, ProjectThumbnails, ThumbnailBackground, ThumbnailDesign, ThumbnailOverlay } from './types';
+import { generateThumbnailBackground } from './geminiService';
+import { saveMedia, useMediaUrl, downloadBlob, fileSlug } from './media';
+import { useOperations } from './operations';
+import {
+  THUMBNAIL_WIDTH,
+  THUMBNAIL_HEIGHT,
+  PREVIEW_SIZES,
+  ACCENTS,
+  BACKGROUND_ANGLES,
+  THUMBNAIL_TEMPLATES,
+  TEMPLATE_IDS,
+  thumbnailText,
+  createBackground,
+  createDesign,
+  createOverlay,
+  nextDesignName,
+  addDesign,
+  updateDesign,
+  removeDesign,
+  createTest,
+  testWinner,
+  drawThumbnail,
+  loadBackground,
+  encodeThumbnail,
+} from './thumbnails';
+
+interface ThumbnailPanelProps {
+  concept: VideoConcept;
+  /** Title the video is published under; seeds the overlay text. */
+  title: string;
+  thumbnails: ProjectThumbnails;
+  onThumbnailsChange: (thumbnails: ProjectThumbnails) => void;
+}
+
+const BATCH_SIZE = 3;
+
+const OVERLAY_ICONS: Record<ThumbnailOverlay['kind'], string> = { arrow: '➜', circle: '◯', box: '▢' };
+
+const BackgroundTile: React.FC<{ background: ThumbnailBackground; active: boolean; onClick: () => void }> = ({ background, active, onClick }) => {
+  const url = useMediaUrl(background.url);
+  return (
+    <button onClick={onClick} title={background.prompt} className={`shrink-0 w-32 aspect-video rounded-xl overflow-hidden border-2 transition-all ${active ? 'border-blue-500' : 'border-white/5 hover:border-white/20'}`}>
+      {url && <img src={url} alt={background.prompt} className="w-full h-full object-cover" />}
+    </button>
+  );
+};
+
+const ThumbnailPanel: React.FC<ThumbnailPanelProps> = ({ concept, title, thumbnails, onThumbnailsChange }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(thumbnails.activeId ?? thumbnails.designs[0]?.id ?? null);
+  const [overlayId, setOverlayId] = useState<string | null>(null);
+  const operations = useOperations();
+  const generating = operations.isRunning('backgrounds');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [exportedSize, setExportedSize] = useState<number | null>(null);
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [pair, setPair] = useState<{ a: string; b: string }>({ a: '', b: '' });
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRefs = useRef<(HTMLCanvasElement | null)[]>([]);
+
+  // Background generation resolves after the user may have kept editing, so patch against the latest board.
+  const latest = useRef(thumbnails);
+  latest.current = thumbnails;
+
+  const design = thumbnails.designs.find(d => d.id === selectedId) || null;
+  const background = design ? thumbnails.backgrounds.find(b => b.id === design.backgroundId) : undefined;
+  const overlay = design?.overlays.find(o => o.id === overlayId) || null;
+
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: ImageBitmap | null = null;
+    loadBackground(background).then(result => {
+      loaded = result;
+      if (cancelled) result?.close();
+      else setBitmap(result);
+    });
+    return () => {
+      cancelled = true;
+      loaded?.close();
+    };
+  }, [background?.url]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !design) return;
+    drawThumbnail(canvas.getContext('2d')!, design, bitmap);
+    previewRefs.current.forEach(preview => {
+      const ctx = preview?.getContext('2d');
+      if (!ctx) return;
+      ctx.imageSmoothingQuality = 'high';
+      ctx.drawImage(canvas, 0, 0, preview!.width, preview!.height);
+    });
+  }, [design, bitmap]);
+
+  const patchDesign = (patch: Partial<ThumbnailDesign>) => {
+    if (design) onThumbnailsChange(updateDesign(thumbnails, design.id, patch));
+  };
+  const patchOverlay = (patch: Partial<ThumbnailOverlay>) => {
+    if (design && overlay) patchDesign({ overlays: design.overlays.map(o => (o.id === overlay.id ? { ...o, ...patch } : o)) });
+  };
+
+  const handleGenerate = async () => {
+    setError(null);
+    const template = THUMBNAIL_TEMPLATES[design?.template || 'left-stack'];
+    try {
+      // Backgrounds already generated are kept when the batch is cancelled.
+      await operations.run('backgrounds', async signal => {
+        for (let i = 0; i < BATCH_SIZE; i++) {
+          const angle = BACKGROUND_ANGLES[(latest.current.backgrounds.length + i) % BACKGROUND_ANGLES.length];
+          const image = await generateThumbnailBackground(concept, angle, template.space, signal);
+          const url = await saveMedia(image);
+          const created = createBackground(angle, url);
+          let board: ProjectThumbnails = { ...latest.current, backgrounds: [...latest.current.backgrounds, created] };
+          if (!board.designs.length) {
+            const first = createDesign(nextDesignName(board), thumbnailText(title), created.id);
+            board = addDesign(board, first);
+            setSelectedId(first.id);
+          }
+          latest.current = board;
+          onThumbnailsChange(board);
+        }
+      });
+    } catch (e: any) {
+      setError(e.message || "Thumbnail generator offline.");
+    }
+  };
+
+  const handleNewDesign = (from?: ThumbnailDesign) => {
+    const name = nextDesignName(thumbnails);
+    const created = from
+      ? { ...createDesign(name, from.text, from.backgroundId, from.template), highlight: from.highlight, accent: from.accent, overlays: from.overlays }
+      : createDesign(name, thumbnailText(title), thumbnails.backgrounds[0]?.id ?? null);
+    onThumbnailsChange(addDesign(thumbnails, created));
+    setSelectedId(created.id);
+    setOverlayId(null);
+  };
+
+  const handleDelete = () => {
+    if (!design || !confirm(`Delete ${design.name}? A/B pairs using it are removed too.`)) return;
+    const next = removeDesign(thumbnails, design.id);
+    onThumbnailsChange(next);
+    setSelectedId(next.activeId ?? next.designs[0]?.id ?? null);
+  };
+
+  const handleAddOverlay = (kind: ThumbnailOverlay['kind']) => {
+    if (!design) return;
+    const created = createOverlay(kind);
+    patchDesign({ overlays: [...design.overlays, created] });
+    setOverlayId(created.id);
+  };
+
+  const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!overlay) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    patchOverlay({ x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height });
+  };
+
+  const handleExport = async () => {
+    if (!design || !canvasRef.current) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const blob = await encodeThumbnail(canvasRef.current);
+      downloadBlob(blob, `${fileSlug(title)}-${fileSlug(design.name)}.jpg`);
+      setExportedSize(blob.size);
+      const exportUrl = await saveMedia(blob);
+      onThumbnailsChange(updateDesign(latest.current, design.id, { exportUrl }));
+    } catch (e: any) {
+      setError(e.message || "Thumbnail export failed.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleStartTest = () => {
+    if (!pair.a || !pair.b || pair.a === pair.b) return;
+    onThumbnailsChange({ ...thumbnails, tests: [...thumbnails.tests, createTest(pair.a, pair.b)] });
+    setPair({ a: '', b: '' });
+  };
+
+  const patchTest = (id: string, patch: { shareA?: number; shareB?: number }) => {
+    onThumbnailsChange({ ...thumbnails, tests: thumbnails.tests.map(t => (t.id === id ? { ...t, ...patch } : t)) });
+  };
+
+  const designName = (id: string) => thumbnails.designs.find(d => d.id === id)?.name || 'Deleted';
+  const shareValue = (raw: string) => (raw === '' ? undefined : Math.max(0, Math.min(100, Number(raw) || 0)));
+  const words = design ? design.text.toUpperCase().split(/\s+/).filter(Boolean) : [];
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Thumbnail Designer</h3>
+          <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">{THUMBNAIL_WIDTH}×{THUMBNAIL_HEIGHT} JPEG · Under 2 MB</p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={generating ? () => operations.cancel('backgrounds') : handleGenerate} title={generating ? "Stop generating backgrounds" : undefined} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40">
+            {generating ? 'Generating... ✕' : `✦ ${BATCH_SIZE} Background Concepts`}
+          </button>
+          <button onClick={() => handleNewDesign()} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">+ Design</button>
+        </div>
+      </div>
+
+      {error && <p className="text-xs font-bold text-red-400">{error}</p>}
+
+      {thumbnails.backgrounds.length > 0 && (
+        <div className="flex gap-3 overflow-x-auto pb-2 custom-scrollbar">
+          {thumbnails.backgrounds.map(b => (
+            <BackgroundTile key={b.id} background={b} active={design?.backgroundId === b.id} onClick={() => patchDesign({ backgroundId: b.id })} />
+          ))}
+        </div>
+      )}
+
+      {thumbnails.designs.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {thumbnails.designs.map(d => (
+            <button key={d.id} onClick={() => { setSelectedId(d.id); setOverlayId(null); }} className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase border transition-all ${d.id === selectedId ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 text-slate-400 border-white/5 hover:text-white'}`}>
+              {d.name}{d.id === thumbnails.activeId ? ' ★' : ''}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!design ? (
+        <div className="py-12 text-center text-[10px] font-black uppercase tracking-[0.4em] text-slate-700">Generate background concepts to start a design</div>
+      ) : (
+        <div className="grid grid-cols-1 2xl:grid-cols-3 gap-6">
+          <div className="2xl:col-span-2 space-y-4">
+            <canvas
+              ref={canvasRef}
+              width={THUMBNAIL_WIDTH}
+              height={THUMBNAIL_HEIGHT}
+              onClick={handleCanvasClick}
+              className={`w-full rounded-2xl border border-white/5 ${overlay ? 'cursor-crosshair' : ''}`}
+            />
+            <div className="flex flex-wrap items-end gap-4">
+              {PREVIEW_SIZES.map((size, i) => (
+                <div key={size.label} className="space-y-1">
+                  <canvas ref={el => { previewRefs.current[i] = el; }} width={size.width} height={Math.round((size.width * 9) / 16)} style={{ width: size.width }} className="rounded-md" />
+                  <span className="block text-[8px] font-black text-slate-600 uppercase tracking-widest">{size.label} · {size.width}px</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2">
+              {TEMPLATE_IDS.map(id => (
+                <button key={id} onClick={() => patchDesign({ template: id })} className={`py-2 rounded-xl text-[10px] font-black uppercase border transition-all ${design.template === id ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 text-slate-400 border-white/5 hover:text-white'}`}>
+                  {THUMBNAIL_TEMPLATES[id].label}
+                </button>
+              ))}
+            </div>
+
+            <label className="block space-y-1">
+              <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">Text</span>
+              <input value={design.text} onChange={e => patchDesign({ text: e.target.value })} className="w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40" />
+            </label>
+
+            {words.length > 0 && !THUMBNAIL_TEMPLATES[design.template].banner && (
+              <div className="space-y-1">
+                <span className="block text-[9px] font-black text-slate-500 uppercase tracking-widest">Highlight</span>
+                <div className="flex flex-wrap gap-1">
+                  {words.map((word, i) => (
+                    <button key={`${word}-${i}`} onClick={() => patchDesign({ highlight: design.highlight.toUpperCase() === word ? '' : word })} className={`px-2 py-1 rounded-lg text-[9px] font-black border ${design.highlight.toUpperCase() === word ? 'border-blue-500 text-white' : 'border-white/5 text-slate-500'}`}>{word}</button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              {ACCENTS.map(color => (
+                <button key={color} onClick={() => patchDesign({ accent: color })} title={color} style={{ backgroundColor: color }} className={`w-7 h-7 rounded-full border-2 ${design.accent === color ? 'border-white' : 'border-transparent'}`} />
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Shapes</span>
+                <div className="flex gap-1">
+                  {(Object.keys(OVERLAY_ICONS) as ThumbnailOverlay['kind'][]).map(kind => (
+                    <button key={kind} onClick={() => handleAddOverlay(kind)} title={`Add ${kind}`} className="w-8 h-8 rounded-lg text-sm bg-white/5 text-slate-400 border border-white/5 hover:text-white">{OVERLAY_ICONS[kind]}</button>
+                  ))}
+                </div>
+              </div>
+              {design.overlays.map(o => (
+                <button key={o.id} onClick={() => setOverlayId(o.id === overlayId ? null : o.id)} className={`w-full text-left px-3 py-1.5 rounded-lg text-[10px] font-black uppercase border ${o.id === overlayId ? 'border-blue-500 text-white' : 'border-white/5 text-slate-500'}`}>
+                  {OVERLAY_ICONS[o.kind]} {o.kind}
+                </button>
+              ))}
+              {overlay && (
+                <div className="space-y-2 p-3 rounded-xl bg-slate-950/40 border border-white/5">
+                  <p className="text-[9px] font-bold text-slate-600">Click the canvas to move it.</p>
+                  <label className="flex items-center gap-2 text-[9px] font-black text-slate-500 uppercase">
+                    Size
+                    <input type="range" min={0.05} max={0.6} step={0.01} value={overlay.size} onChange={e => patchOverlay({ size: Number(e.target.value) })} className="flex-1" />
+                  </label>
+                  <label className="flex items-center gap-2 text-[9px] font-black text-slate-500 uppercase">
+                    Rotate
+                    <input type="range" min={0} max={359} value={overlay.rotation} onChange={e => patchOverlay({ rotation: Number(e.target.value) })} className="flex-1" />
+                  </label>
+                  <button onClick={() => { patchDesign({ overlays: design.overlays.filter(o => o.id !== overlay.id) }); setOverlayId(null); }} className="text-[9px] font-black uppercase text-red-400 hover:text-red-300">Remove shape</button>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button onClick={handleExport} disabled={exporting} className="flex-1 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600 text-white hover:bg-blue-500 transition-all disabled:opacity-40">{exporting ? 'Encoding...' : '⬇ Export JPEG'}</button>
+              <button onClick={() => onThumbnailsChange({ ...thumbnails, activeId: design.id })} disabled={thumbnails.activeId === design.id} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white disabled:opacity-30">★ Use</button>
+              <button onClick={() => handleNewDesign(design)} title="Copy this design as the B side of a test" className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white">Duplicate</button>
+              <button onClick={handleDelete} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-red-400 border border-white/5 hover:text-red-300">Delete</button>
+            </div>
+            {exportedSize !== null && <p className="text-[10px] font-bold text-slate-500">Exported {(exportedSize / 1024).toFixed(0)} KB</p>}
+          </div>
+        </div>
+      )}
+
+      {thumbnails.designs.length > 1 && (
+        <div className="space-y-3 pt-4 border-t border-white/5">
+          <div className="flex flex-wrap gap-2 items-center">
+            <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest mr-2">A/B Tests</span>
+            {(['a', 'b'] as const).map(side => (
+              <select key={side} value={pair[side]} onChange={e => setPair(prev => ({ ...prev, [side]: e.target.value }))} className="bg-slate-950/60 border border-white/5 rounded-lg px-2 py-1 text-[10px] font-bold text-white outline-none">
+                <option value="">{side.toUpperCase()} side…</option>
+                {thumbnails.designs.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+              </select>
+            ))}
+            <button onClick={handleStartTest} disabled={!pair.a || !pair.b || pair.a === pair.b} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white disabled:opacity-30">Start Pair</button>
+          </div>
+          {thumbnails.tests.map(test => {
+            const winner = testWinner(test);
+            return (
+              <div key={test.id} className="flex flex-wrap items-center gap-3 text-[10px] font-bold text-slate-400">
+                {(['a', 'b'] as const).map(side => {
+                  const key = side === 'a' ? 'shareA' : 'shareB';
+                  return (
+                    <label key={side} className={`flex items-center gap-2 ${winner === side ? 'text-emerald-400' : ''}`}>
+                      {designName(test[side])}
+                      <input type="number" min={0} max={100} step={0.1} value={test[key] ?? ''} onChange={e => patchTest(test.id, { [key]: shareValue(e.target.value) })} placeholder="—" className="w-16 bg-slate-950/60 border border-white/5 rounded-lg px-2 py-1 text-[10px] font-bold text-white outline-none" />
+                      %
+                    </label>
+                  );
+                })}
+                <span className="text-[9px] font-black uppercase text-slate-600">
+                  {winner === null ? 'Running' : winner === 'tie' ? 'Tie' : `${designName(test[winner])} wins`}
+                </span>
+                {winner && winner !== 'tie' && thumbnails.activeId !== test[winner] && (
+                  <button onClick={() => onThumbnailsChange({ ...thumbnails, activeId: test[winner] })} className="text-[9px] font-black uppercase text-blue-400 hover:text-blue-300">★ Use winner</button>
+                )}
+              </div>
+            );
+          })}
+          <p className="text-[9px] font-bold text-slate-600">Enter each side's watch-time share from YouTube Studio's Test & Compare.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThumbnailPanel;
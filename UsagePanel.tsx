@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from 'react';
+import { BudgetCaps, UsageEntry, UsageKind, Workspace } from './types';
+import { UsageTotal, dayKey, formatCost, spendOn, summarizeUsage } from './usage';
+
+interface UsagePanelProps {
+  entries: UsageEntry[];
+  caps: BudgetCaps;
+  workspaces: Workspace[];
+  onCapsChange: (caps: BudgetCaps) => void;
+  onClear: () => void;
+}
+
+const CAP_FIELDS: { key: keyof BudgetCaps; label: string }[] = [
+  { key: 'daily', label: 'All AI calls' },
+  { key: 'video', label: 'Video (Veo)' },
+  { key: 'image', label: 'Images' },
+  { key: 'speech', label: 'Voiceover' },
+];
+
+const KIND_LABELS: Record<UsageKind, string> = { text: 'Text', image: 'Images', speech: 'Voiceover', video: 'Video' };
+
+const RECENT_LIMIT = 25;
+
+function describeCounts(total: Pick<UsageEntry, 'inputTokens' | 'outputTokens' | 'images' | 'speechSeconds' | 'videoSeconds'>): string {
+  const parts: string[] = [];
+  if (total.inputTokens || total.outputTokens) parts.push(`${(total.inputTokens + total.outputTokens).toLocaleString()} tokens`);
+  if (total.images) parts.push(`${total.images} image${total.images === 1 ? '' : 's'}`);
+  if (total.speechSeconds) parts.push(`${Math.round(total.speechSeconds)}s audio`);
+  if (total.videoSeconds) parts.push(`${Math.round(total.videoSeconds)}s video`);
+  return parts.join(' · ') || '—';
+}
+
+const CapMeter: React.FC<{ label: string; spent: number; cap: number | null }> = ({ label, spent, cap }) => {
+  const ratio = cap ? Math.min(1, spent / cap) : 0;
+  return (
+    <div className="glass-card p-5 rounded-[2rem] border border-white/5 space-y-3">
+      <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{label}</span>
+      <div className="flex items-baseline gap-2">
+        <span className="text-2xl font-black text-white italic tracking-tighter">{formatCost(spent)}</span>
+        <span className="text-[10px] font-bold text-slate-600">{cap === null ? 'no cap' : `/ ${formatCost(cap)}`}</span>
+      </div>
+      {cap !== null && (
+        <div className="w-full bg-slate-950 h-2 rounded-full overflow-hidden border border-white/5">
+          <div className={`h-full transition-all duration-1000 ${ratio >= 1 ? 'bg-red-500' : ratio >= 0.8 ? 'bg-amber-500' : 'bg-blue-600'}`} style={{ width: `${ratio * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const TotalsTable: React.FC<{ title: string; totals: UsageTotal[]; labelOf: (key: string) => string }> = ({ title, totals, labelOf }) => (
+  <div className="space-y-3">
+    <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{title}</p>
+    {totals.length === 0 && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">No usage yet</p>}
+    {totals.map(total => (
+      <div key={total.key} className="flex justify-between items-center gap-4 bg-slate-950/40 border border-white/5 rounded-xl px-4 py-2">
+        <div className="min-w-0">
+          <p className="text-[11px] font-bold text-white truncate">{labelOf(total.key)}</p>
+          <p className="text-[9px] font-bold text-slate-600">{total.calls} call{total.calls === 1 ? '' : 's'} · {describeCounts(total)}</p>
+        </div>
+        <span className="text-xs font-black text-slate-300 shrink-0">{formatCost(total.cost)}</span>
+      </div>
+    ))}
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ entries, caps, workspaces, onCapsChange, onClear }) => {
+  const [draft, setDraft] = useState<Record<keyof BudgetCaps, string>>({ daily: '', video: '', image: '', speech: '' });
+  const [range, setRange] = useState<'today' | '30d' | 'all'>('30d');
+
+  useEffect(() => {
+    setDraft({
+      daily: caps.daily?.toString() ?? '',
+      video: caps.video?.toString() ?? '',
+      image: caps.image?.toString() ?? '',
+      speech: caps.speech?.toString() ?? '',
+    });
+  }, [caps]);
+
+  const today = spendOn(dayKey(new Date()), entries);
+  const since = range === 'today' ? dayKey(new Date()) : range === '30d' ? dayKey(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)) : '';
+  const inRange = entries.filter(entry => dayKey(entry.at) >= since);
+  const total = inRange.reduce((sum, entry) => sum + entry.cost, 0);
+
+  const channelName = (id: string) => workspaces.find(w => w.id === id)?.name || 'Deleted channel';
+  const projectName = (id: string) => {
+    for (const w of workspaces) {
+      const project = w.projects.find(p => p.id === id);
+      if (project) return `${project.concept.title} · ${w.name}`;
+    }
+    return 'Deleted project';
+  };
+
+  const saveCaps = () => {
+    const parse = (raw: string) => {
+      const value = Number(raw);
+      return raw.trim() && Number.isFinite(value) && value >= 0 ? value : null;
+    };
+    onCapsChange({ daily: parse(draft.daily), video: parse(draft.video), image: parse(draft.image), speech: parse(draft.speech) });
+  };
+
+  return (
+    <div className="glass p-10 rounded-[3rem] border border-white/5 space-y-10">
+      <div className="space-y-4">
+        <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Today</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-4 gap-4">
+          {CAP_FIELDS.map(field => (
+            <CapMeter key={field.key} label={field.label} spent={field.key === 'daily' ? today.total : today.byKind[field.key]} cap={caps[field.key]} />
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Daily Budget Caps (USD)</p>
+        <div className="grid grid-cols-2 xl:grid-cols-4 gap-3">
+          {CAP_FIELDS.map(field => (
+            <label key={field.key} className="block space-y-1">
+              <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{field.label}</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={draft[field.key]}
+                placeholder="No cap"
+                onChange={e => setDraft(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className="w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40"
+              />
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 items-center">
+          <button onClick={saveCaps} className="px-6 py-3 bg-blue-600 hover:bg-blue-500 rounded-2xl text-[11px] font-black text-white uppercase">Save Caps</button>
+          <p className="text-[10px] font-bold text-slate-600">Image, voiceover and video calls are refused once a cap is reached; text calls always run. Caps reset at local midnight.</p>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="flex flex-wrap gap-4 justify-between items-center">
+          <div className="flex items-baseline gap-3">
+            <span className="text-3xl font-black text-white italic tracking-tighter">{formatCost(total)}</span>
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">estimated · {inRange.length} calls</span>
+          </div>
+          <div className="flex gap-2">
+            {(['today', '30d', 'all'] as const).map(r => (
+              <button key={r} onClick={() => setRange(r)} className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase border transition-all ${range === r ? 'bg-blue-600 text-white border-blue-500' : 'bg-white/5 text-slate-400 border-white/5 hover:text-white'}`}>
+                {r === 'today' ? 'Today' : r === '30d' ? '30 days' : 'All'}
+              </button>
+            ))}
+            <button onClick={onClear} disabled={!entries.length} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase text-slate-500 hover:text-red-400 disabled:opacity-30">Clear Ledger</button>
+          </div>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <TotalsTable title="By Channel" totals={summarizeUsage(inRange, e => e.workspaceId)} labelOf={channelName} />
+          <TotalsTable title="By Project" totals={summarizeUsage(inRange, e => e.projectId)} labelOf={projectName} />
+          <TotalsTable title="By Model" totals={summarizeUsage(inRange, e => e.model)} labelOf={model => model} />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Recent Calls</p>
+        {inRange.length === 0 && <p className="text-[10px] font-bold text-slate-700 uppercase tracking-widest">No calls in this range</p>}
+        {[...inRange].reverse().slice(0, RECENT_LIMIT).map(entry => (
+          <div key={entry.id} className="grid grid-cols-[7rem_5rem_1fr_auto] gap-4 items-center text-[10px] font-bold border-b border-white/5 py-2">
+            <span className="text-slate-500">{new Date(entry.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+            <span className="text-slate-400 uppercase">{KIND_LABELS[entry.kind]}</span>
+            <span className="text-slate-300 truncate">{entry.task} · {entry.model} · {describeCounts(entry)}</span>
+            <span className="text-white">{formatCost(entry.cost)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
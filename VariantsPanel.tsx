@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Project, ProjectStatus, VariantKind, PlatformMetadata } from './types';
+import { VARIANT_SPECS, VARIANT_KINDS, findVariant, metadataIssues, formatMetadata, tagCharacters } from './variants';
+import { totalDuration, formatDuration } from './storyboard';
+
+interface VariantsPanelProps {
+  project: Project;
+  /** The project variants are derived from: `project` itself, or its parent when `project` is a variant. */
+  parent: Project | null;
+  projects: Project[];
+  onAdapt: (kind: VariantKind) => void;
+  adapting: VariantKind | null;
+  onCancel: (kind: VariantKind) => void;
+  onOpen: (project: Project) => void;
+  onMetadataChange: (metadata: PlatformMetadata) => void;
+}
+
+const STATUS_STYLES: Record<ProjectStatus, string> = {
+  idea: 'bg-slate-700/40 text-slate-300',
+  scripted: 'bg-blue-600/20 text-blue-400',
+  voiced: 'bg-cyan-600/20 text-cyan-400',
+  rendered: 'bg-indigo-600/20 text-indigo-400',
+  published: 'bg-emerald-600/20 text-emerald-400',
+};
+
+const field = "w-full bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:border-blue-500/40";
+
+const Counter = ({ value, limit }: { value: number; limit: number }) => (
+  <span className={value > limit ? 'text-red-400' : 'text-slate-600'}>{value}/{limit}</span>
+);
+
+const VariantsPanel: React.FC<VariantsPanelProps> = ({ project, parent, projects, onAdapt, adapting, onCancel, onOpen, onMetadataChange }) => {
+  const [copied, setCopied] = useState(false);
+  const variant = project.variant;
+
+  if (variant) {
+    const spec = VARIANT_SPECS[variant.kind];
+    const { metadata } = variant;
+    const runtime = totalDuration(project.storyboard);
+    const issues = metadataIssues(variant.kind, metadata);
+    if (spec.maxDuration && runtime > spec.maxDuration) issues.push(`Storyboard runs ${formatDuration(runtime)}; ${spec.label}s must stay under ${formatDuration(spec.maxDuration)}.`);
+    const set = (patch: Partial<PlatformMetadata>) => onMetadataChange({ ...metadata, ...patch });
+
+    const handleCopy = async () => {
+      await navigator.clipboard.writeText(formatMetadata(variant.kind, metadata));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    };
+
+    return (
+      <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+        <div className="flex flex-wrap gap-4 justify-between items-center">
+          <div>
+            <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">{spec.label} Metadata</h3>
+            <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">
+              {spec.platform} · {variant.aspectRatio} · Target {formatDuration(spec.targetDuration)}
+              {parent && <> · Variant of <button onClick={() => onOpen(parent)} className="text-blue-500 hover:text-blue-400 uppercase">{parent.concept.title}</button></>}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleCopy} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">{copied ? '✓ Copied' : '⧉ Copy'}</button>
+            {parent && (
+              <button onClick={() => (adapting === variant.kind ? onCancel : onAdapt)(variant.kind)} disabled={adapting !== null && adapting !== variant.kind} title={adapting === variant.kind ? "Cancel the adaptation" : "Rewrites this cut from the parent's current script"} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40">
+                {adapting === variant.kind ? 'Adapting... ✕' : '↻ Re-adapt'}
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <label className="block space-y-1 lg:col-span-2">
+            <span className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">Title <Counter value={metadata.title.length} limit={spec.titleLimit} /></span>
+            <input value={metadata.title} onChange={e => set({ title: e.target.value })} className={field} />
+          </label>
+          <label className="block space-y-1 lg:col-span-2">
+            <span className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">{spec.platform === 'Facebook' ? 'Caption' : 'Description'} <Counter value={metadata.description.length} limit={spec.descriptionLimit} /></span>
+            <textarea value={metadata.description} onChange={e => set({ description: e.target.value })} rows={5} className={`${field} resize-y custom-scrollbar`} />
+          </label>
+          <label className="block space-y-1">
+            <span className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">Hashtags <Counter value={metadata.hashtags.length} limit={spec.maxHashtags} /></span>
+            <input value={metadata.hashtags.join(' ')} onChange={e => set({ hashtags: e.target.value.split(/\s+/).filter(Boolean) })} placeholder="#Topic #Series" className={field} />
+          </label>
+          {spec.tagBudget > 0 && (
+            <label className="block space-y-1">
+              <span className="flex justify-between text-[9px] font-black text-slate-500 uppercase tracking-widest">Tags <Counter value={tagCharacters(metadata.tags)} limit={spec.tagBudget} /></span>
+              <input value={metadata.tags.join(', ')} onChange={e => set({ tags: e.target.value.split(',').map(t => t.trim()).filter(Boolean) })} placeholder="comma, separated" className={field} />
+            </label>
+          )}
+        </div>
+
+        {issues.length > 0 && (
+          <ul className="space-y-1">
+            {issues.map(issue => <li key={issue} className="text-[10px] font-bold text-amber-400">⚠ {issue}</li>)}
+          </ul>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+      <div>
+        <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Platform Variants</h3>
+        <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">Each cut becomes its own linked project with its own hook, script and metadata</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {VARIANT_KINDS.map(kind => {
+          const spec = VARIANT_SPECS[kind];
+          const existing = findVariant(projects, project.id, kind);
+          return (
+            <div key={kind} className="glass-card p-5 rounded-[2rem] border border-white/5 space-y-3 flex flex-col">
+              <div className="flex justify-between items-center">
+                <span className="text-[11px] font-black text-white uppercase tracking-tight">{spec.label}</span>
+                <span className="text-[9px] font-black text-slate-500 uppercase">{spec.aspectRatio} · {formatDuration(spec.targetDuration)}</span>
+              </div>
+              {existing ? (
+                <div className="flex-1 space-y-2">
+                  <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded-full ${STATUS_STYLES[existing.status]}`}>{existing.status}</span>
+                  <p className="text-[11px] font-bold text-slate-300 leading-snug">{existing.variant!.metadata.title}</p>
+                  <p className="text-[10px] font-bold text-slate-600">{existing.variant!.metadata.hashtags.join(' ')}</p>
+                </div>
+              ) : (
+                <p className="flex-1 text-[10px] font-bold text-slate-600 leading-relaxed">{spec.brief}</p>
+              )}
+              <div className="flex gap-2">
+                {existing && <button onClick={() => onOpen(existing)} className="flex-1 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-300 border border-white/5 hover:text-white">Open</button>}
+                <button onClick={() => (adapting === kind ? onCancel : onAdapt)(kind)} disabled={(adapting !== null && adapting !== kind) || !project.script} className="flex-1 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-40">
+                  {adapting === kind ? 'Adapting... ✕' : existing ? '↻ Re-adapt' : '✦ Adapt'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantsPanel;
@@ -0,0 +1,157 @@
+import React, { useRef, useState } from 'react';
+import { StoryboardScene, VoiceSettings, VoicePacing } from './types';
+import { generateVoiceover } from './geminiService';
+import { VOICES, TONES, PACINGS, base64PcmToWav, decodePcm, concatPcm, pcmToWav, toPlayableAudio } from './audio';
+import { saveMedia, loadMedia, downloadBlob, fileSlug } from './media';
+import AudioPlayer from './AudioPlayer';
+import { useOperations } from './operations';
+
+interface VoicePanelProps {
+  title: string;
+  voice: VoiceSettings;
+  onVoiceChange: (voice: VoiceSettings) => void;
+  /** Latest full-script narration, if one has been rendered. */
+  narration?: string;
+  onRenderNarration: () => void;
+  onCancelNarration: () => void;
+  narrating: boolean;
+  scenes: StoryboardScene[];
+  onScenesChange: (scenes: StoryboardScene[]) => void;
+}
+
+const VoicePanel: React.FC<VoicePanelProps> = ({ title, voice, onVoiceChange, narration, onRenderNarration, onCancelNarration, narrating, scenes, onScenesChange }) => {
+  const operations = useOperations();
+  const [voiceErrors, setVoiceErrors] = useState<Record<string, string>>({});
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Renders resolve after the user may have edited the storyboard, so patch against the latest list.
+  const latestScenes = useRef(scenes);
+  latestScenes.current = scenes;
+
+  const voiced = scenes.filter(s => s.audioUrl);
+  const stem = fileSlug(title);
+  const renderingAll = operations.isRunning('all');
+
+  const renderScene = async (scene: StoryboardScene) => {
+    setVoiceErrors(prev => ({ ...prev, [scene.id]: '' }));
+    try {
+      const pcm = await operations.run(`scene:${scene.id}`, signal => generateVoiceover(scene.text, voice, signal));
+      if (!pcm) return;
+      const audioUrl = await saveMedia(base64PcmToWav(pcm));
+      onScenesChange(latestScenes.current.map(s => (s.id === scene.id ? { ...s, audioUrl } : s)));
+    } catch (e: any) {
+      setVoiceErrors(prev => ({ ...prev, [scene.id]: e.message || "Voice synthesizer offline." }));
+    }
+  };
+
+  // Cancelling the batch also cancels the scene it is on.
+  const renderAllScenes = () => operations.run('all', async signal => {
+    for (const scene of scenes) {
+      if (signal.aborted) return;
+      const stop = () => operations.cancel(`scene:${scene.id}`);
+      signal.addEventListener('abort', stop);
+      await renderScene(scene);
+      signal.removeEventListener('abort', stop);
+    }
+  });
+
+  const download = async (ref: string, filename: string) => {
+    setExportError(null);
+    const blob = await loadMedia(ref);
+    if (!blob) return setExportError("Audio file is missing from storage.");
+    downloadBlob(await toPlayableAudio(blob), filename);
+  };
+
+  const downloadConcatenated = async () => {
+    setExportError(null);
+    try {
+      const clips = [];
+      for (const scene of voiced) {
+        const blob = await loadMedia(scene.audioUrl!);
+        if (blob) clips.push(await decodePcm(blob));
+      }
+      downloadBlob(pcmToWav(concatPcm(clips)), `${stem}-voiceover.wav`);
+    } catch (e: any) {
+      setExportError(e.message || "Could not assemble voiceover.");
+    }
+  };
+
+  const select = "bg-slate-950/60 border border-white/5 rounded-xl px-3 py-2 text-[11px] font-bold text-white outline-none focus:border-blue-500/40";
+
+  return (
+    <div className="glass rounded-[3rem] border border-white/5 shadow-2xl p-8 space-y-6 animate-fade">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
+        <div>
+          <h3 className="text-sm font-black text-slate-500 uppercase tracking-widest">Voice Studio</h3>
+          <p className="text-[10px] text-slate-600 font-bold uppercase tracking-widest mt-1">{voiced.length}/{scenes.length} Scenes voiced · Stage directions are not read</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={voice.voiceName} onChange={e => onVoiceChange({ ...voice, voiceName: e.target.value })} className={select}>
+            {VOICES.map(v => <option key={v.name} value={v.name}>{v.name} · {v.style}</option>)}
+          </select>
+          <select value={voice.tone} onChange={e => onVoiceChange({ ...voice, tone: e.target.value })} className={select}>
+            {(TONES.includes(voice.tone) ? TONES : [voice.tone, ...TONES]).map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select value={voice.pacing} onChange={e => onVoiceChange({ ...voice, pacing: e.target.value as VoicePacing })} className={select}>
+            {(Object.keys(PACINGS) as VoicePacing[]).map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Full Script</span>
+          <div className="flex gap-2">
+            {narration && (
+              <button onClick={() => download(narration, `${stem}-narration.wav`)} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">⇩ WAV</button>
+            )}
+            <button onClick={narrating ? onCancelNarration : onRenderNarration} title={narrating ? "Cancel the voiceover" : undefined} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30">
+              {narrating ? "RENDERING... ✕" : narration ? "↻ Render" : "🎙️ Render"}
+            </button>
+          </div>
+        </div>
+        {narration && <AudioPlayer key={narration} src={narration} />}
+      </div>
+
+      {scenes.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Per Scene</span>
+            <div className="flex gap-2">
+              <button onClick={downloadConcatenated} disabled={!voiced.length} title="Voiced scenes joined in storyboard order" className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all disabled:opacity-30">⇩ Joined WAV</button>
+              <button onClick={renderingAll ? () => operations.cancel('all') : renderAllScenes} title={renderingAll ? "Cancel the remaining scenes" : undefined} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30">
+                {renderingAll ? "RENDERING... ✕" : "Render All"}
+              </button>
+            </div>
+          </div>
+          {scenes.map((scene, i) => {
+            const loading = operations.isRunning(`scene:${scene.id}`);
+            const error = voiceErrors[scene.id];
+            return (
+              <div key={scene.id} className="glass-card rounded-2xl border border-white/5 p-4 space-y-3">
+                <div className="flex gap-3 items-start">
+                  <span className="text-[9px] font-black px-2 py-1 bg-slate-950/80 text-blue-400 rounded-lg uppercase tracking-widest shrink-0">S{i + 1}</span>
+                  <p className="flex-1 text-xs text-slate-300 leading-relaxed">{scene.text}</p>
+                  <div className="flex gap-1 shrink-0">
+                    {scene.audioUrl && (
+                      <button onClick={() => download(scene.audioUrl!, `${stem}-scene-${String(i + 1).padStart(2, '0')}.wav`)} title="Download WAV" className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-white/5 text-slate-400 border border-white/5 hover:text-white transition-all">⇩</button>
+                    )}
+                    <button onClick={() => (loading ? operations.cancel(`scene:${scene.id}`) : renderScene(scene))} disabled={!loading && !scene.text.trim()} title={loading ? "Cancel the narration" : "Render narration"} className="px-3 py-2 rounded-xl text-[10px] font-black uppercase bg-blue-600/10 text-blue-400 border border-blue-500/20 hover:bg-blue-600 hover:text-white transition-all disabled:opacity-30">
+                      {loading ? "... ✕" : scene.audioUrl ? "↻ VO" : "🎙️ VO"}
+                    </button>
+                  </div>
+                </div>
+                {scene.audioUrl && <AudioPlayer key={scene.audioUrl} src={scene.audioUrl} compact />}
+                {error && <p className="text-[10px] font-bold text-red-400">{error}</p>}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {exportError && <p className="text-xs font-bold text-red-400">{exportError}</p>}
+    </div>
+  );
+};
+
+export default VoicePanel;
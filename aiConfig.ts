@@ -0,0 +1,88 @@
+/**
+ * Provider and model selection for every AI capability the studio uses.
+ *
+ * Values come from the build environment (see vite.config.ts):
+ *   AI_PROVIDER=gemini|mock
+ *   AI_MODELS={"script":"gemini-2.5-pro","image":"..."}   (partial overrides)
+ */
+
+export type ProviderName = 'gemini' | 'mock';
+
+export type AITask =
+  | 'nicheAnalysis'
+  | 'strategy'
+  | 'strategyPhase'
+  | 'concepts'
+  | 'script'
+  | 'variant'
+  | 'seo'
+  | 'storyboard'
+  | 'hooks'
+  | 'trendingNiches'
+  | 'chat'
+  | 'image'
+  | 'thumbnail'
+  | 'voiceover'
+  | 'video';
+
+export const DEFAULT_MODELS: Record<AITask, string> = {
+  nicheAnalysis: 'gemini-3-flash-preview',
+  strategy: 'gemini-3-flash-preview',
+  strategyPhase: 'gemini-3-flash-preview',
+  concepts: 'gemini-3-pro-preview',
+  script: 'gemini-3-pro-preview',
+  variant: 'gemini-3-flash-preview',
+  seo: 'gemini-3-pro-preview',
+  storyboard: 'gemini-3-flash-preview',
+  hooks: 'gemini-3-pro-preview',
+  trendingNiches: 'gemini-3-pro-preview',
+  chat: 'gemini-3-pro-preview',
+  image: 'gemini-2.5-flash-image',
+  thumbnail: 'gemini-2.5-flash-image',
+  voiceover: 'gemini-2.5-flash-preview-tts',
+  video: 'veo-3.1-fast-generate-preview',
+};
+
+export interface AIConfig {
+  provider: ProviderName;
+  models: Record<AITask, string>;
+}
+
+function parseModelOverrides(raw: string | undefined): Partial<Record<AITask, string>> {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    const overrides: Partial<Record<AITask, string>> = {};
+    for (const task of Object.keys(DEFAULT_MODELS) as AITask[]) {
+      if (typeof parsed?.[task] === 'string' && parsed[task].trim()) overrides[task] = parsed[task].trim();
+    }
+    return overrides;
+  } catch {
+    console.warn("AI_MODELS is not valid JSON; using default models.");
+    return {};
+  }
+}
+
+let config: AIConfig = {
+  provider: process.env.AI_PROVIDER === 'mock' ? 'mock' : 'gemini',
+  models: { ...DEFAULT_MODELS, ...parseModelOverrides(process.env.AI_MODELS) },
+};
+
+export function getAIConfig(): AIConfig {
+  return config;
+}
+
+/**
+ * Replaces parts of the active configuration at runtime (e.g. switching to the mock backend in a test harness).
+ */
+export function configureAI(patch: { provider?: ProviderName; models?: Partial<Record<AITask, string>> }): AIConfig {
+  config = {
+    provider: patch.provider ?? config.provider,
+    models: { ...config.models, ...patch.models },
+  };
+  return config;
+}
+
+export function modelFor(task: AITask): string {
+  return config.models[task];
+}
@@ -0,0 +1,166 @@
+import { Schema } from "@google/genai";
+import { GroundingSource, ChatMessage } from "./types";
+import { AITask, ProviderName, getAIConfig } from "./aiConfig";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createScheduledProvider } from "./scheduler";
+import { UsageScope } from "./usage";
+
+export type AspectRatio = '16:9' | '9:16' | '1:1';
+
+export interface TextRequest {
+  task: AITask;
+  prompt: string;
+  /**
+   * Structured values the prompt was built from, so offline providers can answer without parsing prose.
+   */
+  input?: Record<string, string>;
+  systemInstruction?: string;
+  responseSchema?: Schema;
+  /** Ask for a JSON body even when no schema is supplied. */
+  json?: boolean;
+  grounding?: boolean;
+  thinkingBudget?: number;
+  signal?: AbortSignal;
+}
+
+/** Token counts reported by the backend (or estimated offline), for the usage ledger. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface TextResponse {
+  text: string;
+  sources: GroundingSource[];
+  usage?: TokenUsage;
+}
+
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Schema;
+}
+
+export interface ChatRequest {
+  task: AITask;
+  systemInstruction: string;
+  /** Conversation so far, ending with the creator's latest message. */
+  history: ChatMessage[];
+  tools: ChatTool[];
+  /** Structured values the latest message was sent with, for offline providers. */
+  input?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface ChatToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ChatResponse {
+  text: string;
+  toolCalls: ChatToolCall[];
+  usage?: TokenUsage;
+}
+
+export interface ImageRequest {
+  task: AITask;
+  prompt: string;
+  aspectRatio: AspectRatio;
+  signal?: AbortSignal;
+}
+
+export interface ImageResponse {
+  /** Base64 payload without a data: prefix. */
+  data: string;
+  mimeType: string;
+}
+
+export interface SpeechRequest {
+  task: AITask;
+  text: string;
+  voiceName: string;
+  signal?: AbortSignal;
+}
+
+export interface VideoRequest {
+  task: AITask;
+  prompt: string;
+  /** Still frame the clip is conditioned on. */
+  image?: ImageResponse;
+  aspectRatio: AspectRatio;
+  resolution: '720p' | '1080p';
+  /** Channel and project the render is billed to; defaults to the open project. */
+  scope?: UsageScope;
+  signal?: AbortSignal;
+}
+
+export interface VideoStatus {
+  done: boolean;
+  /** 0–1 when the backend reports it. */
+  progress?: number;
+  error?: string;
+}
+
+/**
+ * The capabilities ContentForge needs from a model backend.
+ * Speech is returned as base64 16-bit mono PCM at 24 kHz. Video is a long-running operation:
+ * `startVideo` returns an operation id that can be polled (even after a reload) and then fetched.
+ * Every call takes an optional AbortSignal and rejects with an AbortError once it fires.
+ */
+export interface AIProvider {
+  readonly name: ProviderName;
+  generateText(request: TextRequest): Promise<TextResponse>;
+  /** Like generateText, but `onText` receives the text so far each time it grows. */
+  streamText(request: TextRequest, onText: (text: string) => void): Promise<TextResponse>;
+  /** Streams a chat reply; `onText` receives the reply so far each time it grows. */
+  streamChat(request: ChatRequest, onText: (text: string) => void): Promise<ChatResponse>;
+  generateImage(request: ImageRequest): Promise<ImageResponse>;
+  generateSpeech(request: SpeechRequest): Promise<string>;
+  startVideo(request: VideoRequest): Promise<string>;
+  pollVideo(operationId: string, signal?: AbortSignal): Promise<VideoStatus>;
+  fetchVideo(operationId: string, signal?: AbortSignal): Promise<Blob>;
+}
+
+export function abortError(): DOMException {
+  return new DOMException("The operation was cancelled.", "AbortError");
+}
+
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string })?.name === 'AbortError';
+}
+
+/**
+ * Waits `ms`, rejecting early with an AbortError if `signal` fires.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+const providers: Record<ProviderName, () => AIProvider> = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+const instances: Partial<Record<ProviderName, AIProvider>> = {};
+
+/**
+ * Returns the provider selected in the AI config, behind the request scheduler (rate limits,
+ * retries, usage ledger and budget caps).
+ */
+export function getProvider(): AIProvider {
+  const name = getAIConfig().provider;
+  return (instances[name] ??= createScheduledProvider(providers[name]()));
+}
@@ -0,0 +1,332 @@
+import { StoryboardScene } from "./types";
+import { loadMedia } from "./media";
+import { toPlayableAudio } from "./audio";
+
+/**
+ * In-browser timeline assembly: scenes are drawn onto a canvas in order (clips where rendered,
+ * stills with Ken Burns motion otherwise), narration is scheduled on a Web Audio graph and
+ * captions are burned in. Canvas and audio streams are recorded with MediaRecorder, so assembly
+ * runs in real time and needs no network once the assets are in the media store.
+ */
+
+export type AssemblyAspect = '16:9' | '9:16';
+
+export interface AssemblyOptions {
+  aspect: AssemblyAspect;
+  captions: boolean;
+  fps?: number;
+  /** Full-script voiceover, laid across the timeline when no scene has its own narration. */
+  voiceover?: string;
+}
+
+export interface TimelineSegment {
+  scene: StoryboardScene;
+  start: number;
+  duration: number;
+}
+
+export interface CaptionCue {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const FRAME_SIZES: Record<AssemblyAspect, [number, number]> = {
+  '16:9': [1280, 720],
+  '9:16': [720, 1280],
+};
+
+/** Breathing room after narration before the next scene cuts in. */
+const NARRATION_TAIL = 0.4;
+const WORDS_PER_CAPTION = 7;
+
+const RECORDER_TYPES = ['video/mp4;codecs=avc1,mp4a.40.2', 'video/mp4', 'video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+/**
+ * Lays scenes end to end. A scene runs for its storyboard duration, stretched when its
+ * narration is longer so the voiceover is never cut off.
+ */
+export function planTimeline(scenes: StoryboardScene[], narrationSeconds: Record<string, number> = {}): TimelineSegment[] {
+  let start = 0;
+  return scenes.map(scene => {
+    const narration = narrationSeconds[scene.id];
+    const duration = Math.max(scene.duration, narration ? narration + NARRATION_TAIL : 0, 1);
+    const segment = { scene, start, duration };
+    start += duration;
+    return segment;
+  });
+}
+
+/**
+ * Lays scenes end to end under one continuous voiceover, each lasting its share of the narration
+ * by spoken word count, so the picture follows the voice.
+ */
+export function planVoiceoverTimeline(scenes: StoryboardScene[], voiceoverSeconds: number): TimelineSegment[] {
+  const weights = scenes.map(scene => Math.max(1, spokenWords(scene.text).length));
+  const perWeight = voiceoverSeconds / weights.reduce((sum, w) => sum + w, 0);
+  let start = 0;
+  return scenes.map((scene, i) => {
+    const duration = weights[i] * perWeight + (i === scenes.length - 1 ? NARRATION_TAIL : 0);
+    const segment = { scene, start, duration };
+    start += duration;
+    return segment;
+  });
+}
+
+export function timelineDuration(segments: TimelineSegment[]): number {
+  const last = segments[segments.length - 1];
+  return last ? last.start + last.duration : 0;
+}
+
+/** Words read aloud; stage directions in [brackets] are not. */
+function spokenWords(text: string): string[] {
+  return text.replace(/\[[^\]]*\]/g, ' ').split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Splits each scene's text into short caption cues, timed across the scene by word count.
+ */
+export function captionCues(segments: TimelineSegment[]): CaptionCue[] {
+  return segments.flatMap(({ scene, start, duration }) => {
+    const words = spokenWords(scene.text);
+    if (!words.length) return [];
+    const perWord = duration / words.length;
+    const cues: CaptionCue[] = [];
+    for (let i = 0; i < words.length; i += WORDS_PER_CAPTION) {
+      const chunk = words.slice(i, i + WORDS_PER_CAPTION);
+      cues.push({ text: chunk.join(' '), start: start + i * perWord, end: start + (i + chunk.length) * perWord });
+    }
+    return cues;
+  });
+}
+
+export function supportedRecorderType(): string | undefined {
+  if (typeof MediaRecorder === 'undefined') return undefined;
+  return RECORDER_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+}
+
+// --- Asset loading ---
+
+interface SceneAssets {
+  still?: ImageBitmap;
+  clip?: HTMLVideoElement;
+  narration?: AudioBuffer;
+}
+
+async function loadClip(ref: string): Promise<HTMLVideoElement | undefined> {
+  const blob = await loadMedia(ref);
+  if (!blob) return undefined;
+  const video = document.createElement('video');
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  video.src = URL.createObjectURL(blob);
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error("A scene clip could not be decoded."));
+  });
+  return video;
+}
+
+async function loadSceneAssets(scene: StoryboardScene, audio: AudioContext): Promise<SceneAssets> {
+  const assets: SceneAssets = {};
+  if (scene.clipUrl) assets.clip = await loadClip(scene.clipUrl);
+  if (!assets.clip && scene.imageUrl) {
+    const blob = await loadMedia(scene.imageUrl);
+    if (blob) assets.still = await createImageBitmap(blob);
+  }
+  if (scene.audioUrl) assets.narration = await loadNarration(scene.audioUrl, audio);
+  return assets;
+}
+
+async function loadNarration(ref: string, audio: AudioContext): Promise<AudioBuffer | undefined> {
+  const blob = await loadMedia(ref);
+  return blob ? audio.decodeAudioData(await (await toPlayableAudio(blob)).arrayBuffer()) : undefined;
+}
+
+function releaseAssets(assets: SceneAssets[]): void {
+  for (const { still, clip } of assets) {
+    still?.close();
+    if (clip) {
+      clip.pause();
+      URL.revokeObjectURL(clip.src);
+    }
+  }
+}
+
+// --- Drawing ---
+
+/**
+ * Draws a source scaled to cover the frame, zoomed by `zoom` and offset by a (-1..1) pan.
+ */
+export function drawCover(ctx: CanvasRenderingContext2D, source: CanvasImageSource, sw: number, sh: number, zoom = 1, panX = 0, panY = 0): void {
+  const { width, height } = ctx.canvas;
+  const scale = Math.max(width / sw, height / sh) * zoom;
+  const dw = sw * scale;
+  const dh = sh * scale;
+  const x = (width - dw) / 2 + panX * (dw - width) / 2;
+  const y = (height - dh) / 2 + panY * (dh - height) / 2;
+  ctx.drawImage(source, x, y, dw, dh);
+}
+
+/**
+ * Slow zoom with a pan direction that alternates per scene so consecutive stills don't feel identical.
+ */
+function drawKenBurns(ctx: CanvasRenderingContext2D, still: ImageBitmap, progress: number, index: number): void {
+  const zoomIn = index % 2 === 0;
+  const zoom = zoomIn ? 1 + 0.12 * progress : 1.12 - 0.12 * progress;
+  const direction = [[-1, 0], [1, 0], [0, -1], [0, 1]][index % 4];
+  const pan = progress * 2 - 1;
+  drawCover(ctx, still, still.width, still.height, zoom, direction[0] * pan * 0.8, direction[1] * pan * 0.8);
+}
+
+function drawPlaceholder(ctx: CanvasRenderingContext2D, scene: StoryboardScene): void {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#020617';
+  ctx.fillRect(0, 0, width, height);
+  ctx.fillStyle = '#334155';
+  ctx.font = `600 ${Math.round(width / 40)}px Inter, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.fillText(scene.visualPrompt.slice(0, 80), width / 2, height / 2);
+}
+
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(' ')) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, text: string): void {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(Math.min(width, height) / 18);
+  ctx.font = `800 ${fontSize}px Inter, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const lines = wrapText(ctx, text, width * 0.84);
+  const lineHeight = fontSize * 1.25;
+  const boxHeight = lines.length * lineHeight + fontSize * 0.6;
+  const boxWidth = Math.max(...lines.map(l => ctx.measureText(l).width)) + fontSize * 1.2;
+  const top = height * (width > height ? 0.82 : 0.72) - boxHeight / 2;
+
+  ctx.fillStyle = 'rgba(2, 6, 23, 0.72)';
+  ctx.beginPath();
+  ctx.roundRect((width - boxWidth) / 2, top, boxWidth, boxHeight, fontSize * 0.4);
+  ctx.fill();
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((l, i) => ctx.fillText(l, width / 2, top + fontSize * 0.3 + lineHeight * (i + 0.5)));
+}
+
+// --- Assembly ---
+
+/**
+ * Renders the storyboard to a single video. Resolves with the recording; rejects with an
+ * AbortError when `signal` fires.
+ */
+export async function assembleVideo(
+  scenes: StoryboardScene[],
+  options: AssemblyOptions,
+  onProgress: (progress: number) => void = () => {},
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const mimeType = supportedRecorderType();
+  if (!mimeType || typeof document === 'undefined') throw new Error("This browser cannot record video (MediaRecorder unavailable).");
+  if (!scenes.length) throw new Error("The storyboard has no scenes to assemble.");
+
+  const audio = new AudioContext();
+  const assets: SceneAssets[] = [];
+  try {
+    for (const scene of scenes) assets.push(await loadSceneAssets(scene, audio));
+    const narration: Record<string, number> = {};
+    scenes.forEach((scene, i) => { if (assets[i].narration) narration[scene.id] = assets[i].narration!.duration; });
+    const voiceover = !Object.keys(narration).length && options.voiceover ? await loadNarration(options.voiceover, audio) : undefined;
+    const segments = voiceover ? planVoiceoverTimeline(scenes, voiceover.duration) : planTimeline(scenes, narration);
+    const cues = options.captions ? captionCues(segments) : [];
+    const total = timelineDuration(segments);
+
+    const [width, height] = FRAME_SIZES[options.aspect];
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+
+    const destination = audio.createMediaStreamDestination();
+    const stream = new MediaStream([...canvas.captureStream(options.fps || 30).getVideoTracks(), ...destination.stream.getAudioTracks()]);
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 6_000_000 });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => (recorder.onstop = () => resolve()));
+
+    await audio.resume();
+    const audioStart = audio.currentTime + 0.1;
+    const schedule = (buffer: AudioBuffer, at: number) => {
+      const source = audio.createBufferSource();
+      source.buffer = buffer;
+      source.connect(destination);
+      source.start(audioStart + at);
+    };
+    if (voiceover) schedule(voiceover, 0);
+    segments.forEach((segment, i) => {
+      if (assets[i].narration) schedule(assets[i].narration!, segment.start);
+    });
+
+    recorder.start(1000);
+    let current = -1;
+    await new Promise<void>((resolve, reject) => {
+      const abort = () => reject(new DOMException("Assembly cancelled.", 'AbortError'));
+      if (signal?.aborted) return abort();
+      signal?.addEventListener('abort', abort, { once: true });
+
+      const frame = () => {
+        if (signal?.aborted) return;
+        const t = audio.currentTime - audioStart;
+        if (t >= total) {
+          signal?.removeEventListener('abort', abort);
+          resolve();
+          return;
+        }
+        const index = Math.max(0, segments.findIndex(s => t < s.start + s.duration));
+        const segment = segments[index];
+        const sceneAssets = assets[index];
+        if (index !== current) {
+          assets[current]?.clip?.pause();
+          if (sceneAssets.clip) {
+            sceneAssets.clip.currentTime = 0;
+            sceneAssets.clip.play().catch(() => {});
+          }
+          current = index;
+        }
+
+        const progress = Math.min(1, Math.max(0, (t - segment.start) / segment.duration));
+        if (sceneAssets.clip) drawCover(ctx, sceneAssets.clip, sceneAssets.clip.videoWidth, sceneAssets.clip.videoHeight);
+        else if (sceneAssets.still) drawKenBurns(ctx, sceneAssets.still, progress, index);
+        else drawPlaceholder(ctx, segment.scene);
+
+        const cue = cues.find(c => t >= c.start && t < c.end);
+        if (cue) drawCaption(ctx, cue.text);
+
+        onProgress(Math.max(0, t) / total);
+        requestAnimationFrame(frame);
+      };
+      frame();
+    }).finally(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    });
+
+    await stopped;
+    onProgress(1);
+    return new Blob(chunks, { type: mimeType.split(';')[0] });
+  } finally {
+    releaseAssets(assets);
+    audio.close().catch(() => {});
+  }
+}
@@ -0,0 +1,132 @@
+import { VoiceSettings, VoicePacing } from "./types";
+
+/**
+ * Speech models return raw 16-bit mono PCM. These helpers turn it into something a browser
+ * <audio> element and an editor's timeline can read.
+ */
+export const PCM_SAMPLE_RATE = 24000;
+
+export const VOICES: { name: string; style: string }[] = [
+  { name: 'Kore', style: 'Firm' },
+  { name: 'Puck', style: 'Upbeat' },
+  { name: 'Charon', style: 'Informative' },
+  { name: 'Fenrir', style: 'Excitable' },
+  { name: 'Aoede', style: 'Breezy' },
+  { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' },
+  { name: 'Zephyr', style: 'Bright' },
+];
+
+export const TONES = ['Enthusiastic & Professional', 'Calm & Authoritative', 'Dark & Suspenseful', 'Warm & Conversational', 'Energetic & Punchy'];
+
+export const PACINGS: Record<VoicePacing, string> = {
+  slow: 'slow, deliberate',
+  natural: 'natural',
+  fast: 'brisk, high-energy',
+};
+
+/** Narration speed in words per minute, for estimating spoken length before a voiceover exists. */
+export const PACING_WPM: Record<VoicePacing, number> = {
+  slow: 130,
+  natural: 155,
+  fast: 180,
+};
+
+export function speakingSeconds(text: string, pacing: VoicePacing = 'natural'): number {
+  const words = stripStageDirections(text).split(/\s+/).filter(Boolean).length;
+  return (words / PACING_WPM[pacing]) * 60;
+}
+
+export const DEFAULT_VOICE: VoiceSettings = { voiceName: 'Kore', tone: TONES[0], pacing: 'natural' };
+
+/**
+ * Removes everything a narrator should not read aloud: [SCENE: ...] and other bracketed cues,
+ * speaker labels such as "NARRATOR:", markdown emphasis and headings.
+ */
+export function stripStageDirections(script: string): string {
+  return script
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/^\s*#+\s*/gm, '')
+    .replace(/^\s*(?:SCENE|HOOK|OUTRO|INTRO|NARRATOR|VO|V\.O\.)\b[^:\n]*:\s*/gim, '')
+    .replace(/\*\*(.*?)\*\*/g, '$1')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .split('\n').map(line => line.trim()).join('\n')
+    .trim();
+}
+
+export function pcmDuration(byteLength: number, sampleRate = PCM_SAMPLE_RATE): number {
+  return byteLength / 2 / sampleRate;
+}
+
+/**
+ * Wraps 16-bit mono PCM in a RIFF/WAVE header.
+ */
+export function pcmToWav(pcm: Uint8Array, sampleRate = PCM_SAMPLE_RATE): Blob {
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+/**
+ * Reads the PCM samples back out of a stored voiceover, whether it was saved as WAV or raw PCM.
+ */
+export async function decodePcm(blob: Blob): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const isWav = bytes.length >= 12 && view.getUint32(0) === 0x52494646 && view.getUint32(8) === 0x57415645;
+  if (!isWav) return bytes;
+
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const size = view.getUint32(offset + 4, true);
+    if (view.getUint32(offset) === 0x64617461) return bytes.subarray(offset + 8, offset + 8 + size);
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error("WAV file has no data chunk.");
+}
+
+/**
+ * Joins PCM clips with a short silence between them.
+ */
+export function concatPcm(clips: Uint8Array[], gapSeconds = 0.3, sampleRate = PCM_SAMPLE_RATE): Uint8Array {
+  const gap = Math.round(gapSeconds * sampleRate) * 2;
+  const total = clips.reduce((n, clip) => n + clip.length, 0) + gap * Math.max(0, clips.length - 1);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  clips.forEach((clip, i) => {
+    out.set(clip, offset);
+    offset += clip.length + (i < clips.length - 1 ? gap : 0);
+  });
+  return out;
+}
+
+/**
+ * Returns a blob the browser can play: raw PCM from older renders is wrapped as WAV.
+ */
+export async function toPlayableAudio(blob: Blob): Promise<Blob> {
+  return blob.type.startsWith('audio/pcm') ? pcmToWav(await decodePcm(blob)) : blob;
+}
+
+export function base64PcmToWav(base64: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return pcmToWav(bytes);
+}
@@ -0,0 +1,259 @@
+import { Workspace, Project } from "./types";
+import { createZip, readZip, ZipEntry } from "./zip";
+import { collectMediaRefs, loadMedia, saveMedia, deleteMedia, mediaIdOf, fileSlug } from "./media";
+import { normalizeWorkspace } from "./workspaces";
+import { syncProjects, normalizeProject } from "./projects";
+import { VIDEO_CONCEPT_SCHEMA, conformsTo } from "./schemas";
+import { upsertSnapshots, statsFromSnapshots } from "./growth";
+import { formatMetadata } from "./variants";
+import { formatSeo } from "./seo";
+
+/**
+ * Portable archives of a workspace or a single project: a `manifest.json` holding the records,
+ * plus every referenced media blob as a file. Refs are rewritten to fresh media ids on import.
+ */
+export const BUNDLE_FORMAT = 'contentforge-bundle';
+export const BUNDLE_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+
+export interface BundleMedia {
+  ref: string;
+  path: string;
+  mimeType: string;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  kind: 'workspace' | 'project';
+  exportedAt: string;
+  workspace?: Workspace;
+  project?: Project;
+  media: BundleMedia[];
+}
+
+export interface Bundle {
+  manifest: BundleManifest;
+  files: Map<string, Uint8Array>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'audio/wav': 'wav',
+  'audio/pcm': 'pcm',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+};
+
+function extensionFor(mimeType: string): string {
+  return EXTENSIONS[mimeType.split(';')[0]] || 'bin';
+}
+
+const encoder = new TextEncoder();
+
+async function packMedia(refs: Iterable<string>, nameFor: (ref: string) => string): Promise<{ media: BundleMedia[]; entries: ZipEntry[] }> {
+  const media: BundleMedia[] = [];
+  const entries: ZipEntry[] = [];
+  for (const ref of refs) {
+    const blob = await loadMedia(ref);
+    if (!blob) continue;
+    const path = `media/${nameFor(ref)}.${extensionFor(blob.type)}`;
+    media.push({ ref, path, mimeType: blob.type });
+    entries.push({ path, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  return { media, entries };
+}
+
+function manifestEntry(manifest: BundleManifest): ZipEntry {
+  return { path: MANIFEST_PATH, data: encoder.encode(JSON.stringify(manifest, null, 2)) };
+}
+
+export async function exportWorkspaceBundle(workspace: Workspace): Promise<Blob> {
+  const { media, entries } = await packMedia(collectMediaRefs(workspace), mediaIdOf);
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    kind: 'workspace',
+    exportedAt: new Date().toISOString(),
+    workspace,
+    media,
+  };
+  return createZip([manifestEntry(manifest), ...entries]);
+}
+
+/**
+ * Exports one project as an editor hand-off: the manifest plus a plain script, shot list and
+ * media named after the scene or asset it belongs to.
+ */
+export async function exportProjectBundle(project: Project): Promise<Blob> {
+  const names = new Map<string, string>();
+  project.storyboard.forEach((scene, i) => {
+    if (scene.imageUrl) names.set(scene.imageUrl, `scene-${String(i + 1).padStart(2, '0')}`);
+  });
+  project.assets.forEach((asset, i) => {
+    if (!names.has(asset.url)) names.set(asset.url, `${asset.kind}-${String(i + 1).padStart(2, '0')}`);
+  });
+  project.thumbnails?.designs.forEach(design => {
+    if (design.exportUrl) names.set(design.exportUrl, `thumbnail-${fileSlug(design.name)}`);
+  });
+  const { media, entries } = await packMedia(collectMediaRefs(project), ref => names.get(ref) || mediaIdOf(ref));
+
+  const shotList = project.storyboard
+    .map((scene, i) => `Scene ${i + 1} (${scene.duration}s)\nScript: ${scene.text}\nVisual: ${scene.visualPrompt}`)
+    .join('\n\n');
+  const seo = project.variant
+    ? formatMetadata(project.variant.kind, project.variant.metadata)
+    : formatSeo(project);
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    kind: 'project',
+    exportedAt: new Date().toISOString(),
+    project,
+    media,
+  };
+  return createZip([
+    manifestEntry(manifest),
+    { path: 'script.txt', data: encoder.encode(project.script) },
+    { path: 'shot-list.txt', data: encoder.encode(shotList) },
+    { path: 'seo.txt', data: encoder.encode(seo) },
+    ...entries,
+  ]);
+}
+
+export function bundleFileName(kind: BundleManifest['kind'], title: string): string {
+  return `${fileSlug(title)}.${kind}.zip`;
+}
+
+/**
+ * Opens an archive and checks its manifest before anything is written to storage.
+ */
+export async function readBundle(file: Blob): Promise<Bundle> {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(file);
+  } catch (e) {
+    throw new BundleError(`Could not open archive: ${e instanceof Error ? e.message : e}`);
+  }
+  const files = new Map(entries.map(e => [e.path, e.data]));
+  const raw = files.get(MANIFEST_PATH);
+  if (!raw) throw new BundleError("Archive has no manifest.json; it was not exported from ContentForge.");
+
+  let manifest: BundleManifest;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(raw));
+  } catch {
+    throw new BundleError("manifest.json is not valid JSON.");
+  }
+  if (manifest?.format !== BUNDLE_FORMAT) throw new BundleError("manifest.json is not a ContentForge bundle.");
+  if (typeof manifest.version !== 'number' || manifest.version < 1) throw new BundleError("Bundle manifest has no valid version.");
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new BundleError(`Bundle version ${manifest.version} was created by a newer ContentForge (this build reads up to ${BUNDLE_VERSION}).`);
+  }
+  if (manifest.kind === 'workspace' ? !manifest.workspace?.id : manifest.kind === 'project' ? !manifest.project?.id : true) {
+    throw new BundleError("Bundle manifest is missing its workspace or project record.");
+  }
+  const missing = (manifest.media || []).filter(m => !files.has(m.path));
+  if (missing.length) throw new BundleError(`Bundle is missing ${missing.length} media file(s), e.g. ${missing[0].path}.`);
+
+  return { manifest: { ...manifest, media: manifest.media || [] }, files };
+}
+
+/**
+ * Writes the bundle's media into the media store and returns the records with refs pointing at the new copies.
+ */
+async function unpackMedia<T>(bundle: Bundle, record: T): Promise<T> {
+  const refs = new Map<string, string>();
+  for (const item of bundle.manifest.media) {
+    refs.set(item.ref, await saveMedia(new Blob([bundle.files.get(item.path)!], { type: item.mimeType })));
+  }
+  return JSON.parse(JSON.stringify(record), (_key, value) => (typeof value === 'string' && refs.has(value) ? refs.get(value) : value));
+}
+
+export async function unpackWorkspace(bundle: Bundle): Promise<Workspace> {
+  return normalizeWorkspace(await unpackMedia(bundle, bundle.manifest.workspace!));
+}
+
+export async function unpackProject(bundle: Bundle): Promise<Project> {
+  if (!conformsTo(bundle.manifest.project!.concept, VIDEO_CONCEPT_SCHEMA)) {
+    throw new BundleError("Bundle project has no valid video concept (title, hook, structure, visual direction and SEO).");
+  }
+  return normalizeProject(await unpackMedia(bundle, bundle.manifest.project!));
+}
+
+/**
+ * Deletes media an import wrote for copies the merge then dropped, e.g. an imported project older
+ * than the one already in the channel. Imported refs are always fresh, so nothing else uses them.
+ */
+export async function discardUnusedMedia(imported: Workspace | Project, kept: unknown): Promise<void> {
+  const used = collectMediaRefs(kept);
+  await deleteMedia([...collectMediaRefs(imported)].filter(ref => !used.has(ref)));
+}
+
+const newer = <T extends { updatedAt: string }>(a: T, b: T) => (b.updatedAt > a.updatedAt ? b : a);
+
+/**
+ * Combines two copies of a channel: projects union by id (newer edit wins), concepts union by
+ * title, growth snapshots union by date, and channel-level fields come from whichever copy was updated last.
+ */
+export function mergeWorkspaces(existing: Workspace, incoming: Workspace): Workspace {
+  const latest = newer(existing, incoming);
+  const snapshots = upsertSnapshots(existing.snapshots, incoming.snapshots);
+  const concepts = [...existing.concepts, ...incoming.concepts.filter(c => !existing.concepts.some(e => e.title === c.title))];
+  const projects = new Map(existing.projects.map(p => [p.id, p]));
+  for (const project of incoming.projects) {
+    const current = projects.get(project.id) || [...projects.values()].find(p => p.concept.title === project.concept.title);
+    if (current) projects.delete(current.id);
+    projects.set(project.id, current ? newer(current, project) : project);
+  }
+  return {
+    ...latest,
+    id: existing.id,
+    name: existing.name,
+    archived: existing.archived,
+    createdAt: existing.createdAt,
+    concepts,
+    projects: syncProjects([...projects.values()], concepts),
+    snapshots,
+    stats: statsFromSnapshots(snapshots, latest.stats),
+    strategyHistory: [...new Map([...existing.strategyHistory, ...incoming.strategyHistory].map(r => [r.id, r])).values()]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+    hookLibrary: [...new Map([...existing.hookLibrary, ...incoming.hookLibrary].map(h => [h.id, h])).values()],
+    chat: [...new Map([...existing.chat, ...incoming.chat].map(m => [m.id, m])).values()]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+  };
+}
+
+/**
+ * The project in `workspace` an imported project would collide with, by id or concept title.
+ */
+export function findProjectConflict(workspace: Workspace, project: Project): Project | undefined {
+  return workspace.projects.find(p => p.id === project.id || p.concept.title === project.concept.title);
+}
+
+/**
+ * Adds an imported project to a workspace. Merge keeps whichever copy was edited last; replace
+ * always takes the imported one.
+ */
+export function importProjectInto(workspace: Workspace, project: Project, mode: ImportMode): Partial<Workspace> {
+  const conflict = findProjectConflict(workspace, project);
+  const chosen = conflict && mode === 'merge' ? newer(conflict, project) : project;
+  const projects = conflict ? workspace.projects.map(p => (p.id === conflict.id ? chosen : p)) : [...workspace.projects, project];
+  const concepts = workspace.concepts.some(c => c.title === project.concept.title)
+    ? workspace.concepts
+    : [...workspace.concepts, project.concept];
+  return { concepts, projects };
+}
@@ -0,0 +1,238 @@
+import { useEffect, useState } from "react";
+import { CacheEntry } from "./types";
+import { AITask, getAIConfig, modelFor } from "./aiConfig";
+import { TextRequest, TextResponse, abortError } from "./aiProvider";
+import { getStorage } from "./storage";
+
+/**
+ * Content-addressed cache for text generations. Responses are keyed by a hash of the provider,
+ * model, prompt, schema and generation config, and kept for a per-task TTL. Identical requests
+ * that are in flight at the same time share one provider call. Only tasks listed in CACHE_TTL_MS
+ * are cached; everything else always goes to the model.
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * How long each task's responses stay fresh; null keeps them until cleared. Grounded research
+ * tracks live search results and goes stale, while a script for a given concept does not.
+ */
+export const CACHE_TTL_MS: Partial<Record<AITask, number | null>> = {
+  nicheAnalysis: 24 * HOUR_MS,
+  trendingNiches: 6 * HOUR_MS,
+  concepts: 24 * HOUR_MS,
+  strategy: null,
+  script: null,
+};
+
+const LABEL_LENGTH = 120;
+
+// --- Keys ---
+
+function fallbackHash(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (h2 >>> 0).toString(16).padStart(8, '0') + (h1 >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * SHA-256 of everything that shapes the response. Falls back to a 64-bit hash where WebCrypto is
+ * unavailable (pages served over plain HTTP).
+ */
+export async function cacheKey(request: TextRequest): Promise<string> {
+  const material = JSON.stringify({
+    provider: getAIConfig().provider,
+    model: modelFor(request.task),
+    task: request.task,
+    prompt: request.prompt,
+    systemInstruction: request.systemInstruction || '',
+    responseSchema: request.responseSchema || null,
+    json: !!request.json,
+    grounding: !!request.grounding,
+    thinkingBudget: request.thinkingBudget || 0,
+  });
+  if (!globalThis.crypto?.subtle) return `h64-${fallbackHash(material)}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+// --- Entries ---
+
+let entries = new Map<string, CacheEntry>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+export function isExpired(entry: CacheEntry, now = Date.now()): boolean {
+  return entry.expiresAt !== null && Date.parse(entry.expiresAt) <= now;
+}
+
+function persist(entry: CacheEntry): void {
+  getStorage().repository<CacheEntry>('cache').put(entry.key, entry).catch(e => console.warn("Cache write failed:", e));
+}
+
+/**
+ * Restores cached responses, dropping expired ones. Call once before the app renders.
+ */
+export async function loadCache(): Promise<void> {
+  const repo = getStorage().repository<CacheEntry>('cache');
+  const all = await repo.getAll();
+  await Promise.all(all.filter(entry => isExpired(entry)).map(entry => repo.delete(entry.key)));
+  entries = new Map(all.filter(entry => !isExpired(entry)).map(entry => [entry.key, entry]));
+  notify();
+}
+
+function lookup(key: string): CacheEntry | undefined {
+  const entry = entries.get(key);
+  if (!entry || isExpired(entry)) return undefined;
+  const hit = { ...entry, hits: entry.hits + 1 };
+  entries.set(key, hit);
+  notify();
+  persist(hit);
+  return hit;
+}
+
+function store(key: string, request: TextRequest, ttl: number | null, response: TextResponse): void {
+  // An empty reply is a failure the caller papers over, not something to serve again.
+  if (!response.text.trim()) return;
+  const now = Date.now();
+  const entry: CacheEntry = {
+    key,
+    task: request.task,
+    model: modelFor(request.task),
+    label: request.prompt.replace(/\s+/g, ' ').trim().slice(0, LABEL_LENGTH),
+    createdAt: new Date(now).toISOString(),
+    expiresAt: ttl === null ? null : new Date(now + ttl).toISOString(),
+    hits: 0,
+    text: response.text,
+    sources: response.sources,
+  };
+  entries.set(key, entry);
+  notify();
+  persist(entry);
+}
+
+export async function deleteCacheEntries(keys: string[]): Promise<void> {
+  const repo = getStorage().repository<CacheEntry>('cache');
+  keys.forEach(key => entries.delete(key));
+  notify();
+  await Promise.all(keys.map(key => repo.delete(key)));
+}
+
+// --- In-flight deduplication ---
+
+interface Flight {
+  promise: Promise<TextResponse>;
+  controller: AbortController;
+  callers: number;
+  /** Latest streamed text, replayed to callers that join mid-stream. */
+  text: string;
+  listeners: Set<(text: string) => void>;
+}
+
+const flights = new Map<string, Flight>();
+
+/**
+ * Runs `start` once per key no matter how many callers ask at the same time. Each caller keeps
+ * its own cancellation: leaving does not disturb the others, and the shared call is only aborted
+ * once every caller has left.
+ */
+function join(key: string, start: (signal: AbortSignal, onText: (text: string) => void) => Promise<TextResponse>, signal?: AbortSignal, onText?: (text: string) => void): Promise<TextResponse> {
+  let flight = flights.get(key);
+  if (!flight) {
+    const created: Flight = { promise: Promise.resolve({ text: '', sources: [] }), controller: new AbortController(), callers: 0, text: '', listeners: new Set() };
+    created.promise = start(created.controller.signal, text => {
+      created.text = text;
+      created.listeners.forEach(listener => listener(text));
+    }).finally(() => {
+      if (flights.get(key) === created) flights.delete(key);
+    });
+    flights.set(key, created);
+    flight = created;
+  }
+
+  const current = flight;
+  current.callers++;
+  if (onText) {
+    current.listeners.add(onText);
+    if (current.text) onText(current.text);
+  }
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const leave = () => {
+      if (settled) return false;
+      settled = true;
+      current.callers--;
+      if (onText) current.listeners.delete(onText);
+      signal?.removeEventListener('abort', onAbort);
+      return true;
+    };
+    const onAbort = () => {
+      if (!leave()) return;
+      if (current.callers === 0) {
+        current.controller.abort();
+        if (flights.get(key) === current) flights.delete(key);
+      }
+      reject(abortError());
+    };
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    current.promise.then(
+      response => { if (leave()) resolve(response); },
+      error => { if (leave()) reject(error); },
+    );
+  });
+}
+
+/**
+ * Serves `request` from the cache when its task is cacheable, otherwise calls `run` (sharing the
+ * call with identical requests in flight) and stores the result. `fresh` skips the stored copy
+ * and replaces it. On a hit `onText` receives the whole text at once.
+ */
+export async function cachedText(
+  request: TextRequest,
+  fresh: boolean,
+  run: (signal: AbortSignal | undefined, onText: (text: string) => void) => Promise<TextResponse>,
+  onText?: (text: string) => void,
+): Promise<TextResponse> {
+  const ttl = CACHE_TTL_MS[request.task];
+  if (ttl === undefined) return run(request.signal, onText || (() => {}));
+
+  const key = await cacheKey(request);
+  if (!fresh) {
+    const hit = lookup(key);
+    if (hit) {
+      onText?.(hit.text);
+      return { text: hit.text, sources: hit.sources };
+    }
+  }
+  return join(key, async (signal, emit) => {
+    const response = await run(signal, emit);
+    store(key, request, ttl, response);
+    return response;
+  }, request.signal, onText);
+}
+
+/**
+ * Re-renders whenever an entry is stored, hit or removed.
+ */
+export function useResponseCache(): CacheEntry[] {
+  const [list, setList] = useState<CacheEntry[]>([]);
+  useEffect(() => {
+    const listener = () => setList([...entries.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    listeners.add(listener);
+    listener();
+    return () => { listeners.delete(listener); };
+  }, []);
+  return list;
+}
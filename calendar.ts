@@ -0,0 +1,263 @@
+import { ContentCalendar, Project, ProjectStatus, StrategyPlan } from "./types";
+import { PROJECT_STATUSES } from "./projects";
+import { today } from "./growth";
+
+/**
+ * Content calendar: publish slots generated from the posting frequency across the 90-day plan,
+ * mapped onto strategy phases, plus the production deadlines that fall out of each scheduled slot.
+ */
+
+export const PLAN_WEEKS = 13;
+
+/** Publish weekdays per posting frequency (0 = Sunday). */
+const FREQUENCY_WEEKDAYS: Record<string, number[]> = {
+  '1x/week': [5],
+  '3x/week': [1, 3, 5],
+  'Daily': [0, 1, 2, 3, 4, 5, 6],
+};
+
+const DAY_MS = 86400000;
+
+export function createCalendar(startDate = today()): ContentCalendar {
+  return { startDate, assignments: {} };
+}
+
+// --- Dates (YYYY-MM-DD, computed in UTC so days never shift with the local offset) ---
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function weekday(date: string): number {
+  return new Date(Date.parse(date)).getUTCDay();
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+export function planEndDate(calendar: ContentCalendar): string {
+  return addDays(calendar.startDate, PLAN_WEEKS * 7 - 1);
+}
+
+/** 1-based plan week a date falls in; 0 or less before the start. */
+export function planWeek(calendar: ContentCalendar, date: string): number {
+  return Math.floor(daysBetween(calendar.startDate, date) / 7) + 1;
+}
+
+export function publishDates(calendar: ContentCalendar, frequency: string): string[] {
+  const weekdays = FREQUENCY_WEEKDAYS[frequency] || FREQUENCY_WEEKDAYS['3x/week'];
+  return Array.from({ length: PLAN_WEEKS * 7 }, (_, i) => addDays(calendar.startDate, i)).filter(d => weekdays.includes(weekday(d)));
+}
+
+// --- Strategy mapping ---
+
+export interface StrategyPhase {
+  index: number;
+  range: string;
+  phase: string;
+  fromWeek: number;
+  toWeek: number;
+}
+
+/**
+ * Reads the week span of each strategy entry from its range label ("Week 1-2", "Weeks 5–8",
+ * "Days 31-60", "Month 2"). Entries whose label has no numbers share the remaining weeks evenly.
+ */
+export function strategyPhases(strategy: StrategyPlan | null): StrategyPhase[] {
+  const weeks = strategy?.weeks || [];
+  const even = PLAN_WEEKS / Math.max(1, weeks.length);
+  return weeks.map((w, index) => {
+    const numbers = (w.range.match(/\d+/g) || []).map(Number);
+    let fromWeek = Math.floor(index * even) + 1;
+    let toWeek = Math.floor((index + 1) * even);
+    if (numbers.length) {
+      const [first, last = first] = numbers;
+      if (/day/i.test(w.range)) {
+        fromWeek = Math.ceil(first / 7);
+        toWeek = Math.ceil(last / 7);
+      } else if (/month/i.test(w.range)) {
+        fromWeek = (first - 1) * 4 + 1;
+        toWeek = last >= 3 ? PLAN_WEEKS : last * 4;
+      } else {
+        fromWeek = first;
+        toWeek = last;
+      }
+    }
+    return { index, range: w.range, phase: w.phase, fromWeek, toWeek: Math.max(fromWeek, toWeek) };
+  });
+}
+
+export function phaseForWeek(phases: StrategyPhase[], week: number): StrategyPhase | undefined {
+  return phases.find(p => week >= p.fromWeek && week <= p.toWeek);
+}
+
+// --- Slots ---
+
+export interface CalendarSlot {
+  date: string;
+  week: number;
+  phase?: StrategyPhase;
+  project?: Project;
+  /** True for the frequency's publish days; false for dates a project was dropped on by hand. */
+  planned: boolean;
+}
+
+/**
+ * Every publish slot in the plan: the frequency's dates plus any other date holding a project.
+ */
+export function calendarSlots(calendar: ContentCalendar, frequency: string, strategy: StrategyPlan | null, projects: Project[]): CalendarSlot[] {
+  const phases = strategyPhases(strategy);
+  const planned = new Set(publishDates(calendar, frequency));
+  const dates = new Set([...planned, ...Object.keys(calendar.assignments)]);
+  return [...dates].sort().map(date => {
+    const week = planWeek(calendar, date);
+    return {
+      date,
+      week,
+      phase: phaseForWeek(phases, week),
+      project: projects.find(p => p.id === calendar.assignments[date]),
+      planned: planned.has(date),
+    };
+  });
+}
+
+/**
+ * Schedules a project on a date, moving it off whichever date it held before.
+ */
+export function assignProject(calendar: ContentCalendar, date: string, projectId: string): ContentCalendar {
+  const assignments = Object.fromEntries(Object.entries(calendar.assignments).filter(([, id]) => id !== projectId));
+  return { ...calendar, assignments: { ...assignments, [date]: projectId } };
+}
+
+export function unassignDate(calendar: ContentCalendar, date: string): ContentCalendar {
+  const { [date]: _removed, ...assignments } = calendar.assignments;
+  return { ...calendar, assignments };
+}
+
+export function scheduledDate(calendar: ContentCalendar, projectId: string): string | undefined {
+  return Object.keys(calendar.assignments).find(date => calendar.assignments[date] === projectId);
+}
+
+/**
+ * Moves the plan to a new start date, shifting every scheduled project by the same number of days.
+ */
+export function rescheduleCalendar(calendar: ContentCalendar, startDate: string): ContentCalendar {
+  const shift = daysBetween(calendar.startDate, startDate);
+  const assignments = Object.fromEntries(Object.entries(calendar.assignments).map(([date, id]) => [addDays(date, shift), id]));
+  return { startDate, assignments };
+}
+
+// --- Production deadlines ---
+
+interface ProductionStep {
+  task: string;
+  /** Days before the publish date. */
+  lead: number;
+  /** Status a project reaches once the step is done. */
+  status: ProjectStatus;
+}
+
+const PRODUCTION_STEPS: ProductionStep[] = [
+  { task: 'Script writing', lead: 4, status: 'scripted' },
+  { task: 'Voiceover', lead: 3, status: 'voiced' },
+  { task: 'Render + edit', lead: 2, status: 'rendered' },
+  { task: 'Thumbnail + SEO', lead: 1, status: 'published' },
+  { task: 'Publish', lead: 0, status: 'published' },
+];
+
+export interface ProductionTask {
+  date: string;
+  task: string;
+  project: Project;
+  publishDate: string;
+}
+
+/**
+ * Outstanding production steps for every scheduled, unpublished project, working back from its
+ * publish date. Steps the project's status already covers are left out.
+ */
+export function productionSchedule(calendar: ContentCalendar, projects: Project[]): ProductionTask[] {
+  const tasks: ProductionTask[] = [];
+  for (const [publishDate, projectId] of Object.entries(calendar.assignments)) {
+    const project = projects.find(p => p.id === projectId);
+    if (!project) continue;
+    const reached = PROJECT_STATUSES.indexOf(project.status);
+    for (const step of PRODUCTION_STEPS) {
+      if (PROJECT_STATUSES.indexOf(step.status) <= reached) continue;
+      tasks.push({ date: addDays(publishDate, -step.lead), task: step.task, project, publishDate });
+    }
+  }
+  return tasks.sort((a, b) => a.date.localeCompare(b.date) || a.publishDate.localeCompare(b.publishDate));
+}
+
+/**
+ * Tasks due in the `days` days from `from`, plus anything overdue.
+ */
+export function upcomingTasks(calendar: ContentCalendar, projects: Project[], from = today(), days = 7): ProductionTask[] {
+  const until = addDays(from, days - 1);
+  return productionSchedule(calendar, projects).filter(t => t.date <= until);
+}
+
+// --- iCalendar export ---
+
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/** Folds content lines longer than 75 characters, as RFC 5545 requires. */
+function fold(line: string): string {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += i ? 74 : 75) parts.push(line.slice(i, i ? i + 74 : 75));
+  return parts.join('\r\n ');
+}
+
+const icsDate = (date: string) => date.replace(/-/g, '');
+
+function allDayEvent(uid: string, date: string, summary: string, description: string, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${icsDate(date)}`,
+    `DTEND;VALUE=DATE:${icsDate(addDays(date, 1))}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Builds an .ics feed with one all-day event per publish slot and one per outstanding production
+ * step. UIDs are stable per channel and date, so re-importing updates events instead of duplicating them.
+ */
+export function calendarToIcs(channelId: string, channelName: string, slots: CalendarSlot[], tasks: ProductionTask[]): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ContentForge//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${channelName} · Content`)}`,
+  ];
+  for (const slot of slots) {
+    const phase = slot.phase ? `Week ${slot.week} · ${slot.phase.phase}` : `Week ${slot.week}`;
+    const summary = slot.project ? `Publish: ${slot.project.concept.title}` : 'Open publish slot';
+    const description = slot.project ? `${phase}\nStatus: ${slot.project.status}\n\n${slot.project.concept.hook}` : phase;
+    lines.push(...allDayEvent(`slot-${slot.date}-${channelId}@contentforge`, slot.date, summary, description, stamp));
+  }
+  for (const task of tasks) {
+    if (task.date === task.publishDate) continue;
+    lines.push(...allDayEvent(
+      `task-${task.project.id}-${task.date}@contentforge`,
+      task.date,
+      `${task.task}: ${task.project.concept.title}`,
+      `Publishes ${task.publishDate}`,
+      stamp,
+    ));
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,220 @@
+import { Type } from "@google/genai";
+import { ChatAction, ChatMessage, ChatToolName, Project, StrategyPlan, VideoConcept, Workspace } from "./types";
+import { ChatTool, ChatToolCall } from "./aiProvider";
+import { analyzeScript, ScriptSection } from "./scriptAnalysis";
+import { METRICS, METRIC_KEYS, latestValue, weekOverWeek } from "./growth";
+import { phaseCompletion, planCompletion } from "./strategy";
+
+/**
+ * Strategist chat: the channel context sent with every turn, the tools the model can call, and
+ * applying the changes it proposes. Proposals wait for the creator's approval; their outcome is
+ * replayed to the model so it knows what actually happened.
+ */
+
+/** Messages sent back to the model each turn; older ones stay in the saved history only. */
+export const CHAT_CONTEXT_MESSAGES = 24;
+const SCRIPT_CONTEXT_CHARS = 6000;
+
+export const CHAT_TOOLS: (ChatTool & { name: ChatToolName })[] = [
+  {
+    name: 'add_concept',
+    description: "Adds a video concept to the channel's concept list, which also creates a project for it.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        title: { type: Type.STRING },
+        hook: { type: Type.STRING, description: "Opening line of the video" },
+        structure: { type: Type.STRING, description: "Beats in order, e.g. Hook → Context → 3 Reveals → Payoff → CTA" },
+        visualDirection: { type: Type.STRING },
+        description: { type: Type.STRING, description: "Short SEO description" },
+        tags: { type: Type.STRING, description: "Comma-separated tags" },
+      },
+      required: ["title", "hook", "structure"],
+    },
+  },
+  {
+    name: 'rewrite_script_section',
+    description: "Replaces one numbered section of the open project's script. Keep [SCENE: ...] cues for visuals.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        section: { type: Type.INTEGER, description: "Section number from the script outline" },
+        text: { type: Type.STRING, description: "Full replacement text for the section" },
+      },
+      required: ["section", "text"],
+    },
+  },
+  {
+    name: 'regenerate_strategy_phase',
+    description: "Regenerates one phase of the 90-day roadmap from the channel's current progress.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        range: { type: Type.STRING, description: "The phase's range exactly as listed, e.g. Week 5-6" },
+        instruction: { type: Type.STRING, description: "What the new phase should change" },
+      },
+      required: ["range"],
+    },
+  },
+];
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createChatMessage(role: ChatMessage['role'], text: string, actions?: ChatAction[]): ChatMessage {
+  return { id: createId('msg'), role, text, createdAt: new Date().toISOString(), ...(actions?.length ? { actions } : {}) };
+}
+
+/**
+ * Turns the model's tool calls into proposals. Calls to unknown tools are dropped.
+ */
+export function actionsFromToolCalls(calls: ChatToolCall[], projectId?: string): ChatAction[] {
+  return calls
+    .filter(call => CHAT_TOOLS.some(tool => tool.name === call.name))
+    .map(call => ({
+      id: createId('act'),
+      tool: call.name as ChatToolName,
+      args: Object.fromEntries(Object.entries(call.args).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : String(value ?? '')])),
+      ...(call.name === 'rewrite_script_section' && projectId ? { projectId } : {}),
+      status: 'proposed' as const,
+    }));
+}
+
+export function describeAction(action: ChatAction): string {
+  switch (action.tool) {
+    case 'add_concept': return `Add concept "${action.args.title}"`;
+    case 'rewrite_script_section': return `Rewrite script section ${action.args.section}`;
+    case 'regenerate_strategy_phase': return `Regenerate ${action.args.range}${action.args.instruction ? ` (${action.args.instruction})` : ''}`;
+  }
+}
+
+export function updateAction(messages: ChatMessage[], actionId: string, patch: Pick<ChatAction, 'status' | 'note'>): ChatMessage[] {
+  return messages.map(m => (m.actions?.some(a => a.id === actionId)
+    ? { ...m, actions: m.actions.map(a => (a.id === actionId ? { ...a, ...patch } : a)) }
+    : m));
+}
+
+/**
+ * The recent conversation as the model sees it: action outcomes are appended to the message
+ * that proposed them, and the window always opens on a creator message. Turns left with no text
+ * (a stopped reply, tool calls that yielded no action) are dropped; the API rejects empty parts.
+ */
+export function historyForModel(messages: ChatMessage[]): ChatMessage[] {
+  const recent = messages.slice(-CHAT_CONTEXT_MESSAGES);
+  const start = recent.findIndex(m => m.role === 'user');
+  return recent.slice(Math.max(0, start)).map(m => {
+    const outcomes = (m.actions || []).map(a => `[${describeAction(a)}: ${a.status}${a.note ? ` — ${a.note}` : ''}]`);
+    return outcomes.length ? { ...m, text: [m.text, ...outcomes].filter(Boolean).join('\n\n') } : m;
+  }).filter(m => m.text.trim());
+}
+
+// --- Script sections ---
+
+/**
+ * Sections the strategist can address by number: the cold open (when there is one) and each scene.
+ */
+export function scriptSections(script: string): ScriptSection[] {
+  return analyzeScript(script).sections;
+}
+
+/**
+ * Replaces section `number` (1-based) of `script`. The section's scene cue is kept unless the new
+ * text brings its own.
+ */
+export function replaceScriptSection(script: string, number: number, text: string): string {
+  const section = scriptSections(script)[number - 1];
+  if (!section) throw new Error(`The script has no section ${number}.`);
+  const original = script.slice(section.start, section.end);
+  const cue = original.match(/^\s*\[[^\]]*\][ \t]*\n?/)?.[0] || '';
+  const trailing = original.match(/\s*$/)![0];
+  const body = /^\s*\[/.test(text) ? text.trim() : `${cue}${text.trim()}`;
+  return `${script.slice(0, section.start)}${body}${trailing}${script.slice(section.end)}`;
+}
+
+// --- Other actions ---
+
+export function conceptFromArgs(args: Record<string, string>): VideoConcept {
+  const title = (args.title || '').trim();
+  if (!title) throw new Error("The concept has no title.");
+  return {
+    title,
+    hook: args.hook || '',
+    structure: args.structure || '',
+    visualDirection: args.visualDirection || '',
+    seo: {
+      description: args.description || '',
+      tags: (args.tags || '').split(',').map(t => t.trim()).filter(Boolean),
+    },
+  };
+}
+
+/**
+ * Finds a roadmap phase by range. Matches on the week numbers, so "weeks 5–6" finds "Week 5-6";
+ * a single week finds the phase containing it.
+ */
+export function findPhaseIndex(plan: StrategyPlan | null, range: string): number {
+  const weeks = plan?.weeks || [];
+  const numbers = (value: string) => (value.match(/\d+/g) || []).map(Number);
+  const wanted = numbers(range);
+  if (!wanted.length) return weeks.findIndex(w => w.range.toLowerCase() === range.trim().toLowerCase());
+  const exact = weeks.findIndex(w => numbers(w.range).join('-') === wanted.join('-'));
+  if (exact >= 0) return exact;
+  return weeks.findIndex(w => {
+    const [from, to = from] = numbers(w.range);
+    return wanted[0] >= from && wanted[0] <= to;
+  });
+}
+
+// --- Context ---
+
+/**
+ * Everything the strategist knows about the channel, rebuilt for every turn so answers track
+ * the latest data.
+ */
+export function strategistContext(workspace: Workspace, project: Project | null): string {
+  const { userInfo, nicheAnalysis, strategy, strategyProgress, concepts, projects, snapshots } = workspace;
+  const lines = [`Channel: ${workspace.name} · niche ${userInfo.niche || 'not chosen'} on ${userInfo.platform}, posting ${userInfo.frequency}`];
+
+  if (nicheAnalysis) {
+    lines.push(`Niche analysis: ${nicheAnalysis.name}; trend ${nicheAnalysis.trendScore}/10; ${nicheAnalysis.competition} competition; monetization: ${nicheAnalysis.monetization}; longevity: ${nicheAnalysis.longevity}; platform fit: ${nicheAnalysis.platformFit}`);
+  }
+
+  const growth = METRIC_KEYS.map(key => {
+    const latest = latestValue(snapshots, key);
+    if (!latest) return null;
+    const change = weekOverWeek(snapshots, key);
+    return `${METRICS[key].platform} ${METRICS[key].label}: ${latest.value} (goal ${METRICS[key].goal}${change ? `, ${change.delta >= 0 ? '+' : ''}${change.delta} this week` : ''}, as of ${latest.date})`;
+  }).filter(Boolean);
+  lines.push(growth.length
+    ? `Growth:\n${growth.join('\n')}`
+    : `Growth: YouTube ${workspace.stats.youtube.subs} subscribers, ${workspace.stats.youtube.watchTime} watch hours; Facebook ${workspace.stats.facebook.followers} followers, ${workspace.stats.facebook.viewMinutes} view minutes`);
+
+  if (strategy) {
+    const phases = strategy.weeks.map(w => `- ${w.range} · ${w.phase} · ${Math.round(phaseCompletion(w, strategyProgress).ratio * 100)}% done: ${w.focus.join('; ')}`);
+    lines.push(`Roadmap (${Math.round(planCompletion(strategy, strategyProgress).ratio * 100)}% done):\n${phases.join('\n')}`);
+  }
+
+  if (concepts.length) {
+    const list = concepts.map(c => {
+      const status = projects.find(p => p.concept.title === c.title)?.status;
+      return `- "${c.title}"${status ? ` [${status}]` : ''}: ${c.hook}`;
+    });
+    lines.push(`Concepts:\n${list.join('\n')}`);
+  }
+
+  if (project) {
+    lines.push(`Open project: "${project.concept.title}" [${project.status}], structure: ${project.concept.structure}`);
+    if (project.script.trim()) {
+      const outline = scriptSections(project.script).map((s, i) => `${i + 1}. ${s.label} (${s.words} words): ${project.script.slice(s.start, s.end).replace(/\s+/g, ' ').trim().slice(0, 80)}`);
+      lines.push(`Script outline:\n${outline.join('\n')}`);
+      lines.push(`Script:\n${project.script.slice(0, SCRIPT_CONTEXT_CHARS)}${project.script.length > SCRIPT_CONTEXT_CHARS ? '\n[truncated]' : ''}`);
+    } else {
+      lines.push("The open project has no script yet.");
+    }
+  } else {
+    lines.push("No project is open, so script sections cannot be rewritten.");
+  }
+
+  return lines.join('\n\n');
+}
@@ -0,0 +1,184 @@
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateVideosOperation } from "@google/genai";
+import { GroundingSource } from "./types";
+import { modelFor } from "./aiConfig";
+import { AIProvider, TokenUsage, TextRequest, TextResponse, ChatRequest, ChatResponse, ChatToolCall, ImageRequest, ImageResponse, SpeechRequest, VideoRequest, VideoStatus } from "./aiProvider";
+
+/**
+ * Builds a fresh client per call so a key picked through the AI Studio selector is always used.
+ */
+function client(): GoogleGenAI {
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+}
+
+/**
+ * Extracts grounding chunks from the response metadata.
+ */
+function extractSources(response: GenerateContentResponse): GroundingSource[] {
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+  return chunks
+    .filter((chunk: any) => chunk.web)
+    .map((chunk: any) => ({
+      title: chunk.web.title || "Reference",
+      uri: chunk.web.uri
+    }));
+}
+
+/**
+ * Thinking tokens are billed as output, so they are counted with the candidates.
+ */
+function extractUsage(response: GenerateContentResponse): TokenUsage | undefined {
+  const meta = response.usageMetadata;
+  if (!meta) return undefined;
+  return {
+    inputTokens: meta.promptTokenCount || 0,
+    outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+  };
+}
+
+function textConfig(request: TextRequest) {
+  return {
+    systemInstruction: request.systemInstruction,
+    tools: request.grounding ? [{ googleSearch: {} }] : undefined,
+    responseMimeType: request.responseSchema || request.json ? "application/json" : undefined,
+    responseSchema: request.responseSchema,
+    thinkingConfig: request.thinkingBudget ? { thinkingBudget: request.thinkingBudget } : undefined,
+    abortSignal: request.signal,
+  };
+}
+
+async function generateText(request: TextRequest): Promise<TextResponse> {
+  const response = await client().models.generateContent({
+    model: modelFor(request.task),
+    contents: request.prompt,
+    config: textConfig(request),
+  });
+  return { text: response.text || "", sources: extractSources(response), usage: extractUsage(response) };
+}
+
+async function streamText(request: TextRequest, onText: (text: string) => void): Promise<TextResponse> {
+  const stream = await client().models.generateContentStream({
+    model: modelFor(request.task),
+    contents: request.prompt,
+    config: textConfig(request),
+  });
+  let text = "";
+  let sources: GroundingSource[] = [];
+  let usage: TokenUsage | undefined;
+  for await (const chunk of stream) {
+    if (chunk.text) {
+      text += chunk.text;
+      onText(text);
+    }
+    const chunkSources = extractSources(chunk);
+    if (chunkSources.length) sources = chunkSources;
+    usage = extractUsage(chunk) ?? usage;
+  }
+  return { text, sources, usage };
+}
+
+async function streamChat(request: ChatRequest, onText: (text: string) => void): Promise<ChatResponse> {
+  const stream = await client().models.generateContentStream({
+    model: modelFor(request.task),
+    contents: request.history.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+    config: {
+      systemInstruction: request.systemInstruction,
+      tools: request.tools.length ? [{ functionDeclarations: request.tools }] : undefined,
+      abortSignal: request.signal,
+    },
+  });
+  let text = "";
+  const toolCalls: ChatToolCall[] = [];
+  let usage: TokenUsage | undefined;
+  for await (const chunk of stream) {
+    if (chunk.text) {
+      text += chunk.text;
+      onText(text);
+    }
+    for (const call of chunk.functionCalls || []) {
+      if (call.name) toolCalls.push({ name: call.name, args: call.args || {} });
+    }
+    usage = extractUsage(chunk) ?? usage;
+  }
+  return { text, toolCalls, usage };
+}
+
+async function generateImage(request: ImageRequest): Promise<ImageResponse> {
+  const response = await client().models.generateContent({
+    model: modelFor(request.task),
+    contents: { parts: [{ text: request.prompt }] },
+    config: {
+      imageConfig: { aspectRatio: request.aspectRatio },
+      abortSignal: request.signal,
+    },
+  });
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+  if (!part?.inlineData?.data) throw new Error("Visual synthesizer busy.");
+  return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || "image/png" };
+}
+
+async function generateSpeech(request: SpeechRequest): Promise<string> {
+  const response = await client().models.generateContent({
+    model: modelFor(request.task),
+    contents: [{ parts: [{ text: request.text }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName: request.voiceName },
+        },
+      },
+      abortSignal: request.signal,
+    },
+  });
+  const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!data) throw new Error("Voice production failed.");
+  return data;
+}
+
+async function startVideo(request: VideoRequest): Promise<string> {
+  const operation = await client().models.generateVideos({
+    model: modelFor(request.task),
+    prompt: request.prompt,
+    image: request.image ? { imageBytes: request.image.data, mimeType: request.image.mimeType } : undefined,
+    config: {
+      numberOfVideos: 1,
+      resolution: request.resolution,
+      aspectRatio: request.aspectRatio,
+      abortSignal: request.signal,
+    },
+  });
+  if (!operation.name) throw new Error("Production error: Veo returned no operation.");
+  return operation.name;
+}
+
+async function getOperation(operationId: string, signal?: AbortSignal): Promise<GenerateVideosOperation> {
+  const operation = new GenerateVideosOperation();
+  operation.name = operationId;
+  return client().operations.getVideosOperation({ operation, config: { abortSignal: signal } });
+}
+
+async function pollVideo(operationId: string, signal?: AbortSignal): Promise<VideoStatus> {
+  const operation = await getOperation(operationId, signal);
+  const progress = Number(operation.metadata?.progressPercent);
+  const error = operation.error ? String(operation.error.message || "Video compilation failed.") : undefined;
+  return { done: !!operation.done, progress: Number.isFinite(progress) ? progress / 100 : undefined, error };
+}
+
+/**
+ * Downloads the finished clip. The key goes in a header so it never ends up in a stored or opened URL.
+ */
+async function fetchVideo(operationId: string, signal?: AbortSignal): Promise<Blob> {
+  const operation = await getOperation(operationId, signal);
+  const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!uri) throw new Error("Production error: Video compilation failed.");
+  const response = await fetch(uri, { headers: { 'x-goog-api-key': process.env.API_KEY || '' }, signal });
+  if (!response.ok) {
+    // Status and Retry-After travel with the error so the scheduler can back off correctly.
+    throw Object.assign(new Error(`Clip download failed (${response.status}).`), { status: response.status, retryAfter: response.headers.get('retry-after') });
+  }
+  return response.blob();
+}
+
+export function createGeminiProvider(): AIProvider {
+  return { name: 'gemini', generateText, streamText, streamChat, generateImage, generateSpeech, startVideo, pollVideo, fetchVideo };
+}
@@ -1,321 +1,359 @@
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import { NicheAnalysis, StrategyPlan, VideoConcept, StoryboardScene, GroundingSource } from "./types";
+import { Schema } from "@google/genai";
+import { ChatMessage, NicheAnalysis, StrategyPlan, StrategyWeek, StrategyProgress, ProgressStats, VideoConcept, PlatformAdaptation, VariantKind, SeoPackage, StoryboardScene, GroundingSource, TrendingNiche, VoiceSettings } from "./types";
+import { getProvider, TextRequest, TextResponse, AspectRatio, VideoStatus, ChatResponse } from "./aiProvider";
+import { UsageScope } from "./usage";
+import { cachedText } from "./cache";
+import {
+  NICHE_ANALYSIS_SCHEMA,
+  STRATEGY_SCHEMA,
+  STRATEGY_WEEK_SCHEMA,
+  VIDEO_CONCEPTS_SCHEMA,
+  PLATFORM_VARIANT_SCHEMA,
+  SEO_PACKAGE_SCHEMA,
+  STORYBOARD_SCHEMA,
+  VIRAL_HOOKS_SCHEMA,
+  TRENDING_NICHES_SCHEMA,
+  SchemaValidationError,
+  parseStructured,
+} from "./schemas";
+import { DEFAULT_VOICE, PACINGS, stripStageDirections } from "./audio";
+import { blobToBase64 } from "./media";
+import { focusKey, phaseCompletion, planCompletion } from "./strategy";
+import { VARIANT_SPECS } from "./variants";
+import { CHAT_TOOLS, historyForModel } from "./chat";
+import { renderPrompt, withBrand } from "./prompts";
 
 /**
- * Enhanced retry logic with exponential backoff and jitter for rate-limited requests.
+ * The studio persona from its template, followed by the open channel's brand profile.
  */
-async function withRetry<T>(fn: () => Promise<T>, retries = 3, baseDelay = 3000): Promise<T> {
-  try {
-    return await fn();
-  } catch (error: any) {
-    const status = error?.status || 0;
-    const message = error?.message?.toLowerCase() || "";
-    const isBusy = status === 429 || message.includes("429") || message.includes("quota") || message.includes("resource_exhausted");
-    
-    if (isBusy && retries > 0) {
-      const delay = baseDelay * (4 - retries);
-      const jitter = Math.random() * 1000;
-      await new Promise(resolve => setTimeout(resolve, delay + jitter));
-      return withRetry(fn, retries - 1, baseDelay);
-    }
-
-    if (isBusy) {
-      throw new Error("AI Capacity Reached. Please wait 60 seconds for the node to cool down.");
-    }
-    throw error;
-  }
+function systemInstruction(): string | undefined {
+  return withBrand(renderPrompt('system', {}));
 }
 
 /**
- * Standardized system instruction for the AI agent.
+ * The strategist chat is conversational, so it gets its own instruction instead of the JSON one.
+ */
+const STRATEGIST_INSTRUCTION = `You are ContentForge AI, the strategist for this faceless channel, talking with its creator.
+Answer in short paragraphs or lists. Ground advice in the channel data below and say when it does not cover a question.
+When the creator asks for a change you can make (adding a concept, rewriting a section of the open script, regenerating a roadmap phase), call the matching tool rather than pasting the result into chat. The creator approves each change before it is applied, and outcomes are shown in brackets after your messages.`;
+
+/**
+ * Requests schema-bound JSON, validates it, and re-asks the model once with the issues before giving up.
+ * Only a valid response is returned, so only valid responses reach the cache.
  */
-const SYSTEM_INSTRUCTION = `You are ContentForge AI — the world's most advanced digital marketing strategist and viral content engineer.
-Your specialty is the 'Faceless Empire' framework: creating high-CPM, high-retention channels without showing a face.
-Output MUST be strict JSON matching the provided schema. No markdown wrapping, no chatter.
-Focus on psychological triggers, engagement hooks, and SEO optimization.`;
+async function requestValidJson(request: TextRequest & { responseSchema: Schema }): Promise<TextResponse> {
+  const provider = getProvider();
+  const response = await provider.generateText(request);
+  const first = parseStructured(response.text, request.responseSchema);
+  if (!first.issues.length) return response;
+
+  const repair = await provider.generateText({
+    ...request,
+    grounding: false,
+    prompt: `${request.prompt}
+
+Your previous response did not match the required JSON schema.
+Problems: ${first.issues.slice(0, 10).join('; ')}
+Previous response:
+${response.text.slice(0, 4000)}
+
+Return ONLY the corrected JSON.`,
+  });
+  const second = parseStructured(repair.text, request.responseSchema);
+  if (!second.issues.length) return { text: repair.text, sources: response.sources };
+  throw new SchemaValidationError(request.task, second.issues, repair.text);
+}
 
 /**
- * Extracts grounding chunks from the response metadata.
+ * Schema-bound generation through the response cache; `fresh` skips a cached copy.
  */
-function extractSources(response: GenerateContentResponse): GroundingSource[] {
-  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
-  return chunks
-    .filter((chunk: any) => chunk.web)
-    .map((chunk: any) => ({
-      title: chunk.web.title || "Reference",
-      uri: chunk.web.uri
-    }));
+async function generateStructured<T>(request: TextRequest & { responseSchema: Schema }, fresh = false): Promise<{ data: T; sources: GroundingSource[] }> {
+  const response = await cachedText(request, fresh, signal => requestValidJson({ ...request, signal }));
+  return { data: parseStructured<T>(response.text, request.responseSchema).value!, sources: response.sources };
 }
 
 /**
  * Analyzes a niche using real-time search grounding.
  */
-export async function analyzeNiche(niche: string): Promise<NicheAnalysis> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Execute deep market intelligence report for: ${niche}`,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            name: { type: Type.STRING },
-            trendScore: { type: Type.NUMBER, description: "Market heat (0-10)" },
-            competition: { type: Type.STRING, enum: ["Low", "Medium", "High"] },
-            monetization: { type: Type.STRING, description: "Primary revenue path" },
-            longevity: { type: Type.STRING, description: "Projected market life" },
-            platformFit: { type: Type.STRING, description: "Primary platform recommendation" },
-          },
-          required: ["name", "trendScore", "competition", "monetization", "longevity", "platformFit"],
-        },
-      },
-    });
-    const result = JSON.parse(response.text || "{}");
-    result.sources = extractSources(response);
-    return result;
+export async function analyzeNiche(niche: string, fresh = false, signal?: AbortSignal): Promise<NicheAnalysis> {
+  const { data, sources } = await generateStructured<NicheAnalysis>({
+    task: 'nicheAnalysis',
+    prompt: renderPrompt('nicheAnalysis', { niche }),
+    input: { niche },
+    systemInstruction: systemInstruction(),
+    grounding: true,
+    responseSchema: NICHE_ANALYSIS_SCHEMA,
+    signal,
+  }, fresh);
+  return { ...data, sources };
+}
+
+/**
+ * Generates a retention-engineered script using Thinking Config for deep reasoning. The script
+ * streams in: `onText` receives the text so far as it grows. A concept scripted before is served
+ * from the cache unless `fresh` is set.
+ */
+export async function generateScript(concept: VideoConcept, onText: (text: string) => void = () => {}, fresh = false, signal?: AbortSignal): Promise<string> {
+  const request: TextRequest = {
+    task: 'script',
+    prompt: renderPrompt('script', { title: concept.title, hook: concept.hook, structure: concept.structure }),
+    input: { title: concept.title, hook: concept.hook, structure: concept.structure },
+    systemInstruction: systemInstruction(),
+    thinkingBudget: 8000,
+    signal,
+  };
+  const response = await cachedText(request, fresh, (shared, emit) => getProvider().streamText({ ...request, signal: shared }, emit), onText);
+  return response.text || "Production failure: Script engine offline.";
+}
+
+/**
+ * Rewrites a project's script for one platform format, with its own hook and publish metadata.
+ */
+export async function adaptForPlatform(concept: VideoConcept, script: string, kind: VariantKind, signal?: AbortSignal): Promise<PlatformAdaptation> {
+  const spec = VARIANT_SPECS[kind];
+  const { data } = await generateStructured<PlatformAdaptation>({
+    task: 'variant',
+    prompt: renderPrompt('variant', {
+      platform: spec.platform,
+      brief: spec.brief,
+      limits: `title up to ${spec.titleLimit} characters; description up to ${spec.descriptionLimit} characters; ${spec.tagBudget ? `tags up to ${spec.tagBudget} characters in total` : 'an empty tags array'}; up to ${spec.maxHashtags} hashtags${spec.requiredHashtags.length ? ` including ${spec.requiredHashtags.map(h => `#${h}`).join(' ')}` : ''}`,
+      title: concept.title,
+      hook: concept.hook,
+      script,
+    }),
+    input: { title: concept.title, hook: concept.hook, kind },
+    systemInstruction: systemInstruction(),
+    thinkingBudget: kind === 'youtube-long' ? 4000 : undefined,
+    responseSchema: PLATFORM_VARIANT_SCHEMA,
+    signal,
   });
+  return data;
 }
 
 /**
- * Generates a retention-engineered script using Thinking Config for deep reasoning.
+ * Drafts upload metadata for a long-form video: rated title options, a description and tags
+ * built around the focus keyword.
  */
-export async function generateScript(concept: VideoConcept): Promise<string> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Compose high-retention script for concept: "${concept.title}". 
-      Hook: ${concept.hook}. Structure: ${concept.structure}.
-      Format: Use [SCENE: description] markers for visual cues.`,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        thinkingConfig: { thinkingBudget: 8000 },
-      },
-    });
-    return response.text || "Production failure: Script engine offline.";
+export async function generateSeoPackage(concept: VideoConcept, script: string, keyword: string, signal?: AbortSignal): Promise<SeoPackage> {
+  const spec = VARIANT_SPECS['youtube-long'];
+  const { data } = await generateStructured<SeoPackage>({
+    task: 'seo',
+    prompt: renderPrompt('seo', {
+      keyword,
+      titleLimit: String(spec.titleLimit),
+      tagBudget: String(spec.tagBudget),
+      title: concept.title,
+      hook: concept.hook,
+      script: script.slice(0, 6000),
+    }),
+    input: { title: concept.title, keyword },
+    systemInstruction: systemInstruction(),
+    responseSchema: SEO_PACKAGE_SCHEMA,
+    signal,
   });
+  return data;
+}
+
+/**
+ * Streams the strategist's reply to the latest message in `messages`. `context` is the channel
+ * summary from `strategistContext`; tool calls come back for the caller to turn into proposals.
+ */
+export async function chatWithStrategist(messages: ChatMessage[], context: string, onText: (text: string) => void, input: Record<string, string> = {}, signal?: AbortSignal): Promise<ChatResponse> {
+  return getProvider().streamChat({
+    task: 'chat',
+    systemInstruction: `${withBrand(STRATEGIST_INSTRUCTION)}\n\n--- Channel data ---\n${context}`,
+    history: historyForModel(messages),
+    tools: CHAT_TOOLS,
+    input,
+    signal,
+  }, onText);
 }
 
 /**
  * Splits a script into visual scenes for the storyboard.
  */
-export async function splitScriptIntoStoryboard(script: string): Promise<StoryboardScene[]> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Convert script into storyboard scenes:\n\n${script}`,
-      config: {
-        systemInstruction: "You are a professional cinematographer.",
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              id: { type: Type.STRING },
-              text: { type: Type.STRING, description: "Voiceover text" },
-              visualPrompt: { type: Type.STRING, description: "Image generation prompt" },
-              duration: { type: Type.NUMBER, description: "Seconds" },
-            },
-            required: ["id", "text", "visualPrompt", "duration"],
-          },
-        },
-      },
-    });
-    return JSON.parse(response.text || "[]");
+export async function splitScriptIntoStoryboard(script: string, signal?: AbortSignal): Promise<StoryboardScene[]> {
+  const { data } = await generateStructured<StoryboardScene[]>({
+    task: 'storyboard',
+    prompt: renderPrompt('storyboard', { script }),
+    input: { script },
+    systemInstruction: withBrand("You are a professional cinematographer."),
+    responseSchema: STORYBOARD_SCHEMA,
+    signal,
   });
+  return data;
 }
 
 /**
  * Generates a viral hook set.
  */
-export async function generateViralHooks(concept: VideoConcept): Promise<{hook: string, reason: string}[]> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Engineer 5 viral hooks for: ${concept.title}`,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              hook: { type: Type.STRING },
-              reason: { type: Type.STRING },
-            },
-            required: ["hook", "reason"],
-          },
-        },
-      },
-    });
-    return JSON.parse(response.text || "[]");
+export async function generateViralHooks(concept: VideoConcept, signal?: AbortSignal): Promise<{hook: string, reason: string}[]> {
+  const { data } = await generateStructured<{hook: string, reason: string}[]>({
+    task: 'hooks',
+    prompt: renderPrompt('hooks', { title: concept.title }),
+    input: { title: concept.title },
+    systemInstruction: systemInstruction(),
+    responseSchema: VIRAL_HOOKS_SCHEMA,
+    signal,
   });
+  return data;
 }
 
 /**
  * Generates cinematic visuals using the image model.
  */
-export async function generateImageForScene(visualPrompt: string): Promise<string> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [{ text: `Cinematic 4k high-definition faceless stock footage style: ${visualPrompt}. Moody, professional, shallow depth of field.` }],
-      },
-      config: {
-        imageConfig: { aspectRatio: "16:9" },
-      },
-    });
-    const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
-    if (part?.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-    throw new Error("Visual synthesizer busy.");
+export async function generateImageForScene(visualPrompt: string, aspectRatio: AspectRatio = '16:9', signal?: AbortSignal): Promise<string> {
+  const framing = aspectRatio === '9:16' ? ' Vertical composition, subject centered for a phone screen.' : '';
+  const image = await getProvider().generateImage({
+    task: 'image',
+    prompt: `Cinematic 4k high-definition faceless stock footage style: ${visualPrompt}. Moody, professional, shallow depth of field.${framing}`,
+    aspectRatio,
+    signal,
   });
+  return `data:${image.mimeType};base64,${image.data}`;
 }
 
 /**
- * Generates high-quality voiceover.
+ * Generates a thumbnail background. Unlike scene stills this asks for click-bait contrast rather
+ * than stock-footage realism, and leaves room where the template will put its text.
  */
-export async function generateVoiceover(text: string): Promise<string> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: `Tone: Enthusiastic & Professional. Content: ${text}` }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
-          },
-        },
-      },
-    });
-    const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!data) throw new Error("Voice production failed.");
-    return data;
+export async function generateThumbnailBackground(concept: VideoConcept, angle: string, space: string, signal?: AbortSignal): Promise<string> {
+  const image = await getProvider().generateImage({
+    task: 'thumbnail',
+    prompt: `YouTube thumbnail background for a video titled "${concept.title}". ${angle}. Visual direction: ${concept.visualDirection}. Hyper-saturated colour, strong contrast and one clear focal subject that reads at small sizes. No faces looking at the camera. ${space} No text, letters, logos or watermarks.`,
+    aspectRatio: '16:9',
+    signal,
   });
+  return `data:${image.mimeType};base64,${image.data}`;
 }
 
 /**
- * Compiles video using Veo (VEO-3.1-fast).
+ * Generates voiceover PCM (base64, 24 kHz mono) for narration text. Stage directions are
+ * stripped first so the narrator never reads out scene markers.
  */
-export async function compileVideoWithVeo(prompt: string, images: string[]): Promise<string> {
-  return withRetry(async () => {
-    // Note: Caller must handle API key selection if needed for Veo.
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    let operation = await ai.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: `Cinematic faceless video production: ${prompt}`,
-      config: {
-        numberOfVideos: 1,
-        resolution: '720p',
-        aspectRatio: '16:9'
-      }
-    });
-    
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 10000));
-      operation = await ai.operations.getVideosOperation({ operation: operation });
-    }
-    
-    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!downloadLink) throw new Error("Production error: Video compilation failed.");
-    return `${downloadLink}&key=${process.env.API_KEY}`;
+export async function generateVoiceover(text: string, voice: VoiceSettings = DEFAULT_VOICE, signal?: AbortSignal): Promise<string> {
+  const narration = stripStageDirections(text);
+  if (!narration) throw new Error("Nothing to narrate once stage directions are removed.");
+  return getProvider().generateSpeech({
+    task: 'voiceover',
+    text: `Read the following in a ${voice.tone} tone at a ${PACINGS[voice.pacing]} pace: ${narration}`,
+    voiceName: voice.voiceName,
+    signal,
   });
 }
 
-export async function generateStrategy(niche: string, platform: string): Promise<StrategyPlan> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `Generate 90-day growth roadmap for ${niche} on ${platform}`,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            weeks: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  range: { type: Type.STRING },
-                  phase: { type: Type.STRING },
-                  focus: { type: Type.ARRAY, items: { type: Type.STRING } },
-                },
-                required: ["range", "phase", "focus"],
-              },
-            },
-          },
-          required: ["weeks"],
-        },
-      },
-    });
-    return JSON.parse(response.text || "{}");
+/**
+ * Starts a Veo clip for one storyboard scene, conditioned on the scene's still when it has one.
+ * Returns the operation id for the render queue to poll. Caller must handle API key selection for Veo.
+ * `scope` bills the render to the job's project rather than whichever one is open.
+ */
+export async function startSceneClip(scene: Pick<StoryboardScene, 'visualPrompt' | 'text'>, image?: Blob, aspectRatio: AspectRatio = '16:9', scope?: UsageScope, signal?: AbortSignal): Promise<string> {
+  const narration = stripStageDirections(scene.text).slice(0, 400);
+  const still = image ? { data: await blobToBase64(image), mimeType: image.type || 'image/png' } : undefined;
+  return getProvider().startVideo({
+    task: 'video',
+    prompt: `Cinematic faceless b-roll, no people talking to camera: ${scene.visualPrompt}${narration ? `. Matches narration: "${narration}"` : ''}`,
+    image: still,
+    resolution: '720p',
+    aspectRatio,
+    scope,
+    signal,
   });
 }
 
-export async function generateVideoConcepts(niche: string): Promise<VideoConcept[]> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: `Engineer 5 viral faceless video concepts for niche: ${niche}`,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              title: { type: Type.STRING },
-              hook: { type: Type.STRING },
-              structure: { type: Type.STRING },
-              visualDirection: { type: Type.STRING },
-              seo: {
-                type: Type.OBJECT,
-                properties: {
-                  description: { type: Type.STRING },
-                  tags: { type: Type.ARRAY, items: { type: Type.STRING } },
-                },
-                required: ["description", "tags"],
-              },
-            },
-            required: ["title", "hook", "structure", "visualDirection", "seo"],
-          },
-        },
-      },
-    });
-    const results = JSON.parse(response.text || "[]");
-    const sources = extractSources(response);
-    return results.map((r: any) => ({ ...r, sources }));
-  });
+export async function pollSceneClip(operationId: string, signal?: AbortSignal): Promise<VideoStatus> {
+  return getProvider().pollVideo(operationId, signal);
+}
+
+export async function fetchSceneClip(operationId: string, signal?: AbortSignal): Promise<Blob> {
+  return getProvider().fetchVideo(operationId, signal);
+}
+
+export async function generateStrategy(niche: string, platform: string, fresh = false, signal?: AbortSignal): Promise<StrategyPlan> {
+  const { data } = await generateStructured<StrategyPlan>({
+    task: 'strategy',
+    prompt: renderPrompt('strategy', { niche, platform }),
+    input: { niche, platform },
+    systemInstruction: systemInstruction(),
+    responseSchema: STRATEGY_SCHEMA,
+    signal,
+  }, fresh);
+  return data;
 }
 
-export async function getTrendingGlobalNiches(): Promise<any[]> {
-  return withRetry(async () => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: "Identify the top 5 highest-growth faceless YouTube/FB niches for 2025 based on current trends.",
-      config: {
-        tools: [{ googleSearch: {} }],
-        responseMimeType: "application/json",
-      },
+/**
+ * Rewrites one phase of an existing roadmap from the channel's current numbers and how much of
+ * the plan has actually been done. The other phases are sent as context only.
+ */
+export async function regenerateStrategyPhase(
+  niche: string,
+  platform: string,
+  plan: StrategyPlan,
+  index: number,
+  stats: ProgressStats,
+  progress: StrategyProgress,
+  instruction = '',
+  signal?: AbortSignal,
+): Promise<StrategyWeek> {
+  const target = plan.weeks[index];
+  const overall = planCompletion(plan, progress);
+  const phases = plan.weeks.map((w, i) => {
+    const items = w.focus.map(f => {
+      const note = progress.notes[focusKey(w, f)];
+      return `  [${progress.done[focusKey(w, f)] ? 'x' : ' '}] ${f}${note ? ` (note: ${note})` : ''}`;
     });
-    return JSON.parse(response.text || "[]");
+    return `${i === index ? '>> ' : ''}${w.range} · ${w.phase} · ${Math.round(phaseCompletion(w, progress).ratio * 100)}% done\n${items.join('\n')}`;
   });
-}
\ No newline at end of file
+
+  const { data } = await generateStructured<StrategyWeek>({
+    task: 'strategyPhase',
+    prompt: renderPrompt('strategyPhase', {
+      niche,
+      platform,
+      range: target.range,
+      stats: `YouTube ${stats.youtube.subs} subscribers, ${stats.youtube.watchTime} watch hours; Facebook ${stats.facebook.followers} followers, ${stats.facebook.viewMinutes} view minutes.`,
+      completion: `${Math.round(overall.ratio * 100)}%`,
+      phases: phases.join('\n\n'),
+      request: instruction.trim() ? `\n\nCreator's request: ${instruction.trim()}` : '',
+    }),
+    input: { niche, platform, range: target.range, phase: target.phase, completion: String(overall.ratio) },
+    systemInstruction: systemInstruction(),
+    responseSchema: STRATEGY_WEEK_SCHEMA,
+    signal,
+  });
+  return { ...data, range: target.range };
+}
+
+export async function generateVideoConcepts(niche: string, fresh = false, signal?: AbortSignal): Promise<VideoConcept[]> {
+  const { data, sources } = await generateStructured<VideoConcept[]>({
+    task: 'concepts',
+    prompt: renderPrompt('concepts', { niche }),
+    input: { niche },
+    systemInstruction: systemInstruction(),
+    grounding: true,
+    responseSchema: VIDEO_CONCEPTS_SCHEMA,
+    signal,
+  }, fresh);
+  return data.map(concept => ({ ...concept, sources }));
+}
+
+/**
+ * Suggests fast-growing faceless niches using search grounding. With `seed`, suggestions are
+ * sub-niches of that topic instead of the global top five.
+ */
+export async function getTrendingGlobalNiches(seed = '', fresh = false, signal?: AbortSignal): Promise<TrendingNiche[]> {
+  const topic = seed.trim();
+  const { data, sources } = await generateStructured<TrendingNiche[]>({
+    task: 'trendingNiches',
+    prompt: renderPrompt('trendingNiches', {
+      focus: topic ? `sub-niches within "${topic}"` : 'niches',
+      year: String(new Date().getFullYear()),
+    }),
+    input: { niche: topic },
+    systemInstruction: withBrand(),
+    grounding: true,
+    responseSchema: TRENDING_NICHES_SCHEMA,
+    signal,
+  }, fresh);
+  return data.map(niche => ({ ...niche, sources }));
+}
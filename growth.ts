@@ -0,0 +1,227 @@
+import { MetricKey, MetricSnapshot, ProgressStats } from "./types";
+
+/**
+ * Growth tracking: dated metric snapshots per channel, CSV import from platform analytics
+ * exports, and the derived values the dashboard and Revenue Hub read.
+ */
+
+export const METRICS: Record<MetricKey, { label: string; platform: 'YouTube' | 'Facebook'; unit: string; goal: number }> = {
+  ytSubs: { label: 'Subscribers', platform: 'YouTube', unit: 'subs', goal: 1000 },
+  ytWatchHours: { label: 'Watch Hours (12 mo)', platform: 'YouTube', unit: 'hrs', goal: 4000 },
+  fbFollowers: { label: 'Followers', platform: 'Facebook', unit: 'followers', goal: 5000 },
+  fbViewMinutes: { label: 'View Minutes (60 d)', platform: 'Facebook', unit: 'min', goal: 60000 },
+};
+
+export const METRIC_KEYS = Object.keys(METRICS) as MetricKey[];
+
+const DAY_MS = 86400000;
+
+function createId(): string {
+  return `snap-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/** YYYY-MM-DD in the creator's time zone, so "today" turns over at their midnight, not UTC's. */
+export function localDate(date: Date | string | number = new Date()): string {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export function today(): string {
+  return localDate();
+}
+
+export function createSnapshot(date: string, metrics: MetricSnapshot['metrics'], source: MetricSnapshot['source'] = 'manual'): MetricSnapshot {
+  return { id: createId(), date, source, metrics };
+}
+
+/**
+ * Adds snapshots, merging metrics into an existing snapshot for the same date (newer values win).
+ */
+export function upsertSnapshots(snapshots: MetricSnapshot[], incoming: MetricSnapshot[]): MetricSnapshot[] {
+  const byDate = new Map(snapshots.map(s => [s.date, s]));
+  for (const snapshot of incoming) {
+    const existing = byDate.get(snapshot.date);
+    byDate.set(snapshot.date, existing ? { ...existing, source: snapshot.source, metrics: { ...existing.metrics, ...snapshot.metrics } } : snapshot);
+  }
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function series(snapshots: MetricSnapshot[], key: MetricKey): { date: string; value: number }[] {
+  return snapshots.filter(s => s.metrics[key] !== undefined).map(s => ({ date: s.date, value: s.metrics[key]! }));
+}
+
+export function latestValue(snapshots: MetricSnapshot[], key: MetricKey): { date: string; value: number } | undefined {
+  const points = series(snapshots, key);
+  return points[points.length - 1];
+}
+
+/**
+ * Change in a metric over the week before its latest reading. Undefined without a reading at
+ * least a week older than the latest.
+ */
+export function weekOverWeek(snapshots: MetricSnapshot[], key: MetricKey): { delta: number; percent: number } | undefined {
+  const points = series(snapshots, key);
+  const latest = points[points.length - 1];
+  if (!latest) return undefined;
+  const cutoff = Date.parse(latest.date) - 7 * DAY_MS;
+  const before = [...points].reverse().find(p => Date.parse(p.date) <= cutoff);
+  if (!before) return undefined;
+  const delta = latest.value - before.value;
+  return { delta, percent: before.value ? delta / before.value : 0 };
+}
+
+export function statsFromSnapshots(snapshots: MetricSnapshot[], fallback: ProgressStats): ProgressStats {
+  const value = (key: MetricKey, current: number) => latestValue(snapshots, key)?.value ?? current;
+  return {
+    youtube: { subs: value('ytSubs', fallback.youtube.subs), watchTime: value('ytWatchHours', fallback.youtube.watchTime) },
+    facebook: { followers: value('fbFollowers', fallback.facebook.followers), viewMinutes: value('fbViewMinutes', fallback.facebook.viewMinutes) },
+  };
+}
+
+export function metricsFromStats(stats: ProgressStats): MetricSnapshot['metrics'] {
+  return {
+    ytSubs: stats.youtube.subs,
+    ytWatchHours: stats.youtube.watchTime,
+    fbFollowers: stats.facebook.followers,
+    fbViewMinutes: stats.facebook.viewMinutes,
+  };
+}
+
+// --- CSV import ---
+
+export class CsvImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CsvImportError';
+  }
+}
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const delimiter = /^[^\n]*\t/.test(text) && !/^[^\n]*,/.test(text) ? '\t' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.map(r => r.map(f => f.trim())).filter(r => r.some(Boolean));
+}
+
+function toIsoDate(value: string): string | null {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : localDate(parsed);
+}
+
+function toNumber(value: string): number {
+  const n = Number(value.replace(/[,\s%]/g, ''));
+  return Number.isFinite(n) ? n : 0;
+}
+
+interface ColumnRule {
+  key: MetricKey;
+  pattern: RegExp;
+  /** Per-day values that need accumulating, as opposed to running totals. */
+  daily: (header: string) => boolean;
+  /** Trailing window in days for windowed metrics. */
+  window?: number;
+}
+
+const isTotal = (header: string) => /total|lifetime|cumulative/i.test(header);
+
+const YOUTUBE_COLUMNS: ColumnRule[] = [
+  { key: 'ytSubs', pattern: /^(total )?subscribers|^subscribers (gained|net)/i, daily: h => !isTotal(h) },
+  { key: 'ytWatchHours', pattern: /watch time \(hours\)/i, daily: () => true, window: 365 },
+];
+
+const META_COLUMNS: ColumnRule[] = [
+  { key: 'fbFollowers', pattern: /follow(er)?s/i, daily: h => !isTotal(h) && !/^(facebook )?followers$/i.test(h) },
+  { key: 'fbViewMinutes', pattern: /minutes viewed/i, daily: () => true, window: 60 },
+];
+
+/**
+ * Reads a YouTube Studio or Meta Business Suite export (date rows, one metric per column).
+ * Daily counts are accumulated on top of the latest snapshot before the export's first day;
+ * watch-time style metrics become trailing-window totals like the eligibility checks use, written
+ * only for days whose whole window the export covers.
+ */
+export function importAnalyticsCsv(text: string, existing: MetricSnapshot[] = []): MetricSnapshot[] {
+  const rows = parseCsv(text.replace(/^﻿/, ''));
+  const headerIndex = rows.findIndex(r => r.some(cell => /^(date|day)$/i.test(cell)));
+  if (headerIndex < 0) throw new CsvImportError("No Date column found. Export the chart data (by day) from YouTube Studio or Meta Business Suite.");
+  const header = rows[headerIndex];
+  const dateCol = header.findIndex(cell => /^(date|day)$/i.test(cell));
+
+  const youtube = YOUTUBE_COLUMNS.map(rule => ({ rule, col: header.findIndex(h => rule.pattern.test(h)) })).filter(c => c.col >= 0);
+  const meta = META_COLUMNS.map(rule => ({ rule, col: header.findIndex(h => rule.pattern.test(h)) })).filter(c => c.col >= 0);
+  const columns = youtube.length >= meta.length ? youtube : meta;
+  if (!columns.length) throw new CsvImportError("No recognised metric columns (subscribers, watch time, followers, minutes viewed).");
+  const source: MetricSnapshot['source'] = columns === youtube ? 'youtube-csv' : 'meta-csv';
+
+  const days = rows.slice(headerIndex + 1)
+    .map(r => ({ date: toIsoDate(r[dateCol] || ''), cells: r }))
+    .filter((d): d is { date: string; cells: string[] } => !!d.date)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (!days.length) throw new CsvImportError("The export has no dated rows.");
+
+  const metrics = days.map(() => ({} as MetricSnapshot['metrics']));
+  for (const { rule, col } of columns) {
+    const values = days.map(d => toNumber(d.cells[col] || ''));
+    if (!rule.daily(header[col])) {
+      values.forEach((v, i) => (metrics[i][rule.key] = v));
+    } else if (rule.window) {
+      // Only days with a full window inside the export get a total; a 28-day export says nothing
+      // about the other 337 days of a 12-month figure.
+      const first = Date.parse(days[0].date);
+      days.forEach((d, i) => {
+        const start = Date.parse(d.date) - (rule.window! - 1) * DAY_MS;
+        if (start < first) return;
+        metrics[i][rule.key] = round(values.reduce((sum, v, j) => (j <= i && Date.parse(days[j].date) >= start ? sum + v : sum), 0));
+      });
+    } else {
+      const prior = series(existing, rule.key).filter(p => p.date < days[0].date);
+      let running = prior.length ? prior[prior.length - 1].value : 0;
+      values.forEach((v, i) => (metrics[i][rule.key] = running += v));
+    }
+  }
+  const snapshots = days.map((d, i) => createSnapshot(d.date, metrics[i], source)).filter(s => Object.keys(s.metrics).length);
+  if (!snapshots.length) {
+    const windowed = columns.filter(c => c.rule.window).map(c => `${METRICS[c.rule.key].label} needs ${c.rule.window} days`);
+    throw new CsvImportError(`The export is too short for its metrics (${windowed.join(', ')}). Export a longer date range.`);
+  }
+  return snapshots;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,112 @@
+import { SavedHook, ViralHook, VoicePacing } from "./types";
+import { speakingSeconds } from "./audio";
+
+/**
+ * Hook lab: a local retention score for opening lines, the per-niche hook library, and splicing
+ * a chosen hook into the top of a script.
+ */
+
+/** Viewers decide within the first few seconds; a hook that runs past this is still clearing its throat. */
+export const HOOK_TARGET_SECONDS = 8;
+const HOOK_WORDS = { min: 8, max: 25 };
+
+/** Phrasings that open a loop the video promises to close. */
+const OPEN_LOOP_CUES: [RegExp, string][] = [
+  [/\?/, 'question'],
+  [/\b(?:until|but then|turns out|it wasn't)\b/i, 'twist'],
+  [/\b(?:here'?s (?:why|how|what)|the reason|what happens|by the end|stay until|in the next)\b/i, 'promise'],
+  [/\b(?:nobody|no one|never|secret|hidden|untold|the real|truth)\b/i, 'secret'],
+  [/\b(?:wait|stop|don'?t)\b/i, 'interrupt'],
+];
+
+export interface HookScore {
+  words: number;
+  seconds: number;
+  /** Open-loop devices found, e.g. "question", "promise". */
+  loops: string[];
+  /** 0-100: word count 35, spoken time 35, open loop 30. */
+  score: number;
+}
+
+/**
+ * Rates a hook on length, spoken time at the project's voiceover pace, and whether it opens a loop.
+ */
+export function scoreHook(hook: string, pacing: VoicePacing = 'natural'): HookScore {
+  const words = hook.split(/\s+/).filter(Boolean).length;
+  const seconds = speakingSeconds(hook, pacing);
+  const loops = OPEN_LOOP_CUES.filter(([pattern]) => pattern.test(hook)).map(([, label]) => label);
+
+  const wordPoints = words < HOOK_WORDS.min
+    ? (35 * words) / HOOK_WORDS.min
+    : words <= HOOK_WORDS.max ? 35 : Math.max(0, 35 - (words - HOOK_WORDS.max) * 3);
+  const timePoints = seconds <= HOOK_TARGET_SECONDS ? 35 : Math.max(0, 35 - (seconds - HOOK_TARGET_SECONDS) * 5);
+  const loopPoints = loops.length ? Math.min(30, 20 + loops.length * 5) : 0;
+
+  return { words, seconds, loops, score: Math.round(wordPoints + timePoints + loopPoints) };
+}
+
+function createId(): string {
+  return `hook-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+function sameNiche(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function hooksForNiche(library: SavedHook[], niche: string): SavedHook[] {
+  return library.filter(h => sameNiche(h.niche, niche));
+}
+
+export function isSaved(library: SavedHook[], niche: string, hook: string): boolean {
+  return hooksForNiche(library, niche).some(h => h.hook === hook);
+}
+
+/**
+ * Adds a hook to the library under `niche`; saving the same hook twice is a no-op.
+ */
+export function saveHook(library: SavedHook[], hook: ViralHook, niche: string, source: string): SavedHook[] {
+  if (isSaved(library, niche, hook.hook)) return library;
+  return [...library, { ...hook, id: createId(), niche, source, savedAt: new Date().toISOString() }];
+}
+
+export function removeHook(library: SavedHook[], id: string): SavedHook[] {
+  return library.filter(h => h.id !== id);
+}
+
+const HOOK_LABEL = /^(\s*HOOK\b[^:\n]*:\s*)(.*)$/im;
+const SPEAKER_LABEL = /^((?:NARRATOR|VO|V\.O\.|INTRO)\b[^:\n]*:\s*)?(.*)$/i;
+
+/**
+ * Puts `hook` at the top of the script. A labelled HOOK: line is rewritten in place; otherwise the
+ * first spoken sentence is replaced, keeping any speaker label and the scene cues around it.
+ */
+export function spliceHook(script: string, hook: string): string {
+  const text = hook.trim();
+  if (!script.trim()) return `HOOK: ${text}`;
+  if (HOOK_LABEL.test(script)) return script.replace(HOOK_LABEL, (_, label) => `${label}${text}`);
+
+  const lines = script.split('\n');
+  const index = lines.findIndex(line => line.replace(/\[[^\]]*\]/g, '').trim());
+  if (index < 0) return `${script.trimEnd()}\nHOOK: ${text}`;
+
+  const line = lines[index];
+  const cue = line.match(/^\s*(?:\[[^\]]*\]\s*)*/)![0];
+  const [, label = '', spoken] = line.slice(cue.length).match(SPEAKER_LABEL)!;
+  const rest = spoken.replace(/^[^.!?]*[.!?]+["”']?\s*/, '');
+  lines[index] = `${cue}${label}${text}${rest && rest !== spoken ? ` ${rest}` : ''}`;
+  return lines.join('\n');
+}
+
+function openingLine(script: string): string {
+  const labelled = script.match(HOOK_LABEL);
+  if (labelled) return labelled[2].trim();
+  const line = script.split('\n').map(l => l.replace(/\[[^\]]*\]/g, '').trim()).find(Boolean) || '';
+  return line.replace(SPEAKER_LABEL, '$2').trim();
+}
+
+/**
+ * True when the script currently opens with `hook`.
+ */
+export function opensWith(script: string, hook: string): boolean {
+  return !!hook.trim() && openingLine(script).startsWith(hook.trim());
+}
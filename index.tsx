@@ -1,6 +1,10 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadWorkspaceStore } from './workspaces';
+import { loadUsage } from './usage';
+import { loadCache } from './cache';
+import { loadPromptTemplates } from './prompts';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -8,8 +12,18 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
\ No newline at end of file
+loadWorkspaceStore(() => {
+  rootElement.textContent = "Close other ContentForge tabs to finish updating local storage.";
+})
+  .then(async store => {
+    await Promise.all([loadUsage(), loadCache(), loadPromptTemplates()]);
+    root.render(
+      <React.StrictMode>
+        <App initialStore={store} />
+      </React.StrictMode>
+    );
+  })
+  .catch(error => {
+    console.error(error);
+    rootElement.textContent = "ContentForge could not open its local database. Close other tabs and reload.";
+  });
\ No newline at end of file
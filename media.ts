@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { getStorage } from "./storage";
+
+/**
+ * Generated media is kept out of workspace records. Records hold a `media:<id>` ref instead,
+ * which resolves to a blob in the storage media store.
+ */
+const MEDIA_PREFIX = 'media:';
+
+const objectUrls = new Map<string, string>();
+
+export function isMediaRef(value: string | undefined): boolean {
+  return !!value && value.startsWith(MEDIA_PREFIX);
+}
+
+export function toMediaRef(id: string): string {
+  return `${MEDIA_PREFIX}${id}`;
+}
+
+export function mediaIdOf(ref: string): string {
+  return ref.slice(MEDIA_PREFIX.length);
+}
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, payload] = dataUrl.split(',', 2);
+  const mimeType = header.match(/^data:([^;,]+(?:;[^;,]+=[^;,]+)*)/)?.[1] || 'application/octet-stream';
+  const isBase64 = /;base64$/i.test(header);
+  if (!isBase64) return new Blob([decodeURIComponent(payload)], { type: mimeType });
+  const binary = atob(payload);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  return dataUrlToBlob(`data:${mimeType};base64,${base64}`);
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+/**
+ * Stores a blob (or data: URL) in the media store and returns its ref.
+ */
+export async function saveMedia(source: Blob | string): Promise<string> {
+  const blob = typeof source === 'string' ? dataUrlToBlob(source) : source;
+  return toMediaRef(await getStorage().media.put(blob));
+}
+
+export async function loadMedia(ref: string): Promise<Blob | undefined> {
+  if (isMediaRef(ref)) return getStorage().media.get(mediaIdOf(ref));
+  if (ref.startsWith('data:')) return dataUrlToBlob(ref);
+  return undefined;
+}
+
+export async function deleteMedia(refs: string[]): Promise<void> {
+  await Promise.all(refs.filter(isMediaRef).map(async ref => {
+    const url = objectUrls.get(ref);
+    if (url) URL.revokeObjectURL(url);
+    objectUrls.delete(ref);
+    await getStorage().media.delete(mediaIdOf(ref));
+  }));
+}
+
+/**
+ * Resolves a ref to an object URL; plain URLs pass through unchanged.
+ */
+export async function resolveMediaUrl(ref: string): Promise<string | undefined> {
+  if (!isMediaRef(ref)) return ref;
+  const cached = objectUrls.get(ref);
+  if (cached) return cached;
+  const blob = await loadMedia(ref);
+  if (!blob) return undefined;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(ref, url);
+  return url;
+}
+
+/**
+ * Collects every media ref held anywhere inside a record.
+ */
+export function collectMediaRefs(value: unknown, refs = new Set<string>()): Set<string> {
+  if (typeof value === 'string') {
+    if (isMediaRef(value)) refs.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectMediaRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    Object.values(value).forEach(item => collectMediaRefs(item, refs));
+  }
+  return refs;
+}
+
+/**
+ * React binding for resolveMediaUrl.
+ */
+export function useMediaUrl(ref: string | undefined): string | undefined {
+  const [url, setUrl] = useState<string | undefined>(() => (ref && !isMediaRef(ref) ? ref : ref ? objectUrls.get(ref) : undefined));
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!ref) {
+      setUrl(undefined);
+      return;
+    }
+    resolveMediaUrl(ref).then(resolved => { if (!cancelled) setUrl(resolved); });
+    return () => { cancelled = true; };
+  }, [ref]);
+
+  return url;
+}
+
+/**
+ * Saves a blob through a temporary link.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Turns a title into a safe file name stem.
+ */
+export function fileSlug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'untitled';
+}
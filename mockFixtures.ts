@@ -0,0 +1,291 @@
+import { NicheAnalysis, StrategyPlan, StrategyWeek, TrendingNiche, PlatformAdaptation, VariantKind, SeoPackage, VideoConcept, StoryboardScene, GroundingSource } from "./types";
+import { ChatResponse } from "./aiProvider";
+
+/**
+ * Deterministic fixture data for the offline provider.
+ * The same input always yields the same output, so UI flows and CI runs are reproducible.
+ */
+
+/**
+ * FNV-1a hash, used to seed fixture choices from request input.
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 PRNG seeded from a string.
+ */
+export function seededRandom(seed: string): () => number {
+  let state = hashString(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'topic';
+}
+
+export function fixtureSources(topic: string): GroundingSource[] {
+  const s = slug(topic);
+  return [
+    { title: `${topic} market report (fixture)`, uri: `https://example.com/reports/${s}` },
+    { title: `${topic} creator benchmarks (fixture)`, uri: `https://example.com/benchmarks/${s}` },
+  ];
+}
+
+export function fixtureNicheAnalysis(niche: string): NicheAnalysis {
+  const random = seededRandom(`niche:${niche}`);
+  return {
+    name: niche,
+    trendScore: Math.round((5 + random() * 5) * 10) / 10,
+    competition: pick(random, ['Low', 'Medium', 'High'] as const),
+    monetization: pick(random, ['AdSense + affiliate stack', 'Sponsorships + digital products', 'High-CPM AdSense']),
+    longevity: pick(random, ['Evergreen (5+ years)', 'Durable (3-5 years)', 'Cyclical (1-2 years)']),
+    platformFit: pick(random, ['YouTube long-form', 'YouTube Shorts + Reels', 'Facebook Watch']),
+  };
+}
+
+const PHASES = ['Foundation', 'Foundation', 'Traction', 'Traction', 'Scale', 'Monetize'];
+
+export function fixtureStrategy(niche: string, platform: string): StrategyPlan {
+  return {
+    weeks: PHASES.map((phase, i) => ({
+      range: `Week ${i * 2 + 1}-${i * 2 + 2}`,
+      phase,
+      focus: [
+        `${phase}: publish ${i < 2 ? 2 : 3} ${niche} videos on ${platform}`,
+        `Test ${i + 2} thumbnail variants per upload`,
+        `Review retention graphs and tighten the first 30 seconds`,
+      ],
+    })),
+  };
+}
+
+/**
+ * A replacement for one roadmap phase. Channels that are behind (under half their focus items
+ * done) get a catch-up plan; the rest get a step up in output.
+ */
+export function fixtureStrategyPhase(niche: string, platform: string, range: string, phase: string, completion: number): StrategyWeek {
+  const random = seededRandom(`phase:${niche}:${range}:${completion}`);
+  const behind = completion < 0.5;
+  return {
+    range,
+    phase,
+    focus: behind
+      ? [
+          `Catch up: finish the ${niche} uploads still open from earlier weeks before adding new formats`,
+          `Batch-produce ${2 + Math.floor(random() * 2)} scripts in one session to rebuild the buffer`,
+          `Keep one posting day on ${platform} fixed and protect it`,
+        ]
+      : [
+          `${phase}: step up to ${3 + Math.floor(random() * 2)} ${niche} videos on ${platform}`,
+          `Turn the best-retaining upload into ${2 + Math.floor(random() * 3)} Shorts/Reels`,
+          `Double down on the thumbnail style with the highest CTR so far`,
+        ],
+  };
+}
+
+const CONCEPT_ANGLES = [
+  'The Hidden Truth About',
+  'Why Nobody Talks About',
+  '7 Mistakes Everyone Makes With',
+  'What Happens If You Ignore',
+  'The Untold Story of',
+];
+
+export function fixtureConcepts(niche: string): VideoConcept[] {
+  return CONCEPT_ANGLES.map((angle, i) => ({
+    title: `${angle} ${niche}`,
+    hook: `In the next ${3 + i} minutes you'll see ${niche.toLowerCase()} differently — and most people never will.`,
+    structure: 'Hook → Context → 3 Reveals → Payoff → CTA',
+    visualDirection: pick(seededRandom(`visual:${niche}:${i}`), ['Dark cinematic b-roll', 'Kinetic typography', 'Archival footage with map overlays']),
+    seo: {
+      description: `A deep dive into ${niche.toLowerCase()} — ${angle.toLowerCase()} it, explained in plain language.`,
+      tags: [slug(niche), 'faceless', 'explained', `${slug(niche)}-${i + 1}`],
+    },
+  }));
+}
+
+export function fixtureScript(title: string, hook: string): string {
+  return [
+    `[SCENE: Slow push-in on a dark, moody establishing shot]`,
+    `HOOK: ${hook}`,
+    ``,
+    `[SCENE: Archival montage with on-screen title "${title}"]`,
+    `NARRATOR: This is ${title}. Most people get the first part wrong, and it costs them everything.`,
+    ``,
+    `[SCENE: Close-up detail shot, shallow depth of field]`,
+    `NARRATOR: The first reveal is simple. The pattern repeats, but only if you know where to look.`,
+    ``,
+    `[SCENE: Animated chart climbing upward]`,
+    `NARRATOR: The second reveal changes the numbers. Watch what happens when the trend flips.`,
+    ``,
+    `[SCENE: Wide aerial shot at dusk]`,
+    `OUTRO: If this opened your eyes, subscribe — the next story goes even deeper.`,
+  ].join('\n');
+}
+
+export function fixtureVariant(title: string, hook: string, kind: VariantKind): PlatformAdaptation {
+  const topic = slug(title);
+  if (kind === 'youtube-short') {
+    return {
+      title: `${title} in 45 Seconds`,
+      hook: `Wait — ${title.toLowerCase()} isn't what you think.`,
+      script: [
+        `[SCENE: Vertical close-up, fast push-in on a single striking detail]`,
+        `HOOK: Wait — ${title.toLowerCase()} isn't what you think.`,
+        `[SCENE: Vertical split screen, before and after]`,
+        `Here's the one thing nobody tells you, in under a minute.`,
+        `[SCENE: Vertical text reveal over dark b-roll]`,
+        `And that's exactly why it matters — watch it again and you'll spot it.`,
+      ].join('\n'),
+      description: `${title}, fast. Full video on the channel.`,
+      tags: [topic, 'shorts', 'explained'],
+      hashtags: ['Shorts', 'Explained', topic.replace(/-/g, '')],
+    };
+  }
+  if (kind === 'facebook') {
+    return {
+      title: `${title} (Full Story)`,
+      hook: `Most people scroll past this. ${hook}`,
+      script: fixtureScript(title, `Most people scroll past this. ${hook}`),
+      description: `Most people scroll past this. ${hook}\n\nWe broke down ${title.toLowerCase()} step by step. Which part surprised you most?`,
+      tags: [],
+      hashtags: ['Explained', 'DidYouKnow', topic.replace(/-/g, '')],
+    };
+  }
+  return {
+    title,
+    hook,
+    script: fixtureScript(title, hook),
+    description: `${hook}\n\n00:00 Hook\n00:30 Context\n02:00 The reveal\n06:30 What it means for you`,
+    tags: [topic, 'faceless', 'explained', 'documentary'],
+    hashtags: [topic.replace(/-/g, ''), 'Explained'],
+  };
+}
+
+export function fixtureSeo(title: string, keyword: string): SeoPackage {
+  const topic = keyword || title;
+  const random = seededRandom(`seo:${title}:${keyword}`);
+  const rating = (base: number) => Math.min(10, Math.round(base + random() * 3));
+  return {
+    titles: [
+      { title: `${topic}: The Hidden Truth Nobody Explains`, curiosity: rating(7), emotion: rating(4), reason: 'Keyword first with a secrecy gap.' },
+      { title: `Why ${topic} Is Not What You Think`, curiosity: rating(6), emotion: rating(3), reason: 'Challenges an assumption.' },
+      { title: `7 ${topic} Mistakes That Ruin Everything`, curiosity: rating(4), emotion: rating(6), reason: 'Numbered list with loss aversion.' },
+      { title: `${topic} Explained`, curiosity: rating(1), emotion: rating(0), reason: 'Plain and searchable, low click pull.' },
+      { title: `I Studied ${topic} for 30 Days. Here's What Actually Works`, curiosity: rating(5), emotion: rating(4), reason: 'Personal journey with a payoff.' },
+      { title: title, curiosity: rating(4), emotion: rating(3), reason: 'The original concept title.' },
+    ],
+    description: `${topic} is misunderstood by almost everyone. In this video we break down ${title.toLowerCase()} step by step, with the sources behind every claim.\n\nSubscribe for a new deep dive every week.`,
+    tags: [topic.toLowerCase(), `${topic.toLowerCase()} explained`, `${topic.toLowerCase()} for beginners`, 'faceless documentary', 'explained'],
+  };
+}
+
+/**
+ * Splits a script on its [SCENE: ...] markers, the way the storyboard model is asked to.
+ */
+export function fixtureStoryboard(script: string): StoryboardScene[] {
+  const blocks = script.split(/\[SCENE:\s*/i).slice(1);
+  const sections = blocks.length ? blocks : [`Establishing shot] ${script}`];
+  return sections.map((block, i) => {
+    const close = block.indexOf(']');
+    const visual = close >= 0 ? block.slice(0, close).trim() : 'Cinematic b-roll';
+    const text = (close >= 0 ? block.slice(close + 1) : block)
+      .replace(/\b(?:HOOK|OUTRO|INTRO|NARRATOR):\s*/gi, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const words = text.split(/\s+/).filter(Boolean).length;
+    return {
+      id: `mock-scene-${i + 1}`,
+      text,
+      visualPrompt: visual,
+      duration: Math.max(3, Math.round(words / 2.5)),
+    };
+  });
+}
+
+export function fixtureHooks(title: string): { hook: string; reason: string }[] {
+  return [
+    { hook: `Nobody expected ${title} to end like this.`, reason: 'Open loop: promises an unexpected ending.' },
+    { hook: `Stop scrolling — ${title} affects you more than you think.`, reason: 'Pattern interrupt with personal stakes.' },
+    { hook: `Here's what 99% of people miss about ${title}.`, reason: 'Exclusivity and curiosity gap.' },
+    { hook: `In 60 seconds, ${title} will make sense.`, reason: 'Clear time-boxed payoff.' },
+    { hook: `The real story of ${title} was hidden for years.`, reason: 'Secrecy framing raises intrigue.' },
+  ];
+}
+
+const SUB_NICHE_ANGLES = [
+  ['for Beginners', 'Underserved entry-level searches with high rewatch value.'],
+  ['Explained in 60 Seconds', 'Shorts-native format with strong completion rates.'],
+  ['Mistakes and Myths', 'Contrarian framing drives comments and shares.'],
+  ['History and Origins', 'Long watch sessions and binge-friendly series.'],
+  ['News and Weekly Roundups', 'Recurring format that builds returning viewers.'],
+];
+
+export function fixtureTrendingNiches(seed = ''): TrendingNiche[] {
+  if (seed) return SUB_NICHE_ANGLES.map(([angle, reason]) => ({ name: `${seed} ${angle}`, reason }));
+  return [
+    { name: 'AI Tools Explained', reason: 'Search volume up sharply with strong software CPMs.' },
+    { name: 'Stoic Philosophy Shorts', reason: 'Evergreen topic with high Shorts completion rates.' },
+    { name: 'Personal Finance for Gen Z', reason: 'High RPM and steady affiliate demand.' },
+    { name: 'Unsolved History Mysteries', reason: 'Long watch sessions and binge-friendly series.' },
+    { name: 'Space & Astronomy News', reason: 'Frequent news cycles with broad global appeal.' },
+  ];
+}
+
+/**
+ * A strategist reply. Requests that name one of the chat tools come back as a tool call so the
+ * approval flow can be exercised offline; anything else gets generic advice.
+ */
+export function fixtureChat(message: string, niche: string, projectTitle: string): ChatResponse {
+  const topic = niche || 'your niche';
+  const weeks = message.match(/weeks?\s*(\d+)(?:\s*(?:-|–|to)\s*(\d+))?/i);
+  if (/regenerate|redo|rework/i.test(message) && weeks) {
+    const range = `Week ${weeks[1]}${weeks[2] ? `-${weeks[2]}` : ''}`;
+    return {
+      text: `I'll rebuild ${range} around where the channel is now.`,
+      toolCalls: [{ name: 'regenerate_strategy_phase', args: { range, instruction: 'Focus on what has actually been completed' } }],
+    };
+  }
+  const section = message.match(/section\s*(\d+)/i);
+  if (/rewrite|tighten|punch up/i.test(message) && section && projectTitle) {
+    return {
+      text: `Here's a tighter take on section ${section[1]} of "${projectTitle}".`,
+      toolCalls: [{ name: 'rewrite_script_section', args: { section: Number(section[1]), text: `NARRATOR: Here's the part most ${topic.toLowerCase()} videos skip. Watch closely, because it changes everything that follows.` } }],
+    };
+  }
+  if (/concept|idea/i.test(message) && /add|save|new/i.test(message)) {
+    const angle = pick(seededRandom(`chat:${message}`), CONCEPT_ANGLES);
+    return {
+      text: `Good gap to fill. I've drafted a concept for you to add.`,
+      toolCalls: [{ name: 'add_concept', args: { title: `${angle} ${topic} (Part 2)`, hook: `You've seen the first part. This is what came next.`, structure: 'Hook → Recap → 3 Reveals → Payoff → CTA', visualDirection: 'Dark cinematic b-roll', description: `A follow-up deep dive into ${topic.toLowerCase()}.`, tags: `${slug(topic)}, faceless, part 2` } }],
+    };
+  }
+  return {
+    text: [
+      `Looking at your ${topic} channel, three things would move the numbers fastest:`,
+      ``,
+      `1. Keep hooks under eight seconds and open a loop in the first line.`,
+      `2. Cut to a new visual at least every 20 seconds; retention drops on long static scenes.`,
+      `3. Batch scripts for the next roadmap phase so uploads stay on schedule.`,
+      ``,
+      `Ask me to add a concept, rewrite a script section or regenerate a roadmap phase and I'll draft it for your approval.`,
+    ].join('\n'),
+    toolCalls: [],
+  };
+}
@@ -0,0 +1,289 @@
+import { AITask } from "./aiConfig";
+import { VariantKind } from "./types";
+import { AIProvider, TokenUsage, TextRequest, TextResponse, ChatRequest, ChatResponse, ImageRequest, ImageResponse, SpeechRequest, VideoRequest, VideoStatus, AspectRatio, abortError, sleep } from "./aiProvider";
+import {
+  hashString,
+  fixtureSources,
+  fixtureNicheAnalysis,
+  fixtureStrategy,
+  fixtureStrategyPhase,
+  fixtureConcepts,
+  fixtureScript,
+  fixtureVariant,
+  fixtureSeo,
+  fixtureStoryboard,
+  fixtureHooks,
+  fixtureTrendingNiches,
+  fixtureChat,
+} from "./mockFixtures";
+import { crc32 } from "./zip";
+
+/**
+ * Simulated network latency so loading states are exercised during offline development.
+ */
+const MOCK_LATENCY_MS = 250;
+
+const PCM_SAMPLE_RATE = 24000;
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+}
+
+// --- Text ---
+
+function textFixture(task: AITask, input: Record<string, string>): unknown {
+  switch (task) {
+    case 'nicheAnalysis': return fixtureNicheAnalysis(input.niche || 'General');
+    case 'strategy': return fixtureStrategy(input.niche || 'General', input.platform || 'YouTube');
+    case 'strategyPhase': return fixtureStrategyPhase(input.niche || 'General', input.platform || 'YouTube', input.range || 'Week 1-2', input.phase || 'Foundation', Number(input.completion) || 0);
+    case 'concepts': return fixtureConcepts(input.niche || 'General');
+    case 'script': return fixtureScript(input.title || 'Untitled', input.hook || '');
+    case 'variant': return fixtureVariant(input.title || 'Untitled', input.hook || '', (input.kind || 'youtube-long') as VariantKind);
+    case 'seo': return fixtureSeo(input.title || 'Untitled', input.keyword || '');
+    case 'storyboard': return fixtureStoryboard(input.script || '');
+    case 'hooks': return fixtureHooks(input.title || 'this');
+    case 'trendingNiches': return fixtureTrendingNiches(input.niche);
+    default: throw new Error(`Mock provider has no text fixture for task "${task}".`);
+  }
+}
+
+/**
+ * Roughly four characters per token, so the usage ledger has realistic counts offline.
+ */
+function estimateUsage(input: string, output: string): TokenUsage {
+  return { inputTokens: Math.ceil(input.length / 4), outputTokens: Math.ceil(output.length / 4) };
+}
+
+async function generateText(request: TextRequest): Promise<TextResponse> {
+  await sleep(MOCK_LATENCY_MS, request.signal);
+  const input = request.input || {};
+  const fixture = textFixture(request.task, input);
+  const text = typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+  const topic = input.niche || input.title || 'ContentForge';
+  return { text, sources: request.grounding ? fixtureSources(topic) : [], usage: estimateUsage((request.systemInstruction || '') + request.prompt, text) };
+}
+
+/** Delay between streamed words, so streaming states are visible offline. */
+const MOCK_STREAM_MS = 30;
+
+/**
+ * Emits `text` word by word through `onText`.
+ */
+async function streamWords(text: string, onText: (text: string) => void, signal?: AbortSignal): Promise<void> {
+  let sent = '';
+  for (const word of text.split(/(?<=\s)/)) {
+    sent += word;
+    onText(sent);
+    await sleep(MOCK_STREAM_MS, signal);
+  }
+}
+
+async function streamText(request: TextRequest, onText: (text: string) => void): Promise<TextResponse> {
+  const response = await generateText(request);
+  await streamWords(response.text, onText, request.signal);
+  return response;
+}
+
+async function streamChat(request: ChatRequest, onText: (text: string) => void): Promise<ChatResponse> {
+  await sleep(MOCK_LATENCY_MS, request.signal);
+  const input = request.input || {};
+  const message = request.history[request.history.length - 1]?.text || '';
+  const reply = fixtureChat(message, input.niche || '', input.title || '');
+  await streamWords(reply.text, onText, request.signal);
+  const prompt = request.systemInstruction + request.history.map(m => m.text).join('\n');
+  return { ...reply, usage: estimateUsage(prompt, reply.text + JSON.stringify(reply.toolCalls)) };
+}
+
+// --- Image: a seeded gradient encoded as a real PNG ---
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+/**
+ * Wraps raw bytes in a zlib stream made of uncompressed (stored) deflate blocks.
+ */
+function zlibStore(raw: Uint8Array): Uint8Array {
+  const maxBlock = 0xffff;
+  const blocks = Math.max(1, Math.ceil(raw.length / maxBlock));
+  const out = new Uint8Array(2 + raw.length + blocks * 5 + 4);
+  const view = new DataView(out.buffer);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let offset = 2;
+  for (let i = 0; i < blocks; i++) {
+    const chunk = raw.subarray(i * maxBlock, Math.min(raw.length, (i + 1) * maxBlock));
+    out[offset] = i === blocks - 1 ? 1 : 0;
+    view.setUint16(offset + 1, chunk.length, true);
+    view.setUint16(offset + 3, ~chunk.length & 0xffff, true);
+    out.set(chunk, offset + 5);
+    offset += 5 + chunk.length;
+  }
+  view.setUint32(offset, adler32(raw));
+  return out;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+const IMAGE_SIZES: Record<AspectRatio, [number, number]> = {
+  '16:9': [192, 108],
+  '9:16': [108, 192],
+  '1:1': [144, 144],
+};
+
+export function encodeFixturePng(seed: string, aspectRatio: AspectRatio): Uint8Array {
+  const [width, height] = IMAGE_SIZES[aspectRatio];
+  const hue = hashString(seed) % 360;
+  const raw = new Uint8Array((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width * 3 + 1);
+    raw[row] = 0;
+    for (let x = 0; x < width; x++) {
+      const [r, g, b] = hslToRgb((hue + (x / width) * 40) % 360, 0.55, 0.15 + (y / height) * 0.35);
+      raw.set([r, g, b], row + 1 + x * 3);
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 2, 0, 0, 0], 8);
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlibStore(raw)),
+    pngChunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const c = (1 - Math.abs(2 * l - 1)) * s;
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = l - c / 2;
+  const [r, g, b] = h < 60 ? [c, x, 0] : h < 120 ? [x, c, 0] : h < 180 ? [0, c, x] : h < 240 ? [0, x, c] : h < 300 ? [x, 0, c] : [c, 0, x];
+  return [Math.round((r + m) * 255), Math.round((g + m) * 255), Math.round((b + m) * 255)];
+}
+
+async function generateImage(request: ImageRequest): Promise<ImageResponse> {
+  await sleep(MOCK_LATENCY_MS, request.signal);
+  return { data: bytesToBase64(encodeFixturePng(request.prompt, request.aspectRatio)), mimeType: 'image/png' };
+}
+
+// --- Speech: a soft tone sized to the text's spoken length ---
+
+export function encodeFixturePcm(text: string): Uint8Array {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  const seconds = Math.min(30, Math.max(1, words / 2.5));
+  const samples = Math.round(seconds * PCM_SAMPLE_RATE);
+  const frequency = 180 + (hashString(text) % 120);
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const t = i / PCM_SAMPLE_RATE;
+    const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 2.5 * t);
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * frequency * t) * envelope * 0.2 * 32767);
+  }
+  return new Uint8Array(pcm.buffer);
+}
+
+async function generateSpeech(request: SpeechRequest): Promise<string> {
+  await sleep(MOCK_LATENCY_MS, request.signal);
+  return bytesToBase64(encodeFixturePcm(request.text));
+}
+
+// --- Video: a short canvas recording of the fixture image ---
+
+/** How long a mock render "takes", so queue progress can be exercised. */
+const MOCK_RENDER_MS = 6000;
+
+/**
+ * Mock operation ids carry everything needed to finish the render, so jobs survive a reload.
+ */
+function mockOperationId(request: VideoRequest): string {
+  return ['mock-video', Date.now(), request.aspectRatio, encodeURIComponent(request.prompt.slice(0, 200))].join('/');
+}
+
+function parseOperationId(operationId: string): { startedAt: number; aspectRatio: AspectRatio; prompt: string } {
+  const [prefix, startedAt, aspectRatio, prompt] = operationId.split('/');
+  if (prefix !== 'mock-video' || !IMAGE_SIZES[aspectRatio as AspectRatio]) throw new Error(`Unknown mock video operation "${operationId}".`);
+  return { startedAt: Number(startedAt), aspectRatio: aspectRatio as AspectRatio, prompt: decodeURIComponent(prompt || '') };
+}
+
+async function startVideo(request: VideoRequest): Promise<string> {
+  await sleep(MOCK_LATENCY_MS, request.signal);
+  return mockOperationId(request);
+}
+
+async function pollVideo(operationId: string, signal?: AbortSignal): Promise<VideoStatus> {
+  await sleep(MOCK_LATENCY_MS, signal);
+  const progress = Math.min(1, (Date.now() - parseOperationId(operationId).startedAt) / MOCK_RENDER_MS);
+  return { done: progress >= 1, progress };
+}
+
+async function fetchVideo(operationId: string, signal?: AbortSignal): Promise<Blob> {
+  const { aspectRatio, prompt } = parseOperationId(operationId);
+  if (typeof document === 'undefined' || typeof MediaRecorder === 'undefined') {
+    throw new Error("Mock video rendering requires a browser with MediaRecorder.");
+  }
+  const [width, height] = IMAGE_SIZES[aspectRatio];
+  const png = encodeFixturePng(prompt, aspectRatio);
+  const bitmap = await createImageBitmap(new Blob([png], { type: 'image/png' }));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width * 4;
+  canvas.height = height * 4;
+  const ctx = canvas.getContext('2d')!;
+  const recorder = new MediaRecorder(canvas.captureStream(30), { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => chunks.push(e.data);
+  const stopped = new Promise(resolve => (recorder.onstop = resolve));
+
+  const durationMs = 2000;
+  const start = performance.now();
+  recorder.start();
+  await new Promise<void>(resolve => {
+    const frame = () => {
+      const progress = Math.min(1, (performance.now() - start) / durationMs);
+      const scale = 1 + progress * 0.1;
+      ctx.drawImage(bitmap, 0, 0, width, height, (canvas.width - canvas.width * scale) / 2, (canvas.height - canvas.height * scale) / 2, canvas.width * scale, canvas.height * scale);
+      if (progress < 1) requestAnimationFrame(frame);
+      else resolve();
+    };
+    frame();
+  });
+  recorder.stop();
+  await stopped;
+  if (signal?.aborted) throw abortError();
+  return new Blob(chunks, { type: 'video/webm' });
+}
+
+export function createMockProvider(): AIProvider {
+  return { name: 'mock', generateText, streamText, streamChat, generateImage, generateSpeech, startVideo, pollVideo, fetchVideo };
+}
@@ -0,0 +1,44 @@
+import { NicheAnalysis } from "./types";
+import { estimateRpm } from "./revenue";
+
+/**
+ * Niche explorer scoring: folds the qualitative parts of a niche analysis into one comparable
+ * number so candidates can be ranked side by side.
+ */
+
+export const MAX_CANDIDATES = 6;
+
+const COMPETITION_POINTS: Record<NicheAnalysis['competition'], number> = { Low: 3, Medium: 1.5, High: 0 };
+
+const LONGEVITY_POINTS: [RegExp, number][] = [
+  [/evergreen|5\+|decade/i, 2],
+  [/durable|3-5|long/i, 1],
+];
+
+/**
+ * 0–20: trend (0–10) + competition (0–3) + longevity (0–2) + base RPM (0–5, $1 per $3 RPM).
+ */
+export function nicheScore(analysis: NicheAnalysis): number {
+  const longevity = LONGEVITY_POINTS.find(([pattern]) => pattern.test(analysis.longevity))?.[1] ?? 0;
+  const rpm = Math.min(5, estimateRpm(analysis.name, analysis).base / 3);
+  return Math.round((analysis.trendScore + COMPETITION_POINTS[analysis.competition] + longevity + rpm) * 10) / 10;
+}
+
+export function rankNiches(analyses: NicheAnalysis[]): NicheAnalysis[] {
+  return [...analyses].sort((a, b) => nicheScore(b) - nicheScore(a));
+}
+
+/**
+ * Splits free text into candidate niches: one per line or comma, trimmed and de-duplicated.
+ */
+export function parseCandidates(text: string, existing: string[] = []): string[] {
+  const seen = new Set(existing.map(n => n.toLowerCase()));
+  const candidates: string[] = [];
+  for (const raw of text.split(/[\n,]/)) {
+    const name = raw.trim().replace(/\s+/g, ' ');
+    if (!name || seen.has(name.toLowerCase())) continue;
+    seen.add(name.toLowerCase());
+    candidates.push(name);
+  }
+  return candidates;
+}
@@ -0,0 +1,46 @@
+import { useRef, useState } from "react";
+import { isAbortError } from "./aiProvider";
+
+/**
+ * In-flight AI calls keyed per operation, e.g. `script:<projectId>` or `voice:<projectId>`, so
+ * unrelated generations run side by side and each can be cancelled on its own.
+ */
+
+export interface Operations {
+  isRunning(key: string): boolean;
+  /**
+   * Runs `task` under `key` with a signal that `cancel(key)` fires. Starting a key that is already
+   * running cancels the earlier call. Resolves to undefined when cancelled; other errors reject.
+   */
+  run<T>(key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T | undefined>;
+  cancel(key: string): void;
+}
+
+export function useOperations(): Operations {
+  const [running, setRunning] = useState<string[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+
+  const run = async <T>(key: string, task: (signal: AbortSignal) => Promise<T>): Promise<T | undefined> => {
+    controllers.current.get(key)?.abort();
+    const controller = new AbortController();
+    controllers.current.set(key, controller);
+    setRunning(prev => (prev.includes(key) ? prev : [...prev, key]));
+    try {
+      return await task(controller.signal);
+    } catch (e) {
+      if (controller.signal.aborted || isAbortError(e)) return undefined;
+      throw e;
+    } finally {
+      if (controllers.current.get(key) === controller) {
+        controllers.current.delete(key);
+        setRunning(prev => prev.filter(k => k !== key));
+      }
+    }
+  };
+
+  return {
+    isRunning: key => running.includes(key),
+    run,
+    cancel: key => controllers.current.get(key)?.abort(),
+  };
+}
@@ -0,0 +1,101 @@
+import { Project, ProjectStatus, ProjectAsset, ScriptRevision, VideoConcept } from "./types";
+import { DEFAULT_TARGET_DURATION } from "./storyboard";
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['idea', 'scripted', 'voiced', 'rendered', 'published'];
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createProject(concept: VideoConcept): Project {
+  const now = new Date().toISOString();
+  return {
+    id: createId('prj'),
+    concept,
+    status: 'idea',
+    script: '',
+    revisions: [],
+    hooks: [],
+    storyboard: [],
+    targetDuration: DEFAULT_TARGET_DURATION,
+    assets: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Fills fields a stored or imported project may lack (older builds, hand-edited bundles).
+ * The concept is taken as is; callers validate it first.
+ */
+export function normalizeProject(raw: Project): Project {
+  const base = createProject(raw.concept);
+  const list = <T>(value: T[] | undefined) => (Array.isArray(value) ? value : []);
+  return {
+    ...base,
+    ...raw,
+    status: PROJECT_STATUSES.includes(raw.status) ? raw.status : base.status,
+    script: typeof raw.script === 'string' ? raw.script : '',
+    revisions: list(raw.revisions),
+    hooks: list(raw.hooks),
+    storyboard: list(raw.storyboard),
+    targetDuration: raw.targetDuration > 0 ? raw.targetDuration : base.targetDuration,
+    assets: list(raw.assets),
+  };
+}
+
+/**
+ * Ensures every concept has a project, keyed by concept title. Existing projects keep their work.
+ */
+export function syncProjects(projects: Project[], concepts: VideoConcept[]): Project[] {
+  const known = new Set(projects.map(p => p.concept.title));
+  const added = concepts.filter(c => !known.has(c.title)).map(createProject);
+  return added.length ? [...projects, ...added] : projects;
+}
+
+export function updateProject(
+  projects: Project[],
+  id: string,
+  patch: Partial<Project> | ((project: Project) => Partial<Project>),
+): Project[] {
+  return projects.map(p => {
+    if (p.id !== id) return p;
+    const changes = typeof patch === 'function' ? patch(p) : patch;
+    return { ...p, ...changes, updatedAt: new Date().toISOString() };
+  });
+}
+
+/**
+ * Moves a project forward in the pipeline; never moves it back.
+ */
+export function advanceStatus(project: Project, status: ProjectStatus): ProjectStatus {
+  return PROJECT_STATUSES.indexOf(status) > PROJECT_STATUSES.indexOf(project.status) ? status : project.status;
+}
+
+export function latestRevision(project: Project): ScriptRevision | undefined {
+  return project.revisions[project.revisions.length - 1];
+}
+
+/**
+ * True when the working script differs from the last saved revision.
+ */
+export function hasUnsavedChanges(project: Project): boolean {
+  return project.script !== (latestRevision(project)?.text ?? '');
+}
+
+/**
+ * Snapshots `text` as a new revision and makes it the working script. Identical snapshots are skipped.
+ */
+export function withRevision(project: Project, text: string, source: ScriptRevision['source']): Partial<Project> {
+  if (latestRevision(project)?.text === text) return { script: text };
+  const revision: ScriptRevision = { id: createId('rev'), createdAt: new Date().toISOString(), source, text };
+  return { script: text, revisions: [...project.revisions, revision] };
+}
+
+export function withAsset(project: Project, asset: Omit<ProjectAsset, 'id' | 'createdAt'>): Partial<Project> {
+  return { assets: [...project.assets, { ...asset, id: createId('ast'), createdAt: new Date().toISOString() }] };
+}
+
+export function latestAsset(project: Project, kind: ProjectAsset['kind']): ProjectAsset | undefined {
+  return [...project.assets].reverse().find(asset => asset.kind === kind);
+}
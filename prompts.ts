@@ -0,0 +1,293 @@
+import { useEffect, useState } from "react";
+import { BrandProfile, PromptTemplateHistory, PromptTemplateId, PromptTemplateVersion } from "./types";
+import { getStorage } from "./storage";
+
+/**
+ * Prompt templates and channel brand profiles. Each generation function renders its prompt from
+ * an editable, versioned template with `{{variable}}` slots; the open channel's brand profile is
+ * appended to every system instruction. Templates are shared by all channels and stored in
+ * settings; brand profiles belong to their workspace.
+ */
+
+export const MAX_TEMPLATE_VERSIONS = 20;
+
+const TEMPLATES_SETTING = 'promptTemplates';
+
+/** Example scripts are cut to this length so they steer style without crowding out the task. */
+const EXAMPLE_SCRIPT_CHARS = 1500;
+const MAX_EXAMPLE_SCRIPTS = 3;
+
+export const DEFAULT_BRAND: BrandProfile = {
+  audience: '',
+  tone: '',
+  bannedWords: [],
+  language: '',
+  readingLevel: '',
+  exampleScripts: [],
+};
+
+export const READING_LEVELS = ['Grade 5 (very simple)', 'Grade 8 (plain English)', 'Grade 12 (educated general audience)', 'Expert (assumes domain knowledge)'];
+
+export interface TemplateSpec {
+  label: string;
+  /** What the template produces and where it is used. */
+  description: string;
+  /** Variables the template can use, with the sample values shown in previews. */
+  variables: Record<string, string>;
+  body: string;
+}
+
+export const TEMPLATE_SPECS: Record<PromptTemplateId, TemplateSpec> = {
+  system: {
+    label: 'Studio persona',
+    description: 'System instruction for every structured generation and scripts. The brand profile is appended after it.',
+    variables: {},
+    body: `You are ContentForge AI — the world's most advanced digital marketing strategist and viral content engineer.
+Your specialty is the 'Faceless Empire' framework: creating high-CPM, high-retention channels without showing a face.
+Output MUST be strict JSON matching the provided schema. No markdown wrapping, no chatter.
+Focus on psychological triggers, engagement hooks, and SEO optimization.`,
+  },
+  nicheAnalysis: {
+    label: 'Niche analysis',
+    description: 'Grounded market report for one niche.',
+    variables: { niche: 'Ancient Rome' },
+    body: 'Execute deep market intelligence report for: {{niche}}',
+  },
+  strategy: {
+    label: '90-day roadmap',
+    description: 'Full growth plan for a niche and platform.',
+    variables: { niche: 'Ancient Rome', platform: 'YouTube' },
+    body: 'Generate 90-day growth roadmap for {{niche}} on {{platform}}',
+  },
+  strategyPhase: {
+    label: 'Roadmap phase',
+    description: 'Rewrites one phase of the roadmap from current stats and progress. {{request}} is empty unless the creator typed an instruction.',
+    variables: {
+      niche: 'Ancient Rome',
+      platform: 'YouTube',
+      range: 'Week 3-4',
+      stats: 'YouTube 420 subscribers, 310 watch hours; Facebook 0 followers, 0 view minutes.',
+      completion: '35%',
+      phases: 'Week 1-2 · Foundation · 100% done\n  [x] Publish 3 videos\n\n>> Week 3-4 · Momentum · 20% done\n  [ ] Test two thumbnail styles',
+      request: "\n\nCreator's request: Focus on Shorts.",
+    },
+    body: `Rewrite the "{{range}}" phase (marked >>) of this 90-day {{niche}} roadmap for {{platform}}.
+Keep the range "{{range}}". Adjust the focus items to where the channel actually is: build on what is done, carry over or rescope what was missed.
+
+Current stats: {{stats}}
+Overall completion: {{completion}}.
+
+{{phases}}{{request}}`,
+  },
+  concepts: {
+    label: 'Video concepts',
+    description: 'Grounded list of five concepts for the niche.',
+    variables: { niche: 'Ancient Rome' },
+    body: 'Engineer 5 viral faceless video concepts for niche: {{niche}}',
+  },
+  script: {
+    label: 'Script',
+    description: 'Full narration script for a concept, streamed into the editor.',
+    variables: { title: 'Why Rome Really Fell', hook: 'It was not the barbarians.', structure: 'Hook, myth, three causes, twist, outro' },
+    body: `Compose high-retention script for concept: "{{title}}".
+Hook: {{hook}}. Structure: {{structure}}.
+Format: Use [SCENE: description] markers for visual cues.`,
+  },
+  variant: {
+    label: 'Platform variant',
+    description: 'Adapts a finished script to another platform format.',
+    variables: {
+      platform: 'YouTube Shorts',
+      brief: 'a vertical short under 60 seconds with a hook in the first second',
+      limits: 'title up to 100 characters; description up to 5000 characters; an empty tags array; up to 3 hashtags including #shorts',
+      title: 'Why Rome Really Fell',
+      hook: 'It was not the barbarians.',
+      script: '[SCENE: crumbling forum] It was not the barbarians...',
+    },
+    body: `Adapt this video for {{platform}} as: {{brief}}
+
+Metadata limits: {{limits}}.
+
+Original title: {{title}}
+Original hook: {{hook}}
+Original script:
+{{script}}`,
+  },
+  seo: {
+    label: 'SEO package',
+    description: 'Rated title options, description and tags around a focus keyword.',
+    variables: {
+      keyword: 'fall of rome',
+      titleLimit: '100',
+      tagBudget: '500',
+      title: 'Why Rome Really Fell',
+      hook: 'It was not the barbarians.',
+      script: '[SCENE: crumbling forum] It was not the barbarians...',
+    },
+    body: `Write YouTube upload metadata for this video. Focus keyword: "{{keyword}}".
+
+Titles: 6 distinct options under {{titleLimit}} characters, the keyword near the start and the key words within the first 60 characters. Rate each for curiosity gap and emotional pull (0-10) honestly; do not rate every title high.
+Description: 2-3 short paragraphs, the keyword in the first sentence, ending with a call to subscribe. No chapters, links or hashtags; those are added separately.
+Tags: the keyword first, then specific long-tail phrases, at most {{tagBudget}} characters in total.
+
+Title: {{title}}
+Hook: {{hook}}
+Script:
+{{script}}`,
+  },
+  storyboard: {
+    label: 'Storyboard',
+    description: 'Splits a script into visual scenes.',
+    variables: { script: '[SCENE: crumbling forum] It was not the barbarians...' },
+    body: 'Convert script into storyboard scenes:\n\n{{script}}',
+  },
+  hooks: {
+    label: 'Viral hooks',
+    description: 'Five alternative opening lines for a concept.',
+    variables: { title: 'Why Rome Really Fell' },
+    body: 'Engineer 5 viral hooks for: {{title}}',
+  },
+  trendingNiches: {
+    label: 'Trending niches',
+    description: 'Grounded niche suggestions, global or within a topic.',
+    variables: { focus: 'sub-niches within "history"', year: '2026' },
+    body: 'Identify the top 5 highest-growth faceless YouTube/FB {{focus}} for {{year}} based on current trends. Each must be specific enough to build a channel around.',
+  },
+};
+
+export const TEMPLATE_IDS = Object.keys(TEMPLATE_SPECS) as PromptTemplateId[];
+
+// --- Rendering ---
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g;
+
+/**
+ * Replaces `{{name}}` slots with their values. Slots without a value are left in place so a
+ * mistake shows up in the preview instead of silently vanishing.
+ */
+export function renderTemplate(body: string, variables: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (slot, name: string) => (name in variables ? variables[name] : slot));
+}
+
+export function templateVariables(body: string): string[] {
+  return [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(m => m[1]))];
+}
+
+/** Slots in `body` the template's generation function does not supply. */
+export function unknownVariables(id: PromptTemplateId, body: string): string[] {
+  return templateVariables(body).filter(name => !(name in TEMPLATE_SPECS[id].variables));
+}
+
+/**
+ * The brand profile as instructions; empty when nothing is set.
+ */
+export function brandInstruction(brand: BrandProfile): string {
+  const lines: string[] = [];
+  if (brand.audience.trim()) lines.push(`Audience: ${brand.audience.trim()}`);
+  if (brand.tone.trim()) lines.push(`Tone of voice: ${brand.tone.trim()}`);
+  if (brand.language.trim()) lines.push(`Write all copy in ${brand.language.trim()}, whatever language the request is in. JSON keys stay in English.`);
+  if (brand.readingLevel.trim()) lines.push(`Reading level: ${brand.readingLevel.trim()}`);
+  const banned = brand.bannedWords.map(w => w.trim()).filter(Boolean);
+  if (banned.length) lines.push(`Never use these words or phrases: ${banned.map(w => `"${w}"`).join(', ')}`);
+  const examples = brand.exampleScripts.map(s => s.trim()).filter(Boolean).slice(0, MAX_EXAMPLE_SCRIPTS);
+  if (examples.length) {
+    lines.push('Match the voice of these example scripts (style only, not their content):');
+    examples.forEach((example, i) => lines.push(`<example ${i + 1}>\n${example.slice(0, EXAMPLE_SCRIPT_CHARS)}\n</example ${i + 1}>`));
+  }
+  return lines.length ? `--- Channel brand ---\n${lines.join('\n')}` : '';
+}
+
+export function normalizeBrand(raw: Partial<BrandProfile> | undefined): BrandProfile {
+  return {
+    ...DEFAULT_BRAND,
+    ...raw,
+    bannedWords: Array.isArray(raw?.bannedWords) ? raw!.bannedWords : [],
+    exampleScripts: Array.isArray(raw?.exampleScripts) ? raw!.exampleScripts : [],
+  };
+}
+
+// --- Active templates and brand ---
+
+let histories: Partial<Record<PromptTemplateId, PromptTemplateHistory>> = {};
+let brand: BrandProfile = DEFAULT_BRAND;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+function createId(): string {
+  return `tpl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Restores saved template versions. Call once before the app renders.
+ */
+export async function loadPromptTemplates(): Promise<void> {
+  histories = (await getStorage().repository<Partial<Record<PromptTemplateId, PromptTemplateHistory>>>('settings').get(TEMPLATES_SETTING)) || {};
+  notify();
+}
+
+async function saveHistories(next: Partial<Record<PromptTemplateId, PromptTemplateHistory>>): Promise<void> {
+  histories = next;
+  notify();
+  await getStorage().repository<typeof next>('settings').put(TEMPLATES_SETTING, next);
+}
+
+export function templateHistory(id: PromptTemplateId): PromptTemplateHistory {
+  return histories[id] || { versions: [], activeId: null };
+}
+
+/** The body generation uses: the active saved version, or the built-in default. */
+export function activeTemplate(id: PromptTemplateId): string {
+  const history = templateHistory(id);
+  return history.versions.find(v => v.id === history.activeId)?.body ?? TEMPLATE_SPECS[id].body;
+}
+
+/**
+ * Saves `body` as a new version and makes it active, dropping the oldest beyond MAX_TEMPLATE_VERSIONS.
+ */
+export async function saveTemplateVersion(id: PromptTemplateId, body: string, note: string): Promise<PromptTemplateVersion> {
+  const version: PromptTemplateVersion = { id: createId(), body, note: note.trim(), createdAt: new Date().toISOString() };
+  const history = templateHistory(id);
+  await saveHistories({ ...histories, [id]: { versions: [...history.versions, version].slice(-MAX_TEMPLATE_VERSIONS), activeId: version.id } });
+  return version;
+}
+
+/** Switches to a saved version, or back to the built-in default with null. */
+export async function activateTemplateVersion(id: PromptTemplateId, versionId: string | null): Promise<void> {
+  await saveHistories({ ...histories, [id]: { ...templateHistory(id), activeId: versionId } });
+}
+
+export function renderPrompt(id: PromptTemplateId, variables: Record<string, string>): string {
+  return renderTemplate(activeTemplate(id), variables);
+}
+
+/**
+ * Sets the brand profile injected into prompts. The app keeps this pointed at the open channel.
+ */
+export function setActiveBrand(next: BrandProfile): void {
+  brand = next;
+}
+
+/**
+ * Appends the active brand profile to a system instruction. Returns undefined when both are empty.
+ */
+export function withBrand(instruction = ''): string | undefined {
+  const text = [instruction.trim(), brandInstruction(brand)].filter(Boolean).join('\n\n');
+  return text || undefined;
+}
+
+/**
+ * Re-renders whenever a template version is saved or activated.
+ */
+export function usePromptTemplates(): Partial<Record<PromptTemplateId, PromptTemplateHistory>> {
+  const [state, setState] = useState(histories);
+  useEffect(() => {
+    const listener = () => setState(histories);
+    listeners.add(listener);
+    listener();
+    return () => { listeners.delete(listener); };
+  }, []);
+  return state;
+}
@@ -0,0 +1,211 @@
+import { useEffect, useRef, useState } from "react";
+import { Project, RenderJob } from "./types";
+import { getStorage } from "./storage";
+import { startSceneClip, pollSceneClip, fetchSceneClip } from "./geminiService";
+import { loadMedia, saveMedia, deleteMedia } from "./media";
+
+/**
+ * Clip renders are long-running provider operations. Jobs are queued, started one at a time,
+ * polled until done and downloaded into the media store. The operation id is persisted, so a
+ * reload resumes polling instead of losing the render.
+ */
+export const POLL_INTERVAL_MS = 5000;
+export const MAX_WAIT_MS = 10 * 60 * 1000;
+
+/** Typical Veo turnaround, used to estimate progress when the provider reports none. */
+const EXPECTED_RENDER_MS = 90 * 1000;
+const MAX_CONCURRENT = 1;
+
+type JobPatch = Partial<RenderJob>;
+
+function createId(): string {
+  return `job-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createRenderJob(fields: Omit<RenderJob, 'id' | 'status' | 'progress' | 'createdAt'>): RenderJob {
+  return { ...fields, id: createId(), status: 'queued', progress: 0, createdAt: new Date().toISOString() };
+}
+
+/**
+ * One job per storyboard scene, each seeded from the scene's still. A project without a
+ * storyboard gets a single job built from its concept.
+ */
+export function projectRenderJobs(workspaceId: string, project: Project, aspectRatio: RenderJob['aspectRatio'] = '16:9'): RenderJob[] {
+  if (!project.storyboard.length) {
+    return [createRenderJob({
+      workspaceId,
+      projectId: project.id,
+      label: project.concept.title,
+      visualPrompt: project.concept.visualDirection || project.concept.title,
+      text: project.concept.hook,
+      aspectRatio,
+    })];
+  }
+  return project.storyboard.map((scene, i) => createRenderJob({
+    workspaceId,
+    projectId: project.id,
+    sceneId: scene.id,
+    label: `Scene ${i + 1} clip`,
+    visualPrompt: scene.visualPrompt,
+    text: scene.text,
+    imageRef: scene.imageUrl,
+    aspectRatio,
+  }));
+}
+
+export function isActiveJob(job: RenderJob): boolean {
+  return job.status === 'queued' || job.status === 'running';
+}
+
+export function jobElapsedMs(job: RenderJob, now = Date.now()): number {
+  if (!job.startedAt) return 0;
+  const end = job.finishedAt ? Date.parse(job.finishedAt) : now;
+  return Math.max(0, end - Date.parse(job.startedAt));
+}
+
+async function loadJobs(): Promise<RenderJob[]> {
+  const jobs = await getStorage().repository<RenderJob>('renderJobs').getAll();
+  return jobs
+    // A job interrupted before the provider accepted it has nothing to resume, so it starts over.
+    .map(job => (job.status === 'running' && !job.operationId ? { ...job, status: 'queued' as const, startedAt: undefined } : job))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+async function saveJobs(jobs: RenderJob[], previous: RenderJob[]): Promise<void> {
+  const repo = getStorage().repository<RenderJob>('renderJobs');
+  const before = new Map(previous.map(job => [job.id, job]));
+  await Promise.all(jobs.filter(job => before.get(job.id) !== job).map(job => repo.put(job.id, job)));
+  await Promise.all(previous.filter(job => !jobs.some(j => j.id === job.id)).map(job => repo.delete(job.id)));
+}
+
+export interface RenderQueue {
+  jobs: RenderJob[];
+  /** Ticks every second while jobs are active, for elapsed-time displays. */
+  now: number;
+  enqueue(jobs: RenderJob[]): void;
+  cancel(id: string): void;
+  retry(id: string): void;
+  remove(id: string): void;
+}
+
+/**
+ * Runs the persisted render queue. `onFinished` receives each job once its clip is stored.
+ */
+export function useRenderQueue(onFinished: (job: RenderJob) => void): RenderQueue {
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const jobsRef = useRef(jobs);
+  jobsRef.current = jobs;
+  const finishedRef = useRef(onFinished);
+  finishedRef.current = onFinished;
+  const savedRef = useRef<RenderJob[]>([]);
+  const lastPolled = useRef(new Map<string, number>());
+  /** When this session began waiting on each operation; a job restored after a reload starts afresh. */
+  const watchingSince = useRef(new Map<string, number>());
+  const busy = useRef(false);
+
+  useEffect(() => {
+    loadJobs()
+      .then(restored => { savedRef.current = restored; setJobs(restored); })
+      .catch(e => console.warn("Render jobs could not be restored:", e))
+      .finally(() => setLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const previous = savedRef.current;
+    savedRef.current = jobs;
+    saveJobs(jobs, previous).catch(e => console.warn("Render job save failed:", e));
+  }, [jobs, loaded]);
+
+  /**
+   * Applies a patch only while the job is still in `expected` state, so a cancel that lands
+   * during an in-flight request is not overwritten by its result.
+   */
+  const patch = (id: string, changes: JobPatch, expected?: RenderJob['status']) => {
+    setJobs(prev => prev.map(job => (job.id === id && (!expected || job.status === expected) ? { ...job, ...changes } : job)));
+  };
+
+  const stillRunning = (id: string) => jobsRef.current.some(job => job.id === id && job.status === 'running');
+
+  const start = async (job: RenderJob) => {
+    patch(job.id, { status: 'running', startedAt: new Date().toISOString(), progress: 0, error: undefined }, 'queued');
+    try {
+      const image = job.imageRef ? await loadMedia(job.imageRef) : undefined;
+      const operationId = await startSceneClip({ visualPrompt: job.visualPrompt, text: job.text }, image, job.aspectRatio, { workspaceId: job.workspaceId, projectId: job.projectId });
+      lastPolled.current.set(job.id, Date.now());
+      watchingSince.current.set(job.id, Date.now());
+      patch(job.id, { operationId }, 'running');
+    } catch (e: any) {
+      patch(job.id, { status: 'failed', error: e.message || "Render could not start.", finishedAt: new Date().toISOString() }, 'running');
+    }
+  };
+
+  const poll = async (job: RenderJob) => {
+    lastPolled.current.set(job.id, Date.now());
+    if (!watchingSince.current.has(job.id)) watchingSince.current.set(job.id, Date.now());
+    const status = await pollSceneClip(job.operationId!);
+    if (status.error) throw new Error(status.error);
+    if (!status.done) {
+      // Checked only after a poll, so a render that finished while the tab was closed is still collected.
+      if (Date.now() - watchingSince.current.get(job.id)! > MAX_WAIT_MS) {
+        patch(job.id, { status: 'timedOut', error: `No result after ${MAX_WAIT_MS / 60000} minutes.`, finishedAt: new Date().toISOString() }, 'running');
+        return;
+      }
+      const estimate = Math.min(0.95, jobElapsedMs(job) / EXPECTED_RENDER_MS);
+      patch(job.id, { progress: status.progress ?? estimate }, 'running');
+      return;
+    }
+
+    const resultRef = await saveMedia(await fetchSceneClip(job.operationId!));
+    if (!stillRunning(job.id)) {
+      await deleteMedia([resultRef]);
+      return;
+    }
+    const finished: RenderJob = { ...job, status: 'succeeded', progress: 1, resultRef, finishedAt: new Date().toISOString() };
+    patch(job.id, finished, 'running');
+    finishedRef.current(finished);
+  };
+
+  const advance = async () => {
+    const current = jobsRef.current;
+    const running = current.filter(job => job.status === 'running');
+
+    for (const job of running) {
+      if (!job.operationId) continue;
+      if (Date.now() - (lastPolled.current.get(job.id) || 0) < POLL_INTERVAL_MS) continue;
+      try {
+        await poll(job);
+      } catch (e: any) {
+        patch(job.id, { status: 'failed', error: e.message || "Render failed.", finishedAt: new Date().toISOString() }, 'running');
+      }
+    }
+
+    const next = current.find(job => job.status === 'queued');
+    if (next && running.length < MAX_CONCURRENT) await start(next);
+  };
+
+  useEffect(() => {
+    if (!loaded) return;
+    const timer = setInterval(() => {
+      if (!jobsRef.current.some(isActiveJob)) return;
+      setNow(Date.now());
+      if (busy.current) return;
+      busy.current = true;
+      advance().finally(() => { busy.current = false; });
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [loaded]);
+
+  return {
+    jobs,
+    now,
+    enqueue: added => setJobs(prev => [...prev, ...added]),
+    // Providers offer no server-side cancel; the job stops being tracked and any late result is discarded.
+    cancel: id => setJobs(prev => prev.map(job => (job.id === id && isActiveJob(job) ? { ...job, status: 'cancelled', finishedAt: new Date().toISOString() } : job))),
+    retry: id => setJobs(prev => prev.map(job => (job.id === id && !isActiveJob(job) ? { ...job, status: 'queued', operationId: undefined, progress: 0, error: undefined, startedAt: undefined, finishedAt: undefined } : job))),
+    remove: id => setJobs(prev => prev.filter(job => job.id !== id)),
+  };
+}
@@ -0,0 +1,209 @@
+import { ProgressStats, NicheAnalysis, RevenueModel, RpmRange, IncomeStream, IncomeStreamKind } from "./types";
+
+/**
+ * Revenue modeling: platform eligibility thresholds, niche RPM estimates and a 12-month
+ * projection combining AdSense with manually entered income streams.
+ */
+
+export const DEFAULT_REVENUE_MODEL: RevenueModel = {
+  monthlyViews: 10000,
+  viewGrowth: 0.1,
+  avgViewMinutes: 4,
+  streams: [],
+};
+
+export const STREAM_KINDS: Record<IncomeStreamKind, string> = {
+  affiliate: 'Affiliate',
+  sponsorship: 'Sponsorship',
+  product: 'Digital Product',
+};
+
+// --- Eligibility ---
+
+export interface Requirement {
+  label: string;
+  unit: string;
+  target: number;
+  value(stats: ProgressStats): number;
+  /** Writes an edited value back into the stats. */
+  update(stats: ProgressStats, value: number): ProgressStats;
+}
+
+export interface MonetizationProgram {
+  id: string;
+  platform: 'YouTube' | 'Facebook';
+  name: string;
+  requirements: Requirement[];
+}
+
+const ytSubs = (target: number): Requirement => ({
+  label: 'Subscribers',
+  unit: 'subs',
+  target,
+  value: s => s.youtube.subs,
+  update: (s, subs) => ({ ...s, youtube: { ...s.youtube, subs } }),
+});
+
+const ytHours = (target: number): Requirement => ({
+  label: 'Public watch hours (12 mo)',
+  unit: 'hrs',
+  target,
+  value: s => s.youtube.watchTime,
+  update: (s, watchTime) => ({ ...s, youtube: { ...s.youtube, watchTime } }),
+});
+
+export const MONETIZATION_PROGRAMS: MonetizationProgram[] = [
+  { id: 'ypp-fan', platform: 'YouTube', name: 'YPP · Fan Funding', requirements: [ytSubs(500), ytHours(3000)] },
+  { id: 'ypp-ads', platform: 'YouTube', name: 'YPP · Ad Revenue', requirements: [ytSubs(1000), ytHours(4000)] },
+  {
+    id: 'fb-ads',
+    platform: 'Facebook',
+    name: 'Facebook In-Stream Ads',
+    requirements: [
+      {
+        label: 'Followers',
+        unit: 'followers',
+        target: 5000,
+        value: s => s.facebook.followers,
+        update: (s, followers) => ({ ...s, facebook: { ...s.facebook, followers } }),
+      },
+      {
+        label: 'Minutes viewed (60 days)',
+        unit: 'min',
+        target: 60000,
+        value: s => s.facebook.viewMinutes,
+        update: (s, viewMinutes) => ({ ...s, facebook: { ...s.facebook, viewMinutes } }),
+      },
+    ],
+  },
+];
+
+export function requirementProgress(requirement: Requirement, stats: ProgressStats): number {
+  return Math.min(1, requirement.value(stats) / requirement.target);
+}
+
+export function isEligible(program: MonetizationProgram, stats: ProgressStats): boolean {
+  return program.requirements.every(r => r.value(stats) >= r.target);
+}
+
+// --- RPM ---
+
+/** Typical creator RPM (USD per 1,000 views) by niche keyword. */
+const NICHE_RPM: [RegExp, RpmRange][] = [
+  [/financ|wealth|invest|money|crypto|real estate/i, { low: 8, base: 14, high: 22 }],
+  [/tech|software|ai\b|saas|gadget/i, { low: 5, base: 9, high: 15 }],
+  [/business|marketing|career|self-improvement|productivity/i, { low: 5, base: 8, high: 13 }],
+  [/health|fitness|nutrition/i, { low: 3, base: 6, high: 10 }],
+  [/science|education|history|documentary/i, { low: 3, base: 5, high: 8 }],
+  [/entertainment|gaming|meme|music|celebrity/i, { low: 1, base: 2.5, high: 4 }],
+];
+
+const DEFAULT_RPM: RpmRange = { low: 2, base: 4, high: 7 };
+
+export interface RpmEstimate extends RpmRange {
+  basis: string;
+}
+
+/**
+ * Estimates RPM for a niche. Dollar figures in the niche analysis win; otherwise the niche's
+ * keyword band is used, shifted by what the analysis says about monetization.
+ */
+export function estimateRpm(niche: string, analysis: NicheAnalysis | null): RpmEstimate {
+  const text = analysis?.monetization || '';
+  const dollars = [...text.matchAll(/\$\s?(\d+(?:\.\d+)?)/g)].map(m => Number(m[1])).filter(n => n > 0 && n < 100);
+  if (dollars.length >= 2) {
+    const low = Math.min(...dollars);
+    const high = Math.max(...dollars);
+    return { low, base: round((low + high) / 2), high, basis: `From niche analysis: "${text}"` };
+  }
+
+  const [, band] = NICHE_RPM.find(([pattern]) => pattern.test(`${niche} ${analysis?.name || ''}`)) || [null, DEFAULT_RPM];
+  let factor = 1;
+  const notes: string[] = [];
+  if (/high[- ]cpm|premium|high[- ]rpm/i.test(text)) {
+    factor *= 1.25;
+    notes.push('high-CPM signal');
+  }
+  if (/sponsor|affiliate|product/i.test(text) && !/adsense/i.test(text)) {
+    factor *= 0.9;
+    notes.push('off-platform monetization focus');
+  }
+  if (analysis?.competition === 'High') {
+    factor *= 1.1;
+    notes.push('advertiser competition');
+  }
+  return {
+    low: round(band.low * factor),
+    base: round(band.base * factor),
+    high: round(band.high * factor),
+    basis: `Typical RPM for ${niche || 'general'} content${notes.length ? `, adjusted for ${notes.join(', ')}` : ''}.`,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// --- Projection ---
+
+export type Scenario = 'worst' | 'base' | 'best';
+
+export interface ProjectionPoint {
+  month: number;
+  worst: number;
+  base: number;
+  best: number;
+}
+
+const SCENARIOS: Record<Scenario, { growth: number; streams: number; rpm: keyof RpmRange }> = {
+  worst: { growth: 0.5, streams: 0.7, rpm: 'low' },
+  base: { growth: 1, streams: 1, rpm: 'base' },
+  best: { growth: 1.5, streams: 1.2, rpm: 'high' },
+};
+
+/**
+ * Months from now until projected watch hours reach the YPP ad threshold (0 when already met).
+ * Subscribers are assumed to keep pace; returns Infinity if views never get there within `limit`.
+ */
+export function monthsToAdEligibility(stats: ProgressStats, model: RevenueModel, growthFactor = 1, limit = 36): number {
+  const ypp = MONETIZATION_PROGRAMS.find(p => p.id === 'ypp-ads')!;
+  if (isEligible(ypp, stats)) return 0;
+  let hours = stats.youtube.watchTime;
+  for (let month = 1; month <= limit; month++) {
+    hours += (monthlyViewsAt(model, month - 1, growthFactor) * model.avgViewMinutes) / 60;
+    if (hours >= 4000) return month;
+  }
+  return Infinity;
+}
+
+function monthlyViewsAt(model: RevenueModel, month: number, growthFactor: number): number {
+  return model.monthlyViews * Math.pow(1 + model.viewGrowth * growthFactor, month);
+}
+
+export function streamIncomeAt(stream: IncomeStream, month: number): number {
+  return stream.monthly * Math.pow(1 + stream.growth, month);
+}
+
+/**
+ * Monthly revenue for the next `months` months under worst/base/best scenarios. AdSense only
+ * counts once the channel is projected to clear the YPP ad threshold.
+ */
+export function projectRevenue(model: RevenueModel, rpm: RpmRange, stats: ProgressStats, months = 12): ProjectionPoint[] {
+  const scenario = (name: Scenario, month: number) => {
+    const { growth, streams, rpm: rpmKey } = SCENARIOS[name];
+    const adsStart = monthsToAdEligibility(stats, model, growth);
+    const ads = month >= adsStart ? (monthlyViewsAt(model, month, growth) / 1000) * rpm[rpmKey] : 0;
+    const other = model.streams.reduce((sum, s) => sum + streamIncomeAt(s, month), 0) * streams;
+    return round(ads + other);
+  };
+  return Array.from({ length: months }, (_, i) => ({
+    month: i + 1,
+    worst: scenario('worst', i),
+    base: scenario('base', i),
+    best: scenario('best', i),
+  }));
+}
+
+export function createIncomeStream(kind: IncomeStreamKind): IncomeStream {
+  return { id: `inc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`, kind, name: STREAM_KINDS[kind], monthly: 0, growth: 0 };
+}
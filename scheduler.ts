@@ -0,0 +1,285 @@
+import { UsageKind } from "./types";
+import { AITask, modelFor } from "./aiConfig";
+import { AIProvider, TokenUsage, abortError, isAbortError, sleep } from "./aiProvider";
+import { UsageCounts, EMPTY_COUNTS, VIDEO_CLIP_SECONDS, checkBudget, estimateCost, recordUsage, usageScope, UsageScope } from "./usage";
+
+/**
+ * Every provider call goes through here. Calls queue per model so no more than `concurrency` run
+ * at once and no more than `rpm` start in any minute; throttled, server-side and network failures
+ * are retried with exponential backoff (honouring the server's retry hint when it gives one);
+ * image, speech and video calls are checked against the daily budget first; and every successful
+ * call is written to the usage ledger.
+ */
+
+interface ModelLimits {
+  concurrency: number;
+  /** Requests started per rolling minute. */
+  rpm: number;
+}
+
+const MODEL_LIMITS: Record<string, ModelLimits> = {
+  'gemini-3-pro-preview': { concurrency: 2, rpm: 25 },
+  'gemini-3-flash-preview': { concurrency: 4, rpm: 60 },
+  'gemini-2.5-flash-image': { concurrency: 2, rpm: 10 },
+  'gemini-2.5-flash-preview-tts': { concurrency: 2, rpm: 10 },
+  'veo-3.1-fast-generate-preview': { concurrency: 1, rpm: 2 },
+};
+
+/** Used for models missing from MODEL_LIMITS. */
+const KIND_LIMITS: Record<UsageKind, ModelLimits> = {
+  text: { concurrency: 2, rpm: 25 },
+  image: { concurrency: 2, rpm: 10 },
+  speech: { concurrency: 2, rpm: 10 },
+  video: { concurrency: 1, rpm: 2 },
+};
+
+/** Operation polls and downloads are cheap reads with their own, looser lane. */
+const READ_LIMITS: ModelLimits = { concurrency: 4, rpm: 60 };
+
+const WINDOW_MS = 60 * 1000;
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60 * 1000;
+
+/** 16-bit mono PCM at 24 kHz. */
+const PCM_BYTES_PER_SECOND = 48000;
+/** Narration rate used to estimate speech length before it is generated. */
+const SPOKEN_WORDS_PER_SECOND = 2.5;
+
+// --- Lanes ---
+
+interface Lane {
+  active: number;
+  /** Start times within the last minute. */
+  starts: number[];
+  waiting: (() => void)[];
+}
+
+const lanes = new Map<string, Lane>();
+
+function laneFor(key: string): Lane {
+  let lane = lanes.get(key);
+  if (!lane) {
+    lane = { active: 0, starts: [], waiting: [] };
+    lanes.set(key, lane);
+  }
+  return lane;
+}
+
+/**
+ * Resolves when the lane frees a slot or after `ms`, whichever comes first.
+ */
+function waitForLane(lane: Lane, ms: number | undefined, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      lane.waiting = lane.waiting.filter(w => w !== wake);
+    };
+    const wake = () => {
+      settle();
+      resolve();
+    };
+    const onAbort = () => {
+      settle();
+      reject(abortError());
+    };
+    const timer = ms === undefined ? undefined : setTimeout(wake, ms);
+    lane.waiting.push(wake);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function acquire(key: string, limits: ModelLimits, signal?: AbortSignal): Promise<void> {
+  const lane = laneFor(key);
+  for (;;) {
+    if (signal?.aborted) throw abortError();
+    const now = Date.now();
+    lane.starts = lane.starts.filter(t => now - t < WINDOW_MS);
+    if (lane.active < limits.concurrency && lane.starts.length < limits.rpm) {
+      lane.active++;
+      lane.starts.push(now);
+      return;
+    }
+    // At the concurrency limit only a release can help; at the rate limit, the oldest start ageing out can.
+    await waitForLane(lane, lane.active < limits.concurrency ? lane.starts[0] + WINDOW_MS - now : undefined, signal);
+  }
+}
+
+function release(key: string): void {
+  const lane = laneFor(key);
+  lane.active = Math.max(0, lane.active - 1);
+  [...lane.waiting].forEach(wake => wake());
+}
+
+// --- Retries ---
+
+function errorStatus(error: any): number {
+  const status = Number(error?.status ?? error?.code);
+  if (Number.isFinite(status) && status > 0) return status;
+  const match = String(error?.message || '').match(/\b(429|5\d\d)\b/);
+  return match ? Number(match[1]) : 0;
+}
+
+function isThrottled(error: any): boolean {
+  const message = String(error?.message || '').toLowerCase();
+  return errorStatus(error) === 429 || message.includes('quota') || message.includes('resource_exhausted');
+}
+
+function isNetworkError(error: any): boolean {
+  const message = String(error?.message || '').toLowerCase();
+  return (error instanceof TypeError && message.includes('fetch')) || /network|econnreset|etimedout|socket hang up/.test(message);
+}
+
+export function isRetryable(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  const status = errorStatus(error);
+  return isThrottled(error) || (status >= 500 && status < 600) || isNetworkError(error);
+}
+
+/**
+ * Reads the server's retry hint: a Retry-After value (seconds or an HTTP date) attached to the
+ * error, or the `retryDelay` of a Google RetryInfo detail quoted in the error message.
+ */
+export function retryAfterMs(error: any): number | undefined {
+  const header = error?.retryAfter ?? error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'];
+  if (header !== undefined && header !== null && header !== '') {
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(String(header));
+    if (Number.isFinite(date)) return Math.max(0, date - Date.now());
+  }
+  const match = String(error?.message || '').match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/i);
+  return match ? Number(match[1]) * 1000 : undefined;
+}
+
+/** Full-jitter exponential backoff: a random wait up to 1s, 2s, 4s... capped at a minute. */
+function backoffMs(attempt: number): number {
+  return Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+}
+
+interface Schedule {
+  lane: string;
+  limits: ModelLimits;
+  signal?: AbortSignal;
+  /** Whether a failed attempt may be repeated, e.g. not once a stream has shown text. */
+  canRetry?: () => boolean;
+}
+
+async function scheduled<T>(schedule: Schedule, call: () => Promise<T>): Promise<T> {
+  const { lane, limits, signal, canRetry = () => true } = schedule;
+  for (let attempt = 0; ; attempt++) {
+    await acquire(lane, limits, signal);
+    let delay: number;
+    try {
+      return await call();
+    } catch (error) {
+      if (signal?.aborted || !isRetryable(error) || !canRetry()) throw error;
+      if (attempt >= MAX_RETRIES) {
+        if (isThrottled(error)) throw new Error("AI Capacity Reached. Please wait 60 seconds for the node to cool down.");
+        throw error;
+      }
+      delay = Math.min(MAX_DELAY_MS, retryAfterMs(error) ?? backoffMs(attempt));
+    } finally {
+      release(lane);
+    }
+    await sleep(delay, signal);
+  }
+}
+
+// --- Provider wrapper ---
+
+const TASK_KINDS: Partial<Record<AITask, UsageKind>> = {
+  image: 'image',
+  thumbnail: 'image',
+  voiceover: 'speech',
+  video: 'video',
+};
+
+function kindOf(task: AITask): UsageKind {
+  return TASK_KINDS[task] || 'text';
+}
+
+function limitsFor(model: string, kind: UsageKind): ModelLimits {
+  return MODEL_LIMITS[model] || KIND_LIMITS[kind];
+}
+
+/**
+ * Wraps a provider so every call is budget-checked, rate-limited, retried and recorded.
+ * Mock calls are recorded at no cost so the ledger can be exercised offline.
+ */
+export function createScheduledProvider(provider: AIProvider): AIProvider {
+  const free = provider.name === 'mock';
+
+  const run = async <T>(task: AITask, signal: AbortSignal | undefined, estimate: Partial<UsageCounts>, call: () => Promise<T>, canRetry?: () => boolean) => {
+    const model = modelFor(task);
+    const kind = kindOf(task);
+    if (!free) checkBudget(kind, estimateCost(model, kind, { ...EMPTY_COUNTS, ...estimate }));
+    const result = await scheduled({ lane: model, limits: limitsFor(model, kind), signal, canRetry }, call);
+    return { result, model, kind };
+  };
+
+  const record = (task: AITask, model: string, kind: UsageKind, counts: Partial<UsageCounts>, scope: UsageScope = usageScope()) => {
+    recordUsage({ task, model, kind, free, ...scope, ...counts });
+  };
+
+  const tokens = (usage?: TokenUsage): Partial<UsageCounts> => (usage ? { inputTokens: usage.inputTokens, outputTokens: usage.outputTokens } : {});
+
+  return {
+    name: provider.name,
+
+    async generateText(request) {
+      const scope = usageScope();
+      const { result, model, kind } = await run(request.task, request.signal, {}, () => provider.generateText(request));
+      record(request.task, model, kind, tokens(result.usage), scope);
+      return result;
+    },
+
+    async streamText(request, onText) {
+      const scope = usageScope();
+      let streamed = false;
+      const { result, model, kind } = await run(request.task, request.signal, {}, () => provider.streamText(request, text => {
+        streamed = true;
+        onText(text);
+      }), () => !streamed);
+      record(request.task, model, kind, tokens(result.usage), scope);
+      return result;
+    },
+
+    async streamChat(request, onText) {
+      const scope = usageScope();
+      let streamed = false;
+      const { result, model, kind } = await run(request.task, request.signal, {}, () => provider.streamChat(request, text => {
+        streamed = true;
+        onText(text);
+      }), () => !streamed);
+      record(request.task, model, kind, tokens(result.usage), scope);
+      return result;
+    },
+
+    async generateImage(request) {
+      const scope = usageScope();
+      const { result, model, kind } = await run(request.task, request.signal, { images: 1 }, () => provider.generateImage(request));
+      record(request.task, model, kind, { images: 1 }, scope);
+      return result;
+    },
+
+    async generateSpeech(request) {
+      const scope = usageScope();
+      const words = request.text.split(/\s+/).filter(Boolean).length;
+      const { result, model, kind } = await run(request.task, request.signal, { speechSeconds: words / SPOKEN_WORDS_PER_SECOND }, () => provider.generateSpeech(request));
+      record(request.task, model, kind, { speechSeconds: (result.length * 3) / 4 / PCM_BYTES_PER_SECOND }, scope);
+      return result;
+    },
+
+    async startVideo(request) {
+      const scope = request.scope ?? usageScope();
+      const { result, model, kind } = await run(request.task, request.signal, { videoSeconds: VIDEO_CLIP_SECONDS }, () => provider.startVideo(request));
+      record(request.task, model, kind, { videoSeconds: VIDEO_CLIP_SECONDS }, scope);
+      return result;
+    },
+
+    pollVideo: (operationId, signal) => scheduled({ lane: 'video-operations', limits: READ_LIMITS, signal }, () => provider.pollVideo(operationId, signal)),
+    fetchVideo: (operationId, signal) => scheduled({ lane: 'video-operations', limits: READ_LIMITS, signal }, () => provider.fetchVideo(operationId, signal)),
+  };
+}
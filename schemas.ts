@@ -0,0 +1,248 @@
+import { Schema, Type } from "@google/genai";
+import { AITask } from "./aiConfig";
+
+/**
+ * Response schemas shared by the model request (responseSchema) and the runtime validator,
+ * so the shape we ask for is exactly the shape we accept. They mirror the interfaces in types.ts.
+ */
+
+export const NICHE_ANALYSIS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    trendScore: { type: Type.NUMBER, description: "Market heat (0-10)", minimum: 0, maximum: 10 },
+    competition: { type: Type.STRING, enum: ["Low", "Medium", "High"] },
+    monetization: { type: Type.STRING, description: "Primary revenue path" },
+    longevity: { type: Type.STRING, description: "Projected market life" },
+    platformFit: { type: Type.STRING, description: "Primary platform recommendation" },
+  },
+  required: ["name", "trendScore", "competition", "monetization", "longevity", "platformFit"],
+};
+
+export const STRATEGY_WEEK_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    range: { type: Type.STRING },
+    phase: { type: Type.STRING },
+    focus: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["range", "phase", "focus"],
+};
+
+export const STRATEGY_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    weeks: {
+      type: Type.ARRAY,
+      minItems: "1",
+      items: STRATEGY_WEEK_SCHEMA,
+    },
+  },
+  required: ["weeks"],
+};
+
+export const VIDEO_CONCEPT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    hook: { type: Type.STRING },
+    structure: { type: Type.STRING },
+    visualDirection: { type: Type.STRING },
+    seo: {
+      type: Type.OBJECT,
+      properties: {
+        description: { type: Type.STRING },
+        tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ["description", "tags"],
+    },
+  },
+  required: ["title", "hook", "structure", "visualDirection", "seo"],
+};
+
+export const VIDEO_CONCEPTS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  minItems: "1",
+  items: VIDEO_CONCEPT_SCHEMA,
+};
+
+export const PLATFORM_VARIANT_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    hook: { type: Type.STRING, description: "Opening line written for this platform" },
+    script: { type: Type.STRING, description: "Full narration with [SCENE: ...] markers" },
+    description: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["title", "hook", "script", "description", "tags", "hashtags"],
+};
+
+export const SEO_PACKAGE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    titles: {
+      type: Type.ARRAY,
+      minItems: "1",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          curiosity: { type: Type.NUMBER, description: "Curiosity gap (0-10)", minimum: 0, maximum: 10 },
+          emotion: { type: Type.NUMBER, description: "Emotional pull (0-10)", minimum: 0, maximum: 10 },
+          reason: { type: Type.STRING },
+        },
+        required: ["title", "curiosity", "emotion", "reason"],
+      },
+    },
+    description: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ["titles", "description", "tags"],
+};
+
+export const STORYBOARD_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  minItems: "1",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      id: { type: Type.STRING },
+      text: { type: Type.STRING, description: "Voiceover text" },
+      visualPrompt: { type: Type.STRING, description: "Image generation prompt" },
+      duration: { type: Type.NUMBER, description: "Seconds", minimum: 0 },
+    },
+    required: ["id", "text", "visualPrompt", "duration"],
+  },
+};
+
+export const VIRAL_HOOKS_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  minItems: "1",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      hook: { type: Type.STRING },
+      reason: { type: Type.STRING },
+    },
+    required: ["hook", "reason"],
+  },
+};
+
+export const TRENDING_NICHES_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  minItems: "1",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      name: { type: Type.STRING },
+      reason: { type: Type.STRING, description: "Why the niche is growing" },
+    },
+    required: ["name", "reason"],
+  },
+};
+
+/**
+ * Raised when a structured response is still malformed after the repair attempt.
+ */
+export class SchemaValidationError extends Error {
+  constructor(readonly task: AITask, readonly issues: string[], readonly raw: string) {
+    super(`Malformed ${task} response: ${issues.slice(0, 3).join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+/**
+ * Parses model output as JSON, tolerating markdown fences and chatter around the payload.
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1].trim() : trimmed;
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.search(/[[{]/);
+    const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+    if (start >= 0 && end > start) return JSON.parse(candidate.slice(start, end + 1));
+    throw error;
+  }
+}
+
+/**
+ * Checks a value against a schema and returns human-readable issues (empty when valid).
+ * Unknown properties are allowed so client-side fields such as `sources` survive.
+ */
+export function validateSchema(value: unknown, schema: Schema, path = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path} is missing`];
+  }
+
+  switch (schema.type) {
+    case Type.STRING: {
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} must be one of ${schema.enum.join('/')}, got "${value}"`];
+      return [];
+    }
+    case Type.NUMBER:
+    case Type.INTEGER: {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return [`${path} must be a number`];
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return [`${path} must be an integer`];
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path} must be >= ${schema.minimum}, got ${value}`];
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path} must be <= ${schema.maximum}, got ${value}`];
+      return [];
+    }
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`];
+    case Type.ARRAY: {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      const issues: string[] = [];
+      if (schema.minItems !== undefined && value.length < Number(schema.minItems)) issues.push(`${path} needs at least ${schema.minItems} items`);
+      if (schema.maxItems !== undefined && value.length > Number(schema.maxItems)) issues.push(`${path} allows at most ${schema.maxItems} items`);
+      if (schema.items) value.forEach((item, i) => issues.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+      return issues;
+    }
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) return [`${path} must be an object`];
+      const record = value as Record<string, unknown>;
+      const issues: string[] = [];
+      for (const key of schema.required || []) {
+        if (record[key] === undefined || record[key] === null) issues.push(`${path}.${key} is missing`);
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        if (record[key] !== undefined && record[key] !== null) issues.push(...validateSchema(record[key], propSchema, `${path}.${key}`));
+      }
+      return issues;
+    }
+    default:
+      return [];
+  }
+}
+
+export interface ParsedResponse<T> {
+  value: T | undefined;
+  /** Empty when the value is valid. */
+  issues: string[];
+}
+
+/**
+ * Parses and validates raw model text in one step.
+ */
+export function parseStructured<T>(text: string, schema: Schema): ParsedResponse<T> {
+  let value: unknown;
+  try {
+    value = extractJson(text);
+  } catch {
+    return { value: undefined, issues: ['response is not valid JSON'] };
+  }
+  const issues = validateSchema(value, schema);
+  return { value: issues.length ? undefined : value as T, issues };
+}
+
+/**
+ * True when previously persisted data still matches its schema.
+ */
+export function conformsTo<T>(value: unknown, schema: Schema): value is T {
+  return validateSchema(value, schema).length === 0;
+}
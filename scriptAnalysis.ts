@@ -0,0 +1,214 @@
+import { HOOK_TARGET_SECONDS } from "./hooks";
+import { PACING_WPM } from "./audio";
+
+/**
+ * Local script linting: spoken length, opening pace, scene-change density, sentence length,
+ * call to action and coverage of the concept's planned structure. Runs on every keystroke, so
+ * it stays regex-only; issue ranges are offsets into the raw script for the editor's highlight layer.
+ */
+
+export const DEFAULT_WPM = PACING_WPM.natural;
+/** Sentences longer than this are hard to follow when narrated. */
+export const LONG_SENTENCE_WORDS = 25;
+/** Narration running longer than this on one visual is where viewers drift. */
+export const MAX_SCENE_SECONDS = 20;
+export const MIN_SCENES_PER_MINUTE = 3;
+/** Spoken time allowed before the first visual cue. */
+export const OPENING_VISUAL_SECONDS = 3;
+
+const CTA_PATTERN = /\b(?:subscribe|like (?:this|the) video|comment|follow|hit the bell|notification|link in the description|share this)\b/i;
+const SCENE_MARKER = /\[\s*SCENE\b/gi;
+const HOOK_LINE = /^[ \t]*HOOK\b[^:\n]*:[ \t]*(.*)$/im;
+const SPEAKER_LABEL = /^[ \t]*(?:SCENE|HOOK|OUTRO|INTRO|NARRATOR|VO|V\.O\.)\b[^:\n]*:/gim;
+
+export type ScriptIssueKind = 'long-sentence' | 'long-hook' | 'slow-open' | 'scene-gap' | 'scene-density' | 'no-scenes' | 'no-cta' | 'no-outro' | 'structure';
+
+export interface ScriptIssue {
+  kind: ScriptIssueKind;
+  severity: 'warning' | 'info';
+  message: string;
+  /** Character range in the script, when the issue points at specific text. */
+  start?: number;
+  end?: number;
+}
+
+export interface ScriptSection {
+  label: string;
+  start: number;
+  end: number;
+  words: number;
+  seconds: number;
+  /** Spoken time at which the section begins. */
+  at: number;
+}
+
+export interface StructureBeat {
+  beat: string;
+  found: boolean;
+  /** False when the beat turns up before one planned ahead of it. */
+  inOrder: boolean;
+}
+
+export interface ScriptAnalysis {
+  wpm: number;
+  words: number;
+  seconds: number;
+  sceneCount: number;
+  /** Spoken seconds before the first [SCENE] cue; null without cues. */
+  firstSceneSeconds: number | null;
+  hook: { text: string; words: number; seconds: number };
+  sentenceCount: number;
+  sections: ScriptSection[];
+  structure: StructureBeat[];
+  issues: ScriptIssue[];
+}
+
+/**
+ * Blanks out everything not spoken aloud — [cues] and speaker labels — keeping every offset
+ * where it was so ranges map straight back onto the script.
+ */
+function maskDirections(script: string): string {
+  const blank = (m: string) => m.replace(/[^\n]/g, ' ');
+  return script.replace(/\[[^\]]*\]/g, blank).replace(SPEAKER_LABEL, blank).replace(/\*\*/g, '  ');
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(w => /[\p{L}\p{N}]/u.test(w)).length;
+}
+
+function trimRange(text: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return [start, end];
+}
+
+export function formatSeconds(seconds: number): string {
+  const s = Math.round(seconds);
+  return s < 60 ? `${s}s` : `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, '0')}s`;
+}
+
+function sentenceRanges(masked: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  for (const match of masked.matchAll(/[^.!?\n]+[.!?]*/g)) {
+    const [start, end] = trimRange(masked, match.index!, match.index! + match[0].length);
+    if (countWords(masked.slice(start, end))) ranges.push([start, end]);
+  }
+  return ranges;
+}
+
+function buildSections(script: string, masked: string, secondsPerWord: number): ScriptSection[] {
+  const markers = [...script.matchAll(SCENE_MARKER)].map(m => m.index!);
+  const bounds = markers[0] === 0 ? markers : [0, ...markers];
+  let at = 0;
+  let scene = markers[0] === 0 ? 1 : 0;
+  return bounds.map((start, i) => {
+    const end = bounds[i + 1] ?? script.length;
+    const words = countWords(masked.slice(start, end));
+    const section = { label: scene ? `Scene ${scene}` : 'Cold open', start, end, words, seconds: words * secondsPerWord, at };
+    at += section.seconds;
+    scene++;
+    return section;
+  }).filter(s => s.words || s.label !== 'Cold open');
+}
+
+const STOP_WORDS = new Set(['the', 'and', 'with', 'into', 'from', 'your', 'that', 'this', 'then', 'part', 'section']);
+
+/**
+ * Where a planned beat shows up in the script, or -1. Labels like HOOK/OUTRO and the CTA are
+ * recognised directly; other beats match on their key words.
+ */
+function beatPosition(beat: string, script: string): number {
+  const lower = script.toLowerCase();
+  const key = beat.toLowerCase();
+  if (/\bhook\b/.test(key)) return lower.trim() ? Math.max(0, lower.search(/\bhook\b/)) : -1;
+  if (/\bcta\b|call to action|subscribe/.test(key)) return script.search(CTA_PATTERN);
+  if (/\b(?:outro|conclusion|wrap)/.test(key)) return lower.search(/\boutro\b|\bin the end\b|\bso next time\b/);
+  if (/\bintro\b/.test(key)) return Math.max(0, lower.search(/\bintro\b/));
+  const words = key.split(/[^a-z]+/).filter(w => w.length > 3 && !STOP_WORDS.has(w)).map(w => w.replace(/s$/, ''));
+  const hits = words.map(w => lower.search(new RegExp(`\\b${w}`))).filter(i => i >= 0);
+  return hits.length ? Math.min(...hits) : -1;
+}
+
+/**
+ * Splits a concept structure such as "Hook → Context → 3 Reveals → Payoff → CTA" into beats.
+ */
+export function structureBeats(structure: string): string[] {
+  return structure.split(/→|->|=>|>|\||;|,|\n/).map(b => b.replace(/^\s*(?:\d+[.)]\s+)?/, '').trim()).filter(Boolean);
+}
+
+export function analyzeScript(script: string, options: { wpm?: number; structure?: string } = {}): ScriptAnalysis {
+  const wpm = options.wpm && options.wpm > 0 ? options.wpm : DEFAULT_WPM;
+  const secondsPerWord = 60 / wpm;
+  const masked = maskDirections(script);
+  const words = countWords(masked);
+  const seconds = words * secondsPerWord;
+  const issues: ScriptIssue[] = [];
+
+  const sentences = sentenceRanges(masked);
+  for (const [start, end] of sentences) {
+    const count = countWords(masked.slice(start, end));
+    if (count > LONG_SENTENCE_WORDS) {
+      issues.push({ kind: 'long-sentence', severity: 'warning', message: `${count}-word sentence; split it for narration.`, start, end });
+    }
+  }
+
+  const hookLine = script.match(HOOK_LINE);
+  let hookRange: [number, number] | null = null;
+  if (hookLine) {
+    const start = hookLine.index! + hookLine[0].length - hookLine[1].length;
+    hookRange = trimRange(script, start, start + hookLine[1].length);
+  } else if (sentences.length) {
+    hookRange = sentences[0];
+  }
+  const hookText = hookRange ? masked.slice(hookRange[0], hookRange[1]).replace(/\s+/g, ' ').trim() : '';
+  const hookWords = countWords(hookText);
+  const hook = { text: hookText, words: hookWords, seconds: hookWords * secondsPerWord };
+  if (hookRange && hook.seconds > HOOK_TARGET_SECONDS) {
+    issues.push({ kind: 'long-hook', severity: 'warning', message: `Hook takes ${formatSeconds(hook.seconds)} to say; aim for ${HOOK_TARGET_SECONDS}s or less.`, start: hookRange[0], end: hookRange[1] });
+  }
+
+  const sections = buildSections(script, masked, secondsPerWord);
+  const sceneCount = sections.filter(s => s.label !== 'Cold open').length;
+  const firstMarker = script.search(SCENE_MARKER);
+  const firstSceneSeconds = firstMarker < 0 ? null : countWords(masked.slice(0, firstMarker)) * secondsPerWord;
+
+  if (words && !sceneCount) {
+    issues.push({ kind: 'no-scenes', severity: 'warning', message: 'No [SCENE: ...] cues; the storyboard and visuals have nothing to follow.' });
+  } else if (firstSceneSeconds !== null && firstSceneSeconds > OPENING_VISUAL_SECONDS) {
+    const open = sections[0];
+    issues.push({ kind: 'slow-open', severity: 'warning', message: `${formatSeconds(firstSceneSeconds)} of narration before the first visual cue.`, ...rangeOf(script, open) });
+  }
+  for (const section of sections) {
+    if (section.label !== 'Cold open' && section.seconds > MAX_SCENE_SECONDS) {
+      issues.push({ kind: 'scene-gap', severity: 'warning', message: `${section.label} holds one visual for ${formatSeconds(section.seconds)}; add a cut.`, ...rangeOf(script, section) });
+    }
+  }
+  if (sceneCount && seconds >= 60 && (sceneCount / seconds) * 60 < MIN_SCENES_PER_MINUTE) {
+    issues.push({ kind: 'scene-density', severity: 'warning', message: `${((sceneCount / seconds) * 60).toFixed(1)} scene changes per minute; aim for at least ${MIN_SCENES_PER_MINUTE}.` });
+  }
+
+  if (words) {
+    const tail = script.slice(Math.floor(script.length * 0.7));
+    if (!CTA_PATTERN.test(tail)) issues.push({ kind: 'no-cta', severity: 'warning', message: 'No call to action near the end (subscribe, comment, follow).' });
+    if (!/\bOUTRO\b/i.test(script)) issues.push({ kind: 'no-outro', severity: 'info', message: 'No OUTRO section marked.' });
+  }
+
+  const structure: StructureBeat[] = [];
+  let last = -1;
+  for (const beat of structureBeats(options.structure || '')) {
+    const position = words ? beatPosition(beat, script) : -1;
+    const found = position >= 0;
+    const inOrder = !found || position >= last;
+    if (found && inOrder) last = position;
+    structure.push({ beat, found, inOrder });
+    if (words && !found) issues.push({ kind: 'structure', severity: 'info', message: `Planned beat "${beat}" not found in the script.` });
+    else if (words && !inOrder) issues.push({ kind: 'structure', severity: 'info', message: `"${beat}" comes earlier than planned.` });
+  }
+
+  return { wpm, words, seconds, sceneCount, firstSceneSeconds, hook, sentenceCount: sentences.length, sections, structure, issues };
+}
+
+function rangeOf(script: string, section: ScriptSection): { start: number; end: number } {
+  const [start, end] = trimRange(script, section.start, section.end);
+  return { start, end };
+}
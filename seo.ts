@@ -0,0 +1,238 @@
+import { Project, ProjectSeo, StoryboardScene, GroundingSource, TitleCandidate } from "./types";
+import { VARIANT_SPECS, metadataIssues } from "./variants";
+import { stripStageDirections } from "./audio";
+import { planTimeline, timelineDuration } from "./assembler";
+
+/**
+ * SEO workbench for long-form uploads: title scoring, chapters derived from the storyboard, and
+ * the copy-ready description. Limits come from the YouTube long-form variant spec.
+ */
+
+const YOUTUBE = VARIANT_SPECS['youtube-long'];
+
+/** Title characters shown in search and suggested videos before YouTube truncates. */
+export const TITLE_VISIBLE = 60;
+/** YouTube only shows chapters when there are at least 3, each at least 10 seconds long. */
+export const MIN_CHAPTERS = 3;
+export const MIN_CHAPTER_SECONDS = 10;
+/** Long storyboards are grouped so a 40-scene video doesn't get 40 chapters. */
+const MAX_CHAPTERS = 10;
+
+export const EMPTY_SEO: ProjectSeo = { keyword: '', title: '', candidates: [], chapterTitles: {} };
+
+export function seoOf(project: Project): ProjectSeo {
+  return { ...EMPTY_SEO, ...project.seo };
+}
+
+/**
+ * The title the video is published under: the chosen SEO title, else the concept's.
+ */
+export function publishTitle(project: Project): string {
+  return project.seo?.title.trim() || project.concept.title;
+}
+
+/**
+ * Each component scores 0-25; `total` is their sum (0-100).
+ */
+export interface TitleScore {
+  length: number;
+  keyword: number;
+  curiosity: number;
+  emotion: number;
+  total: number;
+  notes: string[];
+}
+
+const CURIOSITY_CUES = /\b(?:why|how|what|secret|secrets|hidden|truth|nobody|no one|never|untold|mystery|actually|really|revealed|real reason|this)\b|\?|\.\.\.|…/gi;
+
+const EMOTION_WORDS = new Set([
+  'shocking', 'insane', 'terrifying', 'heartbreaking', 'incredible', 'brutal', 'dark', 'deadly', 'genius',
+  'dangerous', 'forbidden', 'unbelievable', 'disturbing', 'beautiful', 'worst', 'best', 'mistake', 'mistakes',
+  'fail', 'failed', 'fear', 'lie', 'lies', 'scam', 'crazy', 'ultimate', 'powerful', 'tragic', 'epic',
+  'destroyed', 'saved', 'rich', 'broke', 'dead', 'stop', 'warning', 'finally', 'wrong', 'ruined',
+]);
+
+function lengthScore(length: number): number {
+  if (length < 15 || length > YOUTUBE.titleLimit) return 0;
+  if (length < 40) return Math.round((25 * (length - 15)) / 25);
+  if (length <= TITLE_VISIBLE) return 25;
+  return Math.round(25 - (20 * (length - TITLE_VISIBLE)) / (YOUTUBE.titleLimit - TITLE_VISIBLE));
+}
+
+function keywordScore(title: string, keyword: string, notes: string[]): number {
+  const phrase = keyword.trim().toLowerCase();
+  if (!phrase) {
+    notes.push('Set a focus keyword to score keyword placement.');
+    return 0;
+  }
+  const text = title.toLowerCase();
+  const index = text.indexOf(phrase);
+  if (index < 0) {
+    const words = phrase.split(/\s+/);
+    if (words.length > 1 && words.every(w => text.includes(w))) {
+      notes.push(`Use "${keyword.trim()}" as one phrase.`);
+      return 10;
+    }
+    notes.push(`Missing the keyword "${keyword.trim()}".`);
+    return 0;
+  }
+  if (index + phrase.length > TITLE_VISIBLE) {
+    notes.push('Keyword falls in the part search results cut off.');
+    return 8;
+  }
+  if (index > title.length * 0.4) {
+    notes.push('Move the keyword nearer the start.');
+    return 18;
+  }
+  return 25;
+}
+
+/**
+ * Local 0-10 curiosity rating: open questions, secrecy framing and specific numbers.
+ */
+function localCuriosity(title: string): number {
+  const cues = new Set((title.match(CURIOSITY_CUES) || []).map(c => c.toLowerCase())).size;
+  return Math.min(10, cues * 3 + (/\d/.test(title) ? 2 : 0));
+}
+
+/**
+ * Local 0-10 emotion rating: power words, exclamation and all-caps emphasis.
+ */
+function localEmotion(title: string): number {
+  const words = title.split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+  const power = words.filter(w => EMOTION_WORDS.has(w.toLowerCase())).length;
+  const shouted = words.some(w => w.length > 2 && w === w.toUpperCase() && /\p{L}/u.test(w));
+  return Math.min(10, power * 4 + (title.includes('!') ? 1 : 0) + (shouted ? 2 : 0));
+}
+
+/**
+ * Scores a title on length, keyword placement, curiosity gap and emotional trigger. Curiosity
+ * and emotion average the local heuristic with the model's own rating when one is given.
+ */
+export function scoreTitle(title: string, keyword: string, ratings?: Pick<TitleCandidate, 'curiosity' | 'emotion'>): TitleScore {
+  const notes: string[] = [];
+  const text = title.trim();
+  const length = lengthScore(text.length);
+  if (text.length > TITLE_VISIBLE) notes.push(`${text.length} characters; only about ${TITLE_VISIBLE} show in search.`);
+  else if (text.length < 40) notes.push('Short titles leave search terms on the table.');
+  const keywordPoints = keywordScore(text, keyword, notes);
+
+  const blend = (local: number, model?: number) => {
+    const value = model === undefined ? local : (local + Math.max(0, Math.min(10, model))) / 2;
+    return Math.round(value * 2.5);
+  };
+  const curiosity = blend(localCuriosity(text), ratings?.curiosity);
+  const emotion = blend(localEmotion(text), ratings?.emotion);
+  if (curiosity < 10) notes.push('No curiosity gap: hint at something the viewer does not know yet.');
+  if (emotion < 10) notes.push('Flat wording: add an emotional trigger.');
+
+  return { length, keyword: keywordPoints, curiosity, emotion, total: length + keywordPoints + curiosity + emotion, notes };
+}
+
+export function rankCandidates(candidates: TitleCandidate[], keyword: string): TitleCandidate[] {
+  return [...candidates].sort((a, b) => scoreTitle(b.title, keyword, b).total - scoreTitle(a.title, keyword, a).total);
+}
+
+export interface Chapter {
+  /** The scene the chapter starts on. */
+  sceneId: string;
+  start: number;
+  title: string;
+}
+
+/**
+ * YouTube timestamp: m:ss, or h:mm:ss from an hour on.
+ */
+export function formatTimestamp(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const ss = String(s % 60).padStart(2, '0');
+  return h ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
+
+/**
+ * A default chapter title: the opening phrase of the scene's narration.
+ */
+export function chapterLabel(text: string): string {
+  const sentence = stripStageDirections(text).split(/[.!?\n]/).map(s => s.trim()).find(Boolean) || '';
+  if (sentence.length <= 40) return sentence;
+  const cut = sentence.slice(0, 40);
+  return `${cut.slice(0, cut.lastIndexOf(' ') > 20 ? cut.lastIndexOf(' ') : 40).trim()}…`;
+}
+
+/**
+ * Groups storyboard scenes into chapters of at least MIN_CHAPTER_SECONDS, aiming for no more
+ * than MAX_CHAPTERS. The first chapter starts at 0:00; a short tail is folded into the chapter before it.
+ */
+export function buildChapters(scenes: StoryboardScene[], titles: Record<string, string> = {}): Chapter[] {
+  // Timed like the assembled cut, so the timestamps land where the scenes do.
+  const segments = planTimeline(scenes);
+  const target = Math.max(MIN_CHAPTER_SECONDS, timelineDuration(segments) / MAX_CHAPTERS);
+  const chapters: Chapter[] = [];
+  let length = 0;
+  for (const { scene, start, duration } of segments) {
+    if (!chapters.length || length >= target) {
+      chapters.push({
+        sceneId: scene.id,
+        start,
+        title: titles[scene.id]?.trim() || chapterLabel(scene.text) || `Part ${chapters.length + 1}`,
+      });
+      length = 0;
+    }
+    length += duration;
+  }
+  if (chapters.length > 1 && length < MIN_CHAPTER_SECONDS) chapters.pop();
+  return chapters;
+}
+
+export function formatChapters(chapters: Chapter[]): string {
+  return chapters.map(c => `${formatTimestamp(c.start)} ${c.title}`).join('\n');
+}
+
+function uniqueSources(sources: GroundingSource[]): GroundingSource[] {
+  const seen = new Set<string>();
+  return sources.filter(s => s.uri && !seen.has(s.uri) && seen.add(s.uri));
+}
+
+/**
+ * The full upload description: the written copy, then chapters (only when YouTube would show
+ * them), then the grounding sources as references.
+ */
+export function composeDescription(description: string, chapters: Chapter[], sources: GroundingSource[] = []): string {
+  const parts = [description.trim()];
+  if (chapters.length >= MIN_CHAPTERS) parts.push(`Chapters:\n${formatChapters(chapters)}`);
+  const references = uniqueSources(sources);
+  if (references.length) parts.push(`Sources:\n${references.map(s => `${s.title} — ${s.uri}`).join('\n')}`);
+  return parts.filter(Boolean).join('\n\n');
+}
+
+export function projectDescription(project: Project): string {
+  const chapters = buildChapters(project.storyboard, seoOf(project).chapterTitles);
+  return composeDescription(project.concept.seo.description, chapters, project.concept.sources);
+}
+
+/**
+ * Problems with the upload as it stands: YouTube's title, description and tag limits, plus chapters.
+ */
+export function seoIssues(project: Project): string[] {
+  const issues = metadataIssues('youtube-long', {
+    title: publishTitle(project),
+    description: projectDescription(project),
+    tags: project.concept.seo.tags,
+    hashtags: [],
+  });
+  const chapters = buildChapters(project.storyboard);
+  if (!project.storyboard.length) issues.push('Build a storyboard to generate chapters.');
+  else if (chapters.length < MIN_CHAPTERS) issues.push(`Only ${chapters.length} chapter${chapters.length === 1 ? '' : 's'}; YouTube needs ${MIN_CHAPTERS} of ${MIN_CHAPTER_SECONDS}+ seconds to show them.`);
+  return issues;
+}
+
+/**
+ * Plain-text upload metadata: title, full description and tags.
+ */
+export function formatSeo(project: Project): string {
+  const lines = [publishTitle(project), '', projectDescription(project)];
+  if (project.concept.seo.tags.length) lines.push('', `Tags: ${project.concept.seo.tags.join(', ')}`);
+  return lines.join('\n');
+}
@@ -0,0 +1,197 @@
+/**
+ * Persistence layer. Records live in typed repositories and generated media in a blob store,
+ * backed by IndexedDB in the browser and by plain Maps in memory (tests, private mode fallbacks).
+ */
+
+export type StoreName = 'workspaces' | 'settings' | 'renderJobs' | 'usage' | 'cache';
+
+export interface Repository<T> {
+  get(id: string): Promise<T | undefined>;
+  getAll(): Promise<T[]>;
+  keys(): Promise<string[]>;
+  put(id: string, value: T): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface BlobStore {
+  /** Stores a blob and returns its id. */
+  put(blob: Blob, id?: string): Promise<string>;
+  get(id: string): Promise<Blob | undefined>;
+  keys(): Promise<string[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface AppStorage {
+  readonly kind: 'indexeddb' | 'memory';
+  repository<T>(name: StoreName): Repository<T>;
+  media: BlobStore;
+}
+
+export interface DataMigration {
+  version: number;
+  description: string;
+  run(storage: AppStorage): Promise<void>;
+}
+
+const DB_NAME = 'contentforge';
+
+/**
+ * IndexedDB schema upgrades, applied in order from the database's current version.
+ * DB_VERSION follows the length of this list, so new object stores are added by appending a step.
+ */
+const SCHEMA_UPGRADES: ((db: IDBDatabase) => void)[] = [
+  db => {
+    db.createObjectStore('workspaces');
+    db.createObjectStore('settings');
+    db.createObjectStore('media');
+  },
+  db => {
+    db.createObjectStore('renderJobs');
+  },
+  db => {
+    db.createObjectStore('usage');
+  },
+  db => {
+    db.createObjectStore('cache');
+  },
+];
+
+const DB_VERSION = SCHEMA_UPGRADES.length;
+
+function createMediaId(): string {
+  return `med-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+// --- In-memory ---
+
+function memoryRepository<T>(): Repository<T> {
+  const records = new Map<string, T>();
+  return {
+    get: async id => records.get(id),
+    getAll: async () => [...records.values()],
+    keys: async () => [...records.keys()],
+    put: async (id, value) => { records.set(id, value); },
+    delete: async id => { records.delete(id); },
+  };
+}
+
+export function createMemoryStorage(): AppStorage {
+  const repositories = new Map<StoreName, Repository<any>>();
+  const blobs = memoryRepository<Blob>();
+  return {
+    kind: 'memory',
+    repository<T>(name: StoreName) {
+      if (!repositories.has(name)) repositories.set(name, memoryRepository<T>());
+      return repositories.get(name) as Repository<T>;
+    },
+    media: {
+      put: async (blob, id = createMediaId()) => { await blobs.put(id, blob); return id; },
+      get: id => blobs.get(id),
+      keys: () => blobs.keys(),
+      delete: id => blobs.delete(id),
+    },
+  };
+}
+
+// --- IndexedDB ---
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens the database, upgrading its schema if needed. An upgrade waits for tabs still holding the
+ * old version; `onBlocked` lets the caller ask the user to close them.
+ */
+function openDatabase(onBlocked?: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+      for (let v = event.oldVersion; v < DB_VERSION; v++) SCHEMA_UPGRADES[v](request.result);
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // A newer build opened in another tab; step aside so its upgrade isn't blocked by this one.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => onBlocked?.();
+  });
+}
+
+function idbRepository<T>(db: IDBDatabase, name: string): Repository<T> {
+  const store = (mode: IDBTransactionMode) => db.transaction(name, mode).objectStore(name);
+  return {
+    get: id => promisify(store('readonly').get(id)),
+    getAll: () => promisify(store('readonly').getAll()),
+    keys: async () => (await promisify(store('readonly').getAllKeys())).map(String),
+    put: async (id, value) => { await promisify(store('readwrite').put(value, id)); },
+    delete: async id => { await promisify(store('readwrite').delete(id)); },
+  };
+}
+
+export async function openIndexedDBStorage(onBlocked?: () => void): Promise<AppStorage> {
+  const db = await openDatabase(onBlocked);
+  const blobs = idbRepository<Blob>(db, 'media');
+  return {
+    kind: 'indexeddb',
+    repository<T>(name: StoreName) {
+      return idbRepository<T>(db, name);
+    },
+    media: {
+      put: async (blob, id = createMediaId()) => { await blobs.put(id, blob); return id; },
+      get: id => blobs.get(id),
+      keys: () => blobs.keys(),
+      delete: id => blobs.delete(id),
+    },
+  };
+}
+
+// --- Active storage ---
+
+let active: AppStorage | null = null;
+
+/**
+ * Opens the app storage once, falling back to memory when IndexedDB is unavailable. A schema
+ * upgrade blocked by another tab keeps waiting rather than falling back; `onBlocked` reports it.
+ */
+export async function initStorage(onBlocked?: () => void): Promise<AppStorage> {
+  if (active) return active;
+  try {
+    active = typeof indexedDB !== 'undefined' ? await openIndexedDBStorage(onBlocked) : createMemoryStorage();
+  } catch (e) {
+    console.warn("IndexedDB unavailable, data will not persist:", e);
+    active = createMemoryStorage();
+  }
+  return active;
+}
+
+export function getStorage(): AppStorage {
+  if (!active) throw new Error("Storage accessed before initStorage().");
+  return active;
+}
+
+/**
+ * Swaps the active storage, e.g. for an in-memory instance in tests.
+ */
+export function setStorage(storage: AppStorage): void {
+  active = storage;
+}
+
+/**
+ * Runs data migrations newer than the version recorded in settings, recording each as it completes.
+ */
+export async function runMigrations(storage: AppStorage, migrations: DataMigration[]): Promise<void> {
+  const settings = storage.repository<number>('settings');
+  let current = (await settings.get('dataVersion')) ?? 0;
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (migration.version <= current) continue;
+    await migration.run(storage);
+    current = migration.version;
+    await settings.put('dataVersion', current);
+  }
+}
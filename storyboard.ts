@@ -0,0 +1,122 @@
+import { StoryboardScene } from "./types";
+
+/**
+ * Default target runtime for a long-form faceless video, in seconds.
+ */
+export const DEFAULT_TARGET_DURATION = 480;
+
+/**
+ * Creates a scene id that is unique within a storyboard.
+ */
+export function createSceneId(): string {
+  return `scene-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/**
+ * Guarantees unique ids and sane durations on scenes returned by the model.
+ */
+export function normalizeScenes(scenes: StoryboardScene[]): StoryboardScene[] {
+  const seen = new Set<string>();
+  return scenes.map(scene => {
+    const id = scene.id && !seen.has(scene.id) ? scene.id : createSceneId();
+    seen.add(id);
+    return { ...scene, id, duration: Math.max(1, Math.round(Number(scene.duration) || 1)) };
+  });
+}
+
+export function totalDuration(scenes: StoryboardScene[]): number {
+  return scenes.reduce((sum, s) => sum + (s.duration || 0), 0);
+}
+
+/**
+ * Formats seconds as m:ss.
+ */
+export function formatDuration(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+export function moveScene(scenes: StoryboardScene[], from: number, to: number): StoryboardScene[] {
+  if (from === to || from < 0 || to < 0 || from >= scenes.length || to >= scenes.length) return scenes;
+  const next = [...scenes];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/**
+ * Merges the scene at `index` with the one that follows it, keeping the first available image.
+ * Other fields carry over from the first scene, except its narration and clip, which only cover half.
+ */
+export function mergeWithNext(scenes: StoryboardScene[], index: number): StoryboardScene[] {
+  const current = scenes[index];
+  const following = scenes[index + 1];
+  if (!current || !following) return scenes;
+  const merged: StoryboardScene = {
+    ...current,
+    text: `${current.text.trim()} ${following.text.trim()}`.trim(),
+    visualPrompt: `${current.visualPrompt.trim()} Then: ${following.visualPrompt.trim()}`.trim(),
+    imageUrl: current.imageUrl || following.imageUrl,
+    duration: current.duration + following.duration,
+    audioUrl: undefined,
+    clipUrl: undefined,
+  };
+  return [...scenes.slice(0, index), merged, ...scenes.slice(index + 2)];
+}
+
+/**
+ * Splits a scene's voiceover at the sentence boundary closest to its midpoint,
+ * dividing the duration in proportion to the words on each side.
+ */
+export function splitScene(scenes: StoryboardScene[], index: number): StoryboardScene[] {
+  const scene = scenes[index];
+  // Both halves get at least a second and together keep the scene's length.
+  if (!scene || scene.duration < 2) return scenes;
+  const [head, tail] = splitText(scene.text);
+  if (!tail) return scenes;
+
+  const headWords = countWords(head);
+  const ratio = headWords / (headWords + countWords(tail));
+  const headDuration = Math.min(scene.duration - 1, Math.max(1, Math.round(scene.duration * ratio)));
+  const tailDuration = scene.duration - headDuration;
+
+  // The scene's narration no longer matches either half, so it is dropped.
+  const first: StoryboardScene = { ...scene, text: head, audioUrl: undefined, duration: headDuration };
+  const second: StoryboardScene = {
+    id: createSceneId(),
+    text: tail,
+    visualPrompt: scene.visualPrompt,
+    duration: tailDuration,
+  };
+  return [...scenes.slice(0, index), first, second, ...scenes.slice(index + 1)];
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function splitText(text: string): [string, string] {
+  const trimmed = text.trim();
+  const sentences = trimmed.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g)?.map(s => s.trim()).filter(Boolean) || [];
+
+  if (sentences.length > 1) {
+    const total = trimmed.length;
+    let best = 1;
+    let bestDistance = Infinity;
+    let running = 0;
+    for (let i = 0; i < sentences.length - 1; i++) {
+      running += sentences[i].length;
+      const distance = Math.abs(total / 2 - running);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i + 1;
+      }
+    }
+    return [sentences.slice(0, best).join(' '), sentences.slice(best).join(' ')];
+  }
+
+  const words = trimmed.split(/\s+/);
+  if (words.length < 2) return [trimmed, ''];
+  const mid = Math.ceil(words.length / 2);
+  return [words.slice(0, mid).join(' '), words.slice(mid).join(' ')];
+}
@@ -0,0 +1,87 @@
+import { StrategyPlan, StrategyWeek, StrategyProgress, StrategyRevision } from "./types";
+
+/**
+ * Roadmap progress and versioning: ticked-off focus items, notes, per-phase completion and
+ * the history of plan versions as phases are regenerated.
+ */
+
+export const MAX_STRATEGY_REVISIONS = 30;
+
+export const EMPTY_STRATEGY_PROGRESS: StrategyProgress = { done: {}, notes: {} };
+
+function createId(): string {
+  return `srev-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function focusKey(week: StrategyWeek, focus: string): string {
+  return `${week.range}::${focus}`;
+}
+
+export function toggleFocus(progress: StrategyProgress, key: string): StrategyProgress {
+  const { [key]: wasDone, ...done } = progress.done;
+  return { ...progress, done: wasDone ? done : { ...done, [key]: new Date().toISOString() } };
+}
+
+export function setFocusNote(progress: StrategyProgress, key: string, note: string): StrategyProgress {
+  const { [key]: _previous, ...notes } = progress.notes;
+  return { ...progress, notes: note.trim() ? { ...notes, [key]: note } : notes };
+}
+
+export interface Completion {
+  done: number;
+  total: number;
+  ratio: number;
+}
+
+function completion(done: number, total: number): Completion {
+  return { done, total, ratio: total ? done / total : 0 };
+}
+
+export function phaseCompletion(week: StrategyWeek, progress: StrategyProgress): Completion {
+  return completion(week.focus.filter(f => progress.done[focusKey(week, f)]).length, week.focus.length);
+}
+
+export function planCompletion(plan: StrategyPlan | null, progress: StrategyProgress): Completion {
+  const phases = (plan?.weeks || []).map(w => phaseCompletion(w, progress));
+  return completion(phases.reduce((n, p) => n + p.done, 0), phases.reduce((n, p) => n + p.total, 0));
+}
+
+export function replacePhase(plan: StrategyPlan, index: number, week: StrategyWeek): StrategyPlan {
+  return { weeks: plan.weeks.map((w, i) => (i === index ? week : w)) };
+}
+
+export function createStrategyRevision(plan: StrategyPlan, source: StrategyRevision['source'], label: string, progress: StrategyProgress): StrategyRevision {
+  return { id: createId(), createdAt: new Date().toISOString(), source, label, plan, completion: planCompletion(plan, progress).ratio };
+}
+
+/**
+ * Appends a version, dropping the oldest beyond MAX_STRATEGY_REVISIONS.
+ */
+export function withStrategyRevision(history: StrategyRevision[], revision: StrategyRevision): StrategyRevision[] {
+  return [...history, revision].slice(-MAX_STRATEGY_REVISIONS);
+}
+
+export interface PhaseChange {
+  range: string;
+  phase?: { from: string; to: string };
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * What changed between two plan versions, phase by phase (matched by week range).
+ */
+export function planChanges(previous: StrategyPlan | null, next: StrategyPlan): PhaseChange[] {
+  const before = new Map((previous?.weeks || []).map(w => [w.range, w]));
+  const changes: PhaseChange[] = [];
+  for (const week of next.weeks) {
+    const old = before.get(week.range);
+    before.delete(week.range);
+    const added = week.focus.filter(f => !old?.focus.includes(f));
+    const removed = (old?.focus || []).filter(f => !week.focus.includes(f));
+    const phase = old && old.phase !== week.phase ? { from: old.phase, to: week.phase } : undefined;
+    if (added.length || removed.length || phase) changes.push({ range: week.range, phase, added, removed });
+  }
+  for (const week of before.values()) changes.push({ range: week.range, added: [], removed: week.focus });
+  return changes;
+}
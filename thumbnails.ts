@@ -0,0 +1,344 @@
+import { Project, ProjectThumbnails, ThumbnailBackground, ThumbnailDesign, ThumbnailOverlay, ThumbnailTemplateId, ThumbnailTest } from "./types";
+import { drawCover, wrapText } from "./assembler";
+import { loadMedia } from "./media";
+
+/**
+ * Thumbnail designer: templates, canvas compositing of title text and shapes over a generated
+ * background, JPEG export within YouTube's limits, and A/B pairs.
+ */
+
+export const THUMBNAIL_WIDTH = 1280;
+export const THUMBNAIL_HEIGHT = 720;
+/** YouTube rejects custom thumbnails over 2 MB. */
+export const MAX_THUMBNAIL_BYTES = 2 * 1024 * 1024;
+
+/** Widths a thumbnail is actually seen at; height follows 16:9. */
+export const PREVIEW_SIZES = [
+  { label: 'Search', width: 360 },
+  { label: 'Mobile feed', width: 246 },
+  { label: 'Up next', width: 168 },
+];
+
+export const ACCENTS = ['#facc15', '#ef4444', '#22d3ee', '#a3e635', '#ffffff'];
+
+/** Directions for background concepts, cycled so each batch explores different ideas. */
+export const BACKGROUND_ANGLES = [
+  'Extreme close-up of the single most striking object from the story',
+  'Dramatic before-and-after contrast within one frame',
+  'Mysterious silhouette against a glowing backdrop',
+  'Bold symbolic still life dominated by one saturated colour',
+];
+
+export interface ThumbnailTemplate {
+  label: string;
+  /** Text box as fractions of the frame. */
+  box: { x: number; y: number; w: number; h: number };
+  align: 'left' | 'center';
+  maxLines: number;
+  /** Side darkened so text reads at small sizes. */
+  shade: 'left' | 'right' | 'bottom' | 'vignette';
+  /** Text sits on a solid accent banner instead of an outline. */
+  banner?: boolean;
+  /** Composition note for the image model, so backgrounds leave room for the text. */
+  space: string;
+}
+
+export const THUMBNAIL_TEMPLATES: Record<ThumbnailTemplateId, ThumbnailTemplate> = {
+  'left-stack': {
+    label: 'Left Stack',
+    box: { x: 0.05, y: 0.1, w: 0.5, h: 0.8 },
+    align: 'left',
+    maxLines: 3,
+    shade: 'left',
+    space: 'Place the subject on the right; keep the left half dark and uncluttered.',
+  },
+  'center-punch': {
+    label: 'Center Punch',
+    box: { x: 0.06, y: 0.3, w: 0.88, h: 0.4 },
+    align: 'center',
+    maxLines: 2,
+    shade: 'vignette',
+    space: 'Centered subject with simple, dark surroundings.',
+  },
+  'bottom-banner': {
+    label: 'Bottom Banner',
+    box: { x: 0.04, y: 0.72, w: 0.92, h: 0.22 },
+    align: 'center',
+    maxLines: 1,
+    shade: 'bottom',
+    banner: true,
+    space: 'Keep the subject in the upper two thirds; the bottom third plain.',
+  },
+  'split-reveal': {
+    label: 'Split Reveal',
+    box: { x: 0.54, y: 0.14, w: 0.42, h: 0.72 },
+    align: 'left',
+    maxLines: 3,
+    shade: 'right',
+    space: 'Place the subject on the left; keep the right half dark and uncluttered.',
+  },
+};
+
+export const TEMPLATE_IDS = Object.keys(THUMBNAIL_TEMPLATES) as ThumbnailTemplateId[];
+
+export const EMPTY_THUMBNAILS: ProjectThumbnails = { backgrounds: [], designs: [], tests: [], activeId: null };
+
+function createId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function thumbnailsOf(project: Project): ProjectThumbnails {
+  return { ...EMPTY_THUMBNAILS, ...project.thumbnails };
+}
+
+const FILLER_WORDS = new Set(['the', 'a', 'an', 'of', 'to', 'and', 'in', 'for', 'on', 'about', 'with', 'is', 'are', 'that']);
+
+/**
+ * Default overlay text: the title's content words, at most four, in capitals. Thumbnails
+ * should add to the title rather than repeat it, so this is only a starting point.
+ */
+export function thumbnailText(title: string): string {
+  const words = title.replace(/[^\p{L}\p{N}'\s-]/gu, ' ').split(/\s+/).filter(Boolean);
+  const content = words.filter(w => !FILLER_WORDS.has(w.toLowerCase()));
+  return (content.length ? content : words).slice(0, 4).join(' ').toUpperCase();
+}
+
+export function createBackground(prompt: string, url: string): ThumbnailBackground {
+  return { id: createId('thb'), prompt, url, createdAt: new Date().toISOString() };
+}
+
+export function createDesign(name: string, text: string, backgroundId: string | null, template: ThumbnailTemplateId = 'left-stack'): ThumbnailDesign {
+  const words = text.split(/\s+/).filter(Boolean);
+  return {
+    id: createId('thd'),
+    name,
+    backgroundId,
+    template,
+    text,
+    highlight: words[words.length - 1] || '',
+    accent: ACCENTS[0],
+    overlays: [],
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+export function createOverlay(kind: ThumbnailOverlay['kind']): ThumbnailOverlay {
+  return { id: createId('tho'), kind, x: 0.7, y: 0.5, size: kind === 'arrow' ? 0.18 : 0.22, rotation: kind === 'arrow' ? 200 : 0 };
+}
+
+/**
+ * Next free design name: "Design A", "Design B", ...
+ */
+export function nextDesignName(board: ProjectThumbnails): string {
+  const taken = new Set(board.designs.map(d => d.name));
+  for (let i = 0; i < 26; i++) {
+    const name = `Design ${String.fromCharCode(65 + i)}`;
+    if (!taken.has(name)) return name;
+  }
+  return `Design ${board.designs.length + 1}`;
+}
+
+export function addDesign(board: ProjectThumbnails, design: ThumbnailDesign): ProjectThumbnails {
+  return { ...board, designs: [...board.designs, design], activeId: board.activeId ?? design.id };
+}
+
+export function updateDesign(board: ProjectThumbnails, id: string, patch: Partial<ThumbnailDesign>): ProjectThumbnails {
+  return {
+    ...board,
+    designs: board.designs.map(d => (d.id === id ? { ...d, ...patch, updatedAt: new Date().toISOString() } : d)),
+  };
+}
+
+/**
+ * Removes a design along with any A/B pair it was part of.
+ */
+export function removeDesign(board: ProjectThumbnails, id: string): ProjectThumbnails {
+  const designs = board.designs.filter(d => d.id !== id);
+  return {
+    ...board,
+    designs,
+    tests: board.tests.filter(t => t.a !== id && t.b !== id),
+    activeId: board.activeId === id ? designs[0]?.id ?? null : board.activeId,
+  };
+}
+
+export function createTest(a: string, b: string): ThumbnailTest {
+  return { id: createId('tht'), a, b, createdAt: new Date().toISOString() };
+}
+
+/**
+ * The pair's winner once both watch-time shares are in; null while the test is running.
+ */
+export function testWinner(test: ThumbnailTest): 'a' | 'b' | 'tie' | null {
+  if (test.shareA === undefined || test.shareB === undefined) return null;
+  if (test.shareA === test.shareB) return 'tie';
+  return test.shareA > test.shareB ? 'a' : 'b';
+}
+
+// --- Rendering ---
+
+function drawShade(ctx: CanvasRenderingContext2D, shade: ThumbnailTemplate['shade']): void {
+  const { width, height } = ctx.canvas;
+  const dark = 'rgba(2, 6, 23, 0.8)';
+  const clear = 'rgba(2, 6, 23, 0)';
+  let gradient: CanvasGradient;
+  if (shade === 'vignette') {
+    gradient = ctx.createRadialGradient(width / 2, height / 2, height * 0.2, width / 2, height / 2, width * 0.7);
+    gradient.addColorStop(0, 'rgba(2, 6, 23, 0.35)');
+    gradient.addColorStop(1, dark);
+  } else {
+    gradient = shade === 'bottom'
+      ? ctx.createLinearGradient(0, height, 0, height * 0.4)
+      : shade === 'left'
+        ? ctx.createLinearGradient(0, 0, width * 0.65, 0)
+        : ctx.createLinearGradient(width, 0, width * 0.35, 0);
+    gradient.addColorStop(0, dark);
+    gradient.addColorStop(1, clear);
+  }
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/**
+ * Largest font size at which the text wraps into the box within the template's line limit.
+ */
+function fitText(ctx: CanvasRenderingContext2D, text: string, template: ThumbnailTemplate): { size: number; lines: string[] } {
+  const { width, height } = ctx.canvas;
+  const boxWidth = template.box.w * width;
+  const boxHeight = template.box.h * height;
+  let size = Math.round(boxHeight / (template.banner ? 1.3 : 1.05));
+  let lines: string[] = [text];
+  const minimum = Math.round(height / 24);
+  for (; size > minimum; size -= 4) {
+    ctx.font = `900 ${size}px Inter, sans-serif`;
+    lines = wrapText(ctx, text, boxWidth);
+    const fitsWidth = lines.every(line => ctx.measureText(line).width <= boxWidth);
+    if (fitsWidth && lines.length <= template.maxLines && lines.length * size * 1.05 <= boxHeight) break;
+  }
+  ctx.font = `900 ${size}px Inter, sans-serif`;
+  return { size, lines };
+}
+
+function drawText(ctx: CanvasRenderingContext2D, design: ThumbnailDesign, template: ThumbnailTemplate): void {
+  const text = design.text.trim().toUpperCase();
+  if (!text) return;
+  const { width, height } = ctx.canvas;
+  const { size, lines } = fitText(ctx, text, template);
+  const lineHeight = size * 1.05;
+  const boxX = template.box.x * width;
+  const boxWidth = template.box.w * width;
+  const top = template.box.y * height + (template.box.h * height - lines.length * lineHeight) / 2;
+  const highlight = design.highlight.trim().toUpperCase();
+  const space = ctx.measureText(' ').width;
+
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  lines.forEach((line, i) => {
+    const lineWidth = ctx.measureText(line).width;
+    const y = top + lineHeight * (i + 0.5);
+    let x = template.align === 'center' ? boxX + (boxWidth - lineWidth) / 2 : boxX;
+
+    if (template.banner) {
+      const pad = size * 0.3;
+      ctx.fillStyle = design.accent;
+      ctx.fillRect(x - pad, y - lineHeight / 2, lineWidth + pad * 2, lineHeight);
+    }
+    for (const word of line.split(' ')) {
+      const accented = !template.banner && highlight && word.replace(/[^\p{L}\p{N}']/gu, '') === highlight;
+      if (!template.banner) {
+        ctx.lineWidth = size * 0.14;
+        ctx.strokeStyle = '#020617';
+        ctx.strokeText(word, x, y);
+      }
+      ctx.fillStyle = template.banner ? '#020617' : accented ? design.accent : '#ffffff';
+      ctx.fillText(word, x, y);
+      x += ctx.measureText(word).width + space;
+    }
+  });
+}
+
+function drawOverlay(ctx: CanvasRenderingContext2D, overlay: ThumbnailOverlay, color: string): void {
+  const { width, height } = ctx.canvas;
+  const size = overlay.size * width;
+  ctx.save();
+  ctx.translate(overlay.x * width, overlay.y * height);
+  ctx.rotate((overlay.rotation * Math.PI) / 180);
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = Math.max(4, width / 90);
+  ctx.lineCap = 'round';
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.6)';
+  ctx.shadowBlur = width / 80;
+
+  if (overlay.kind === 'arrow') {
+    const head = size * 0.35;
+    ctx.lineWidth = Math.max(6, width / 60);
+    ctx.beginPath();
+    ctx.moveTo(-size / 2, 0);
+    ctx.lineTo(size / 2 - head * 0.6, 0);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(size / 2, 0);
+    ctx.lineTo(size / 2 - head, -head * 0.6);
+    ctx.lineTo(size / 2 - head, head * 0.6);
+    ctx.closePath();
+    ctx.fill();
+  } else if (overlay.kind === 'circle') {
+    ctx.beginPath();
+    ctx.ellipse(0, 0, size / 2, size / 2.6, 0, 0, Math.PI * 2);
+    ctx.stroke();
+  } else {
+    ctx.strokeRect(-size / 2, -size * 0.3, size, size * 0.6);
+  }
+  ctx.restore();
+}
+
+/**
+ * Composites a design onto `ctx` at whatever size its canvas is.
+ */
+export function drawThumbnail(ctx: CanvasRenderingContext2D, design: ThumbnailDesign, background: CanvasImageSource & { width: number; height: number } | null): void {
+  const { width, height } = ctx.canvas;
+  const template = THUMBNAIL_TEMPLATES[design.template];
+  ctx.clearRect(0, 0, width, height);
+  if (background) {
+    drawCover(ctx, background, background.width, background.height);
+  } else {
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, '#0f172a');
+    gradient.addColorStop(1, '#1e293b');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  drawShade(ctx, template.shade);
+
+  if (design.template === 'split-reveal') {
+    ctx.fillStyle = design.accent;
+    ctx.beginPath();
+    ctx.moveTo(width * 0.5, 0);
+    ctx.lineTo(width * 0.53, 0);
+    ctx.lineTo(width * 0.48, height);
+    ctx.lineTo(width * 0.45, height);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  drawText(ctx, design, template);
+  design.overlays.forEach(overlay => drawOverlay(ctx, overlay, design.accent));
+}
+
+export async function loadBackground(background: ThumbnailBackground | undefined): Promise<ImageBitmap | null> {
+  const blob = background ? await loadMedia(background.url) : undefined;
+  return blob ? createImageBitmap(blob) : null;
+}
+
+/**
+ * Encodes a canvas as JPEG, stepping quality down until it fits YouTube's size limit.
+ */
+export async function encodeThumbnail(canvas: HTMLCanvasElement): Promise<Blob> {
+  for (const quality of [0.92, 0.85, 0.75, 0.6, 0.45]) {
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+    if (blob && blob.size <= MAX_THUMBNAIL_BYTES) return blob;
+  }
+  throw new Error("Thumbnail stays over 2 MB even at low quality; use a simpler background.");
+}
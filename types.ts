@@ -39,15 +39,42 @@ export interface StoryboardScene {
   text: string;
   visualPrompt: string;
   imageUrl?: string;
+  /** Narration for this scene, rendered from `text` with the project's voice settings. */
+  audioUrl?: string;
+  /** Finished video clip for this scene, from the render queue. */
+  clipUrl?: string;
   duration: number;
 }
 
+export interface StrategyWeek {
+  range: string;
+  phase: string;
+  focus: string[];
+}
+
 export interface StrategyPlan {
-  weeks: {
-    range: string;
-    phase: string;
-    focus: string[];
-  }[];
+  weeks: StrategyWeek[];
+}
+
+/**
+ * Working state of the roadmap. Focus items are keyed by their week range and text, so ticks
+ * and notes survive regenerating other phases.
+ */
+export interface StrategyProgress {
+  /** ISO time each focus item was ticked off. */
+  done: Record<string, string>;
+  notes: Record<string, string>;
+}
+
+export interface StrategyRevision {
+  id: string;
+  createdAt: string;
+  source: 'generated' | 'phase' | 'restored';
+  /** What produced this version, e.g. "Regenerated Week 3-4". */
+  label: string;
+  plan: StrategyPlan;
+  /** Overall completion (0–1) when this version was created. */
+  completion: number;
 }
 
 export interface NicheAnalysis {
@@ -60,9 +87,422 @@ export interface NicheAnalysis {
   sources?: GroundingSource[];
 }
 
+export interface TrendingNiche {
+  name: string;
+  reason: string;
+  sources?: GroundingSource[];
+}
+
+export type ProjectStatus = 'idea' | 'scripted' | 'voiced' | 'rendered' | 'published';
+
+export interface ViralHook {
+  hook: string;
+  reason: string;
+}
+
+/**
+ * A hook kept in the channel's library for reuse, filed under the niche it was written for.
+ */
+export interface SavedHook extends ViralHook {
+  id: string;
+  niche: string;
+  /** Title of the concept the hook was generated for. */
+  source: string;
+  savedAt: string;
+}
+
+export interface ScriptRevision {
+  id: string;
+  createdAt: string;
+  source: 'generated' | 'edited' | 'restored';
+  text: string;
+}
+
+export interface ProjectAsset {
+  id: string;
+  kind: 'image' | 'audio' | 'video';
+  label: string;
+  url: string;
+  createdAt: string;
+}
+
+export type RenderJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled' | 'timedOut';
+
+/**
+ * A stored text response, addressed by a hash of the model, prompt, schema and config that produced it.
+ */
+export interface CacheEntry {
+  key: string;
+  task: string;
+  model: string;
+  /** Start of the prompt, so the inspector can show what was asked. */
+  label: string;
+  createdAt: string;
+  /** Null when the entry never expires. */
+  expiresAt: string | null;
+  hits: number;
+  text: string;
+  sources: GroundingSource[];
+}
+
+export type UsageKind = 'text' | 'image' | 'speech' | 'video';
+
+/**
+ * One billable AI call in the usage ledger. Cost is an estimate from list prices.
+ */
+export interface UsageEntry {
+  id: string;
+  at: string;
+  task: string;
+  model: string;
+  kind: UsageKind;
+  workspaceId?: string;
+  projectId?: string;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  speechSeconds: number;
+  videoSeconds: number;
+  /** Estimated USD. */
+  cost: number;
+}
+
+/**
+ * Daily spend limits in USD; null means no limit. Once reached, image, speech and video calls
+ * are refused until the next day. Text calls are cheap and never blocked.
+ */
+export interface BudgetCaps {
+  daily: number | null;
+  image: number | null;
+  speech: number | null;
+  video: number | null;
+}
+
+/**
+ * One clip generation. Jobs are persisted on their own so a long render survives a reload.
+ */
+export interface RenderJob {
+  id: string;
+  workspaceId: string;
+  projectId: string;
+  sceneId?: string;
+  label: string;
+  visualPrompt: string;
+  text: string;
+  /** Media ref of the still the clip is conditioned on. */
+  imageRef?: string;
+  aspectRatio: '16:9' | '9:16';
+  status: RenderJobStatus;
+  /** Provider operation id, set once the render has been accepted. */
+  operationId?: string;
+  /** 0–1; reported by the provider when available, otherwise estimated from elapsed time. */
+  progress: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  error?: string;
+  /** Media ref of the finished clip. */
+  resultRef?: string;
+}
+
+export type VoicePacing = 'slow' | 'natural' | 'fast';
+
+export interface VoiceSettings {
+  /** One of the provider's prebuilt voices, e.g. 'Kore'. */
+  voiceName: string;
+  tone: string;
+  pacing: VoicePacing;
+}
+
+export type VariantKind = 'youtube-long' | 'youtube-short' | 'facebook';
+
+/**
+ * Publish-ready metadata in the shape a platform expects: YouTube uses tags plus a few hashtags,
+ * Facebook hashtags only.
+ */
+export interface PlatformMetadata {
+  title: string;
+  description: string;
+  tags: string[];
+  hashtags: string[];
+}
+
+/** Model output for one platform cut, before limits are applied. */
+export interface PlatformAdaptation {
+  title: string;
+  hook: string;
+  script: string;
+  description: string;
+  tags: string[];
+  hashtags: string[];
+}
+
+/**
+ * Marks a project as a platform cut of another project.
+ */
+export interface ProjectVariant {
+  parentId: string;
+  kind: VariantKind;
+  aspectRatio: '16:9' | '9:16';
+  metadata: PlatformMetadata;
+}
+
+/**
+ * A title option with the model's own ratings (0-10). Local heuristics score the rest.
+ */
+export interface TitleCandidate {
+  title: string;
+  curiosity: number;
+  emotion: number;
+  reason: string;
+}
+
+export interface SeoPackage {
+  titles: TitleCandidate[];
+  description: string;
+  tags: string[];
+}
+
+/**
+ * SEO workbench state. The description and tags themselves live on `concept.seo`; the chosen
+ * title is kept here because projects are matched to concepts by `concept.title`.
+ */
+export interface ProjectSeo {
+  keyword: string;
+  title: string;
+  candidates: TitleCandidate[];
+  /** Chapter titles edited by hand, keyed by the id of the scene the chapter starts on. */
+  chapterTitles: Record<string, string>;
+}
+
+export type ThumbnailTemplateId = 'left-stack' | 'center-punch' | 'bottom-banner' | 'split-reveal';
+
+/**
+ * A shape drawn over the background. Position and size are fractions of the frame so designs
+ * don't depend on the canvas they are edited on.
+ */
+export interface ThumbnailOverlay {
+  id: string;
+  kind: 'arrow' | 'circle' | 'box';
+  x: number;
+  y: number;
+  size: number;
+  /** Degrees; arrows point right at 0. */
+  rotation: number;
+}
+
+export interface ThumbnailBackground {
+  id: string;
+  prompt: string;
+  url: string;
+  createdAt: string;
+}
+
+export interface ThumbnailDesign {
+  id: string;
+  name: string;
+  backgroundId: string | null;
+  template: ThumbnailTemplateId;
+  text: string;
+  /** Word (case-insensitive) painted in the accent colour. */
+  highlight: string;
+  accent: string;
+  overlays: ThumbnailOverlay[];
+  /** Last exported JPEG. */
+  exportUrl?: string;
+  updatedAt: string;
+}
+
+/**
+ * An A/B pair as run through YouTube's Test & Compare; watch-time share is entered by hand.
+ */
+export interface ThumbnailTest {
+  id: string;
+  a: string;
+  b: string;
+  createdAt: string;
+  /** Percent of watch time each design earned; the pair is decided once both are entered. */
+  shareA?: number;
+  shareB?: number;
+}
+
+export interface ProjectThumbnails {
+  backgrounds: ThumbnailBackground[];
+  designs: ThumbnailDesign[];
+  tests: ThumbnailTest[];
+  /** Design used for the upload. */
+  activeId: string | null;
+}
+
+export interface Project {
+  id: string;
+  concept: VideoConcept;
+  status: ProjectStatus;
+  /** Working copy shown in the editor; revisions are explicit snapshots of it. */
+  script: string;
+  revisions: ScriptRevision[];
+  hooks: ViralHook[];
+  storyboard: StoryboardScene[];
+  /** Set when the script was regenerated after the storyboard was built from an earlier one. */
+  storyboardStale?: boolean;
+  targetDuration: number;
+  assets: ProjectAsset[];
+  voice?: VoiceSettings;
+  variant?: ProjectVariant;
+  seo?: ProjectSeo;
+  thumbnails?: ProjectThumbnails;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type MetricKey = 'ytSubs' | 'ytWatchHours' | 'fbFollowers' | 'fbViewMinutes';
+
+/**
+ * Channel metrics as of one day. Subscriber and follower counts are totals; watch hours and
+ * view minutes are the trailing windows the platforms use for eligibility (12 months / 60 days).
+ */
+export interface MetricSnapshot {
+  id: string;
+  /** YYYY-MM-DD */
+  date: string;
+  source: 'manual' | 'youtube-csv' | 'meta-csv';
+  metrics: Partial<Record<MetricKey, number>>;
+}
+
+export type IncomeStreamKind = 'affiliate' | 'sponsorship' | 'product';
+
+export interface IncomeStream {
+  id: string;
+  kind: IncomeStreamKind;
+  name: string;
+  /** Current monthly income in USD. */
+  monthly: number;
+  /** Expected month-over-month growth, e.g. 0.05 for 5%. */
+  growth: number;
+}
+
+export interface RpmRange {
+  low: number;
+  base: number;
+  high: number;
+}
+
+/**
+ * How a channel sounds. Injected into every text prompt so channels in different niches don't
+ * share one voice. Empty fields are left out of the prompt.
+ */
+export interface BrandProfile {
+  /** Who the channel is for, e.g. "retirees curious about ancient history". */
+  audience: string;
+  /** e.g. "calm, reflective, lightly wry". */
+  tone: string;
+  /** Words and phrases the writing must never use. */
+  bannedWords: string[];
+  /** Language the copy is written in. */
+  language: string;
+  readingLevel: string;
+  /** Scripts whose voice new copy should match. */
+  exampleScripts: string[];
+}
+
+export type PromptTemplateId =
+  | 'system'
+  | 'nicheAnalysis'
+  | 'strategy'
+  | 'strategyPhase'
+  | 'concepts'
+  | 'script'
+  | 'variant'
+  | 'seo'
+  | 'storyboard'
+  | 'hooks'
+  | 'trendingNiches';
+
+export interface PromptTemplateVersion {
+  id: string;
+  body: string;
+  note: string;
+  createdAt: string;
+}
+
+/**
+ * Saved versions of one prompt template. A null `activeId` uses the built-in default.
+ */
+export interface PromptTemplateHistory {
+  versions: PromptTemplateVersion[];
+  activeId: string | null;
+}
+
+export interface RevenueModel {
+  monthlyViews: number;
+  /** Expected month-over-month view growth, e.g. 0.1 for 10%. */
+  viewGrowth: number;
+  /** Average minutes watched per view, used to project watch hours toward YPP. */
+  avgViewMinutes: number;
+  /** Manual RPM override; when absent the niche estimate is used. */
+  rpm?: RpmRange;
+  streams: IncomeStream[];
+}
+
+/**
+ * Publishing plan for the 90 days from `startDate`. Publish slots come from the posting frequency;
+ * only the projects placed on them are stored.
+ */
+export interface ContentCalendar {
+  /** YYYY-MM-DD */
+  startDate: string;
+  /** Project id by publish date (YYYY-MM-DD). */
+  assignments: Record<string, string>;
+}
+
+export interface Workspace {
+  id: string;
+  name: string;
+  archived: boolean;
+  createdAt: string;
+  updatedAt: string;
+  userInfo: UserChannelInfo;
+  nicheAnalysis: NicheAnalysis | null;
+  strategy: StrategyPlan | null;
+  strategyProgress: StrategyProgress;
+  /** Every plan version, oldest first; the last entry matches `strategy`. */
+  strategyHistory: StrategyRevision[];
+  concepts: VideoConcept[];
+  projects: Project[];
+  /** Latest known values, kept in step with `snapshots`. */
+  stats: ProgressStats;
+  snapshots: MetricSnapshot[];
+  revenue: RevenueModel;
+  calendar: ContentCalendar;
+  hookLibrary: SavedHook[];
+  /** Strategist conversation for this channel, oldest first. */
+  chat: ChatMessage[];
+  brand: BrandProfile;
+}
+
+export type ChatToolName = 'add_concept' | 'rewrite_script_section' | 'regenerate_strategy_phase';
+
+/**
+ * A change the strategist proposed through a tool call. Nothing is applied until the creator
+ * accepts it.
+ */
+export interface ChatAction {
+  id: string;
+  tool: ChatToolName;
+  args: Record<string, string>;
+  /** Project open when the action was proposed, for script edits. */
+  projectId?: string;
+  status: 'proposed' | 'applied' | 'dismissed' | 'failed';
+  /** Outcome shown to the creator and fed back to the model on the next turn. */
+  note?: string;
+}
+
 export interface ChatMessage {
+  id: string;
   role: 'user' | 'model';
   text: string;
+  createdAt: string;
+  actions?: ChatAction[];
 }
 
 export enum ViewState {
@@ -70,5 +510,8 @@ export enum ViewState {
   NicheSelector = 'niche',
   Strategy = 'strategy',
   Creator = 'creator',
+  Strategist = 'strategist',
   Monetization = 'monetization',
+  Usage = 'usage',
+  Brand = 'brand',
 }
\ No newline at end of file
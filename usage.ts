@@ -0,0 +1,240 @@
+import { useEffect, useState } from "react";
+import { BudgetCaps, UsageEntry, UsageKind } from "./types";
+import { getStorage } from "./storage";
+import { localDate } from "./growth";
+
+/**
+ * The usage ledger: one entry per billable AI call with token, image, speech and video counts and
+ * an estimated cost from list prices. Entries live in memory for budget checks and are persisted
+ * to the `usage` store; the scheduler records them and refuses calls once a daily cap is reached.
+ */
+
+/** USD list prices. Text is billed per million tokens, images per image, audio and video per second. */
+interface ModelPrice {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  perImage?: number;
+  perSecond?: number;
+}
+
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+  'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-image': { perImage: 0.039 },
+  'gemini-2.5-flash-preview-tts': { perSecond: 0.00025 },
+  'gemini-2.5-pro-preview-tts': { perSecond: 0.0005 },
+  'veo-3.1-fast-generate-preview': { perSecond: 0.15 },
+  'veo-3.1-generate-preview': { perSecond: 0.4 },
+};
+
+/** Used for models missing from MODEL_PRICES, e.g. overrides set through AI_MODELS. */
+const KIND_PRICES: Record<UsageKind, ModelPrice> = {
+  text: { inputPerMillion: 2, outputPerMillion: 12 },
+  image: { perImage: 0.039 },
+  speech: { perSecond: 0.00025 },
+  video: { perSecond: 0.4 },
+};
+
+/** Veo renders 8-second clips by default. */
+export const VIDEO_CLIP_SECONDS = 8;
+
+/** Entries older than this are dropped when the ledger loads. */
+const RETENTION_DAYS = 90;
+
+const CAPS_SETTING = 'budgetCaps';
+
+export const NO_CAPS: BudgetCaps = { daily: null, image: null, speech: null, video: null };
+
+export type UsageCounts = Pick<UsageEntry, 'inputTokens' | 'outputTokens' | 'images' | 'speechSeconds' | 'videoSeconds'>;
+
+export const EMPTY_COUNTS: UsageCounts = { inputTokens: 0, outputTokens: 0, images: 0, speechSeconds: 0, videoSeconds: 0 };
+
+/** Channel and project a call is billed to. */
+export interface UsageScope {
+  workspaceId?: string;
+  projectId?: string;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function estimateCost(model: string, kind: UsageKind, counts: UsageCounts): number {
+  const price = MODEL_PRICES[model] || KIND_PRICES[kind];
+  return (
+    (counts.inputTokens * (price.inputPerMillion || 0)) / 1e6 +
+    (counts.outputTokens * (price.outputPerMillion || 0)) / 1e6 +
+    counts.images * (price.perImage || 0) +
+    (counts.speechSeconds + counts.videoSeconds) * (price.perSecond || 0)
+  );
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+function createId(): string {
+  return `use-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+/** Local calendar day, so caps reset at the creator's midnight. */
+export function dayKey(date: Date | string): string {
+  return localDate(date);
+}
+
+// --- Ledger state ---
+
+let entries: UsageEntry[] = [];
+let caps: BudgetCaps = NO_CAPS;
+let scope: UsageScope = {};
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Restores the ledger and caps from storage. Call once before the app renders.
+ */
+export async function loadUsage(): Promise<void> {
+  const storage = getStorage();
+  const repo = storage.repository<UsageEntry>('usage');
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const all = await repo.getAll();
+  const expired = all.filter(entry => entry.at < cutoff);
+  await Promise.all(expired.map(entry => repo.delete(entry.id)));
+  entries = all.filter(entry => entry.at >= cutoff).sort((a, b) => a.at.localeCompare(b.at));
+  caps = { ...NO_CAPS, ...(await storage.repository<BudgetCaps>('settings').get(CAPS_SETTING)) };
+  notify();
+}
+
+export async function setBudgetCaps(next: BudgetCaps): Promise<void> {
+  caps = next;
+  notify();
+  await getStorage().repository<BudgetCaps>('settings').put(CAPS_SETTING, next);
+}
+
+/**
+ * Sets the channel and project that calls are billed to when a request names none.
+ * The app keeps this pointed at the open workspace and project.
+ */
+export function setUsageScope(next: UsageScope): void {
+  scope = next;
+}
+
+export function usageScope(): UsageScope {
+  return scope;
+}
+
+export function recordUsage(fields: { task: string; model: string; kind: UsageKind; free?: boolean } & UsageScope & Partial<UsageCounts>): UsageEntry {
+  const { free, ...rest } = fields;
+  const counts: UsageCounts = { ...EMPTY_COUNTS, ...rest };
+  const entry: UsageEntry = {
+    id: createId(),
+    at: new Date().toISOString(),
+    ...rest,
+    ...counts,
+    cost: free ? 0 : estimateCost(fields.model, fields.kind, counts),
+  };
+  entries = [...entries, entry];
+  notify();
+  getStorage().repository<UsageEntry>('usage').put(entry.id, entry).catch(e => console.warn("Usage entry save failed:", e));
+  return entry;
+}
+
+export async function clearUsage(): Promise<void> {
+  const repo = getStorage().repository<UsageEntry>('usage');
+  await Promise.all(entries.map(entry => repo.delete(entry.id)));
+  entries = [];
+  notify();
+}
+
+// --- Budgets ---
+
+export interface DailySpend {
+  total: number;
+  byKind: Record<UsageKind, number>;
+}
+
+export function spendOn(day: string, from: UsageEntry[] = entries): DailySpend {
+  const byKind: Record<UsageKind, number> = { text: 0, image: 0, speech: 0, video: 0 };
+  let total = 0;
+  for (const entry of from) {
+    if (dayKey(entry.at) !== day) continue;
+    byKind[entry.kind] += entry.cost;
+    total += entry.cost;
+  }
+  return { total, byKind };
+}
+
+/**
+ * Throws BudgetExceededError when a call of `kind` costing about `estimate` would take today's
+ * spend past the daily cap or the cap for that kind. Text calls are never blocked: they are
+ * cheap, and blocking them would lock the creator out of planning.
+ */
+export function checkBudget(kind: UsageKind, estimate: number): void {
+  if (kind === 'text') return;
+  const today = spendOn(dayKey(new Date()));
+  const kindCap = caps[kind];
+  if (kindCap !== null && today.byKind[kind] + estimate > kindCap) {
+    throw new BudgetExceededError(`This ${kind} call (~${formatCost(estimate)}) would pass the daily ${kind} budget of ${formatCost(kindCap)}; ${formatCost(today.byKind[kind])} spent today. Raise it on the Usage screen or try again tomorrow.`);
+  }
+  if (caps.daily !== null && today.total + estimate > caps.daily) {
+    throw new BudgetExceededError(`This ${kind} call (~${formatCost(estimate)}) would pass the daily AI budget of ${formatCost(caps.daily)}; ${formatCost(today.total)} spent today. Raise it on the Usage screen or try again tomorrow.`);
+  }
+}
+
+// --- Summaries ---
+
+export interface UsageTotal extends UsageCounts {
+  key: string;
+  calls: number;
+  cost: number;
+}
+
+/**
+ * Sums entries per key, most expensive first. Entries without a key are skipped.
+ */
+export function summarizeUsage(from: UsageEntry[], keyOf: (entry: UsageEntry) => string | undefined): UsageTotal[] {
+  const totals = new Map<string, UsageTotal>();
+  for (const entry of from) {
+    const key = keyOf(entry);
+    if (!key) continue;
+    const total = totals.get(key) || { key, calls: 0, cost: 0, ...EMPTY_COUNTS };
+    total.calls += 1;
+    total.cost += entry.cost;
+    total.inputTokens += entry.inputTokens;
+    total.outputTokens += entry.outputTokens;
+    total.images += entry.images;
+    total.speechSeconds += entry.speechSeconds;
+    total.videoSeconds += entry.videoSeconds;
+    totals.set(key, total);
+  }
+  return [...totals.values()].sort((a, b) => b.cost - a.cost);
+}
+
+export interface UsageLedger {
+  entries: UsageEntry[];
+  caps: BudgetCaps;
+}
+
+/**
+ * Re-renders whenever an entry is recorded or the caps change.
+ */
+export function useUsageLedger(): UsageLedger {
+  const [ledger, setLedger] = useState<UsageLedger>({ entries, caps });
+  useEffect(() => {
+    const listener = () => setLedger({ entries, caps });
+    listeners.add(listener);
+    listener();
+    return () => { listeners.delete(listener); };
+  }, []);
+  return ledger;
+}
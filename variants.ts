@@ -0,0 +1,201 @@
+import { Project, VariantKind, PlatformMetadata, PlatformAdaptation } from "./types";
+import { createProject, withRevision } from "./projects";
+
+/**
+ * Cross-platform adaptation: the specs for each platform cut, metadata limits, and how variant
+ * projects hang off the project they were derived from.
+ */
+
+export interface VariantSpec {
+  label: string;
+  platform: 'YouTube' | 'Facebook';
+  aspectRatio: '16:9' | '9:16';
+  /** Target runtime in seconds. */
+  targetDuration: number;
+  /** Hard runtime ceiling, when the format has one. */
+  maxDuration?: number;
+  titleLimit: number;
+  descriptionLimit: number;
+  /** Combined character budget for tags; 0 where the platform has no tags. */
+  tagBudget: number;
+  maxHashtags: number;
+  /** Hashtags the format always carries. */
+  requiredHashtags: string[];
+  /** Writing brief sent to the model. */
+  brief: string;
+}
+
+export const VARIANT_SPECS: Record<VariantKind, VariantSpec> = {
+  'youtube-long': {
+    label: 'YouTube Long-form',
+    platform: 'YouTube',
+    aspectRatio: '16:9',
+    targetDuration: 480,
+    titleLimit: 100,
+    descriptionLimit: 5000,
+    tagBudget: 500,
+    maxHashtags: 3,
+    requiredHashtags: [],
+    brief: 'An 8-10 minute horizontal video. Keep viewers past the 30-second mark, add a mid-roll re-hook, and end on a subscribe CTA. Put timestamped chapters (starting 00:00) in the description. Keep the title under 70 characters so it is not cut off in search.',
+  },
+  'youtube-short': {
+    label: 'Short',
+    platform: 'YouTube',
+    aspectRatio: '9:16',
+    targetDuration: 45,
+    maxDuration: 60,
+    titleLimit: 100,
+    descriptionLimit: 5000,
+    tagBudget: 500,
+    maxHashtags: 3,
+    requiredHashtags: ['Shorts'],
+    brief: 'A vertical 9:16 Short under 60 seconds (about 120 spoken words). Write a new hook that lands in the first 2 seconds, no intro, one idea, and an ending that loops back into the opening. Frame every [SCENE] for a vertical screen. Keep the description to one or two lines.',
+  },
+  'facebook': {
+    label: 'Facebook Cut',
+    platform: 'Facebook',
+    aspectRatio: '16:9',
+    targetDuration: 200,
+    titleLimit: 255,
+    descriptionLimit: 2000,
+    tagBudget: 0,
+    maxHashtags: 5,
+    requiredHashtags: [],
+    brief: 'A 3-4 minute Facebook video, long enough for in-stream ad breaks. Most viewers watch muted in the feed, so the first line of the caption must carry the hook and every point must work as on-screen text. Write the description as a conversational caption ending in a question that invites comments. No tags; hashtags only.',
+  },
+};
+
+export const VARIANT_KINDS = Object.keys(VARIANT_SPECS) as VariantKind[];
+
+function truncate(value: string, limit: number): string {
+  const text = value.trim();
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, limit);
+  const space = cut.lastIndexOf(' ');
+  return (space > limit * 0.6 ? cut.slice(0, space) : cut).trim();
+}
+
+/**
+ * Characters YouTube counts against the 500-character tag limit: commas between tags, and
+ * quotes around tags containing spaces.
+ */
+export function tagCharacters(tags: string[]): number {
+  return tags.reduce((n, tag, i) => n + tag.length + (tag.includes(' ') ? 2 : 0) + (i ? 1 : 0), 0);
+}
+
+function normalizeHashtag(value: string): string {
+  return value.replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, '');
+}
+
+/**
+ * Applies a platform's limits: title and description length, tag budget, hashtag count and
+ * the hashtags the format requires.
+ */
+export function conformMetadata(kind: VariantKind, metadata: PlatformMetadata): PlatformMetadata {
+  const spec = VARIANT_SPECS[kind];
+  const seen = new Set<string>();
+  const hashtags = [...spec.requiredHashtags, ...metadata.hashtags]
+    .map(normalizeHashtag)
+    .filter(h => h && !seen.has(h.toLowerCase()) && seen.add(h.toLowerCase()))
+    .slice(0, spec.maxHashtags)
+    .map(h => `#${h}`);
+
+  const tags: string[] = [];
+  if (spec.tagBudget) {
+    for (const raw of metadata.tags) {
+      const tag = raw.replace(/^#+/, '').trim();
+      if (!tag || tags.some(t => t.toLowerCase() === tag.toLowerCase())) continue;
+      if (tagCharacters([...tags, tag]) > spec.tagBudget) break;
+      tags.push(tag);
+    }
+  }
+
+  return {
+    title: truncate(metadata.title, spec.titleLimit),
+    description: truncate(metadata.description, spec.descriptionLimit),
+    tags,
+    hashtags,
+  };
+}
+
+/**
+ * Limits a hand-edited variant breaks, for display next to the editor.
+ */
+export function metadataIssues(kind: VariantKind, metadata: PlatformMetadata): string[] {
+  const spec = VARIANT_SPECS[kind];
+  const issues: string[] = [];
+  if (!metadata.title.trim()) issues.push('Title is empty.');
+  if (metadata.title.length > spec.titleLimit) issues.push(`Title is ${metadata.title.length}/${spec.titleLimit} characters.`);
+  if (metadata.description.length > spec.descriptionLimit) issues.push(`Description is ${metadata.description.length}/${spec.descriptionLimit} characters.`);
+  if (!spec.tagBudget && metadata.tags.length) issues.push(`${spec.platform} has no tags; use hashtags.`);
+  if (spec.tagBudget && tagCharacters(metadata.tags) > spec.tagBudget) issues.push(`Tags use ${tagCharacters(metadata.tags)}/${spec.tagBudget} characters.`);
+  if (metadata.hashtags.length > spec.maxHashtags) issues.push(`${metadata.hashtags.length} hashtags; ${spec.platform} shows at most ${spec.maxHashtags}.`);
+  for (const required of spec.requiredHashtags) {
+    if (!metadata.hashtags.some(h => normalizeHashtag(h).toLowerCase() === required.toLowerCase())) issues.push(`Missing #${required}.`);
+  }
+  return issues;
+}
+
+/**
+ * Plain-text metadata ready to paste into the platform's upload form.
+ */
+export function formatMetadata(kind: VariantKind, metadata: PlatformMetadata): string {
+  const spec = VARIANT_SPECS[kind];
+  const lines = [metadata.title, '', metadata.description];
+  if (metadata.hashtags.length) lines.push('', metadata.hashtags.join(' '));
+  if (spec.tagBudget && metadata.tags.length) lines.push('', `Tags: ${metadata.tags.join(', ')}`);
+  return lines.join('\n');
+}
+
+export function variantsOf(projects: Project[], parentId: string): Project[] {
+  return projects.filter(p => p.variant?.parentId === parentId);
+}
+
+export function findVariant(projects: Project[], parentId: string, kind: VariantKind): Project | undefined {
+  return projects.find(p => p.variant?.parentId === parentId && p.variant.kind === kind);
+}
+
+/**
+ * Orders projects so each variant follows its parent. Variants whose parent is gone stay top-level.
+ */
+export function groupVariants(projects: Project[]): Project[] {
+  const ids = new Set(projects.map(p => p.id));
+  const roots = projects.filter(p => !p.variant || !ids.has(p.variant.parentId));
+  return roots.flatMap(root => [root, ...variantsOf(projects, root.id)]);
+}
+
+/**
+ * A new project for one platform cut of `parent`, scripted from the adaptation.
+ */
+export function createVariantProject(parent: Project, kind: VariantKind, adaptation: PlatformAdaptation): Project {
+  const spec = VARIANT_SPECS[kind];
+  const metadata = conformMetadata(kind, adaptation);
+  const base = createProject({
+    ...parent.concept,
+    title: `${parent.concept.title} · ${spec.label}`,
+    hook: adaptation.hook,
+    seo: { description: metadata.description, tags: metadata.tags },
+  });
+  const project: Project = {
+    ...base,
+    status: 'scripted',
+    targetDuration: spec.targetDuration,
+    voice: parent.voice,
+    variant: { parentId: parent.id, kind, aspectRatio: spec.aspectRatio, metadata },
+  };
+  return { ...project, ...withRevision(project, adaptation.script, 'generated') };
+}
+
+/**
+ * Re-adapts an existing variant in place. The storyboard is cleared because the script changed.
+ */
+export function readaptVariant(project: Project, adaptation: PlatformAdaptation): Partial<Project> {
+  const variant = project.variant!;
+  const metadata = conformMetadata(variant.kind, adaptation);
+  return {
+    ...withRevision(project, adaptation.script, 'generated'),
+    concept: { ...project.concept, hook: adaptation.hook, seo: { description: metadata.description, tags: metadata.tags } },
+    variant: { ...variant, metadata },
+    storyboard: [],
+  };
+}
@@ -0,0 +1,291 @@
+import { Schema } from "@google/genai";
+import { Workspace, UserChannelInfo, ProgressStats, StrategyPlan, StrategyRevision } from "./types";
+import { NICHE_ANALYSIS_SCHEMA, STRATEGY_SCHEMA, VIDEO_CONCEPTS_SCHEMA, conformsTo } from "./schemas";
+import { createProject, normalizeProject, syncProjects, withRevision } from "./projects";
+import { AppStorage, DataMigration, initStorage, getStorage, runMigrations } from "./storage";
+import { dataUrlToBlob, toMediaRef, collectMediaRefs, deleteMedia } from "./media";
+import { DEFAULT_REVENUE_MODEL } from "./revenue";
+import { DEFAULT_BRAND, normalizeBrand } from "./prompts";
+import { createCalendar } from "./calendar";
+import { EMPTY_STRATEGY_PROGRESS } from "./strategy";
+
+export interface WorkspaceStore {
+  activeId: string;
+  workspaces: Workspace[];
+}
+
+const ACTIVE_SETTING = 'activeWorkspace';
+
+// localStorage keys written by builds before IndexedDB persistence.
+const LOCAL_STORE_KEY = 'cf_workspaces';
+const LOCAL_ACTIVE_KEY = 'cf_active_workspace';
+const LEGACY_KEYS = ['cf_user_info', 'cf_niche_analysis', 'cf_strategy', 'cf_concepts'];
+
+export const DEFAULT_USER_INFO: UserChannelInfo = { niche: '', platform: 'Both', frequency: '3x/week', onboardingComplete: false };
+
+export const EMPTY_STATS: ProgressStats = {
+  youtube: { subs: 0, watchTime: 0 },
+  facebook: { followers: 0, viewMinutes: 0 },
+};
+
+function createId(): string {
+  return `ws-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+}
+
+export function createWorkspace(name: string, userInfo: UserChannelInfo = DEFAULT_USER_INFO): Workspace {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    name,
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+    userInfo: { ...userInfo },
+    nicheAnalysis: null,
+    strategy: null,
+    strategyProgress: EMPTY_STRATEGY_PROGRESS,
+    strategyHistory: [],
+    concepts: [],
+    projects: [],
+    stats: EMPTY_STATS,
+    snapshots: [],
+    revenue: DEFAULT_REVENUE_MODEL,
+    calendar: createCalendar(),
+    hookLibrary: [],
+    chat: [],
+    brand: DEFAULT_BRAND,
+  };
+}
+
+/**
+ * Copies a workspace's channel data under a new id and name.
+ */
+export function duplicateWorkspace(source: Workspace): Workspace {
+  const copy = JSON.parse(JSON.stringify(source)) as Workspace;
+  const now = new Date().toISOString();
+  return { ...copy, id: createId(), name: `${source.name} (Copy)`, archived: false, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Reads a persisted model result, discarding it if it no longer matches its schema.
+ */
+function loadValidated<T>(key: string, schema: Schema, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    const parsed = saved ? JSON.parse(saved) : null;
+    return parsed !== null && conformsTo<T>(parsed, schema) ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function loadJson<T>(key: string, fallback: T): T {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Builds the first workspace from the single-channel keys used before workspaces existed.
+ */
+function migrateLegacyChannel(): Workspace | null {
+  if (!LEGACY_KEYS.some(key => localStorage.getItem(key) !== null)) return null;
+  const userInfo = { ...DEFAULT_USER_INFO, ...loadJson<Partial<UserChannelInfo>>('cf_user_info', {}) };
+  const concepts = loadValidated('cf_concepts', VIDEO_CONCEPTS_SCHEMA, []);
+  return {
+    ...createWorkspace(userInfo.niche || 'My Channel', userInfo),
+    nicheAnalysis: loadValidated('cf_niche_analysis', NICHE_ANALYSIS_SCHEMA, null),
+    strategy: loadValidated('cf_strategy', STRATEGY_SCHEMA, null),
+    concepts,
+    projects: syncProjects([], concepts),
+  };
+}
+
+/**
+ * Turns the per-title script map saved by earlier builds into projects with one revision each.
+ */
+function migrateScripts(scripts: Record<string, string> | undefined, concepts: Workspace['concepts']) {
+  return Object.entries(scripts || {}).map(([title, text]) => {
+    const project = createProject(concepts.find(c => c.title === title) || { title, hook: '', structure: '', visualDirection: '', seo: { description: '', tags: [] } });
+    return { ...project, ...withRevision(project, text, 'edited'), status: 'scripted' as const };
+  });
+}
+
+/**
+ * Plans saved before version history existed become its first entry.
+ */
+function initialHistory(strategy: StrategyPlan | null, createdAt: string | undefined): StrategyRevision[] {
+  if (!strategy) return [];
+  return [{ id: 'srev-initial', createdAt: createdAt || new Date().toISOString(), source: 'generated', label: 'Initial plan', plan: strategy, completion: 0 }];
+}
+
+/**
+ * Fills fields added after a workspace was saved and drops model data that no longer validates.
+ */
+export function normalizeWorkspace(raw: Workspace & { scripts?: Record<string, string> }): Workspace {
+  const { scripts, ...rest } = raw;
+  const base = createWorkspace(raw.name || 'Untitled Channel');
+  const concepts = conformsTo<Workspace['concepts']>(raw.concepts, VIDEO_CONCEPTS_SCHEMA) ? raw.concepts : [];
+  const strategy = conformsTo<StrategyPlan>(raw.strategy, STRATEGY_SCHEMA) ? raw.strategy : null;
+  return {
+    ...base,
+    ...rest,
+    userInfo: { ...DEFAULT_USER_INFO, ...raw.userInfo },
+    nicheAnalysis: conformsTo(raw.nicheAnalysis, NICHE_ANALYSIS_SCHEMA) ? raw.nicheAnalysis : null,
+    strategy,
+    strategyProgress: { ...EMPTY_STRATEGY_PROGRESS, ...raw.strategyProgress },
+    strategyHistory: raw.strategyHistory?.length ? raw.strategyHistory : initialHistory(strategy, raw.createdAt),
+    concepts,
+    projects: syncProjects((raw.projects || migrateScripts(scripts, concepts)).map(normalizeProject), concepts),
+    stats: raw.stats || EMPTY_STATS,
+    snapshots: raw.snapshots || [],
+    revenue: { ...DEFAULT_REVENUE_MODEL, ...raw.revenue },
+    calendar: { ...createCalendar(), ...raw.calendar },
+    hookLibrary: raw.hookLibrary || [],
+    chat: raw.chat || [],
+    brand: normalizeBrand(raw.brand),
+  };
+}
+
+/**
+ * Copies workspaces persisted in localStorage (either format) into the workspaces repository.
+ * The keys are only removed once the copy is in IndexedDB; the memory fallback is gone on reload.
+ */
+async function importLocalStorage(storage: AppStorage): Promise<void> {
+  let workspaces = loadJson<Workspace[]>(LOCAL_STORE_KEY, []).filter(w => w && w.id).map(normalizeWorkspace);
+  if (!workspaces.length) {
+    const migrated = migrateLegacyChannel();
+    if (migrated) workspaces = [migrated];
+  }
+
+  const repo = storage.repository<Workspace>('workspaces');
+  for (const workspace of workspaces) await repo.put(workspace.id, workspace);
+  const activeId = localStorage.getItem(LOCAL_ACTIVE_KEY) || workspaces[0]?.id;
+  if (activeId) await storage.repository<string>('settings').put(ACTIVE_SETTING, activeId);
+
+  if (storage.kind !== 'indexeddb') return;
+  [LOCAL_STORE_KEY, LOCAL_ACTIVE_KEY, ...LEGACY_KEYS].forEach(key => localStorage.removeItem(key));
+}
+
+/**
+ * Moves data: URLs embedded in scenes and assets into the media store, leaving media refs behind.
+ */
+async function extractInlineMedia(storage: AppStorage): Promise<void> {
+  const repo = storage.repository<Workspace>('workspaces');
+  const toRef = async (url: string | undefined) =>
+    url?.startsWith('data:') ? toMediaRef(await storage.media.put(dataUrlToBlob(url))) : url;
+
+  for (const workspace of await repo.getAll()) {
+    const projects = [];
+    for (const project of workspace.projects || []) {
+      const storyboard = [];
+      for (const scene of project.storyboard) storyboard.push({ ...scene, imageUrl: await toRef(scene.imageUrl) });
+      const assets = [];
+      for (const asset of project.assets) assets.push({ ...asset, url: (await toRef(asset.url))! });
+      projects.push({ ...project, storyboard, assets });
+    }
+    await repo.put(workspace.id, { ...workspace, projects });
+  }
+}
+
+const WORKSPACE_MIGRATIONS: DataMigration[] = [
+  { version: 1, description: "Import cf_* localStorage keys", run: importLocalStorage },
+  { version: 2, description: "Move inline media into the media store", run: extractInlineMedia },
+];
+
+export async function loadWorkspaceStore(onBlocked?: () => void): Promise<WorkspaceStore> {
+  const storage = await initStorage(onBlocked);
+  await runMigrations(storage, WORKSPACE_MIGRATIONS);
+
+  const workspaces = (await storage.repository<Workspace>('workspaces').getAll())
+    .filter(w => w && w.id)
+    .map(normalizeWorkspace)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const activeId = (await storage.repository<string>('settings').get(ACTIVE_SETTING)) || '';
+
+  return ensureActive({ activeId, workspaces });
+}
+
+/**
+ * Writes the workspaces that changed since `previous` (by reference) and removes deleted ones.
+ * Media the removed or changed workspaces stopped pointing at is deleted unless another still uses it.
+ */
+export async function saveWorkspaceStore(store: WorkspaceStore, previous?: WorkspaceStore): Promise<void> {
+  const storage = getStorage();
+  const repo = storage.repository<Workspace>('workspaces');
+  const before = new Map((previous?.workspaces || []).map(w => [w.id, w]));
+
+  const changed = store.workspaces.filter(w => before.get(w.id) !== w);
+  await Promise.all(changed.map(w => repo.put(w.id, w)));
+
+  const removed = (previous?.workspaces || []).filter(w => !store.workspaces.some(current => current.id === w.id));
+  await Promise.all(removed.map(w => repo.delete(w.id)));
+
+  // Media dropped by this save: everything a removed workspace held, and whatever a changed one
+  // no longer refers to (a regenerated image, a cleared storyboard, a deleted design).
+  const dropped = collectMediaRefs(removed);
+  for (const workspace of changed) {
+    const old = before.get(workspace.id);
+    if (!old) continue;
+    const kept = collectMediaRefs(workspace);
+    collectMediaRefs(old).forEach(ref => { if (!kept.has(ref)) dropped.add(ref); });
+  }
+  if (dropped.size) {
+    const stillUsed = collectMediaRefs(store.workspaces);
+    await deleteMedia([...dropped].filter(ref => !stillUsed.has(ref)));
+  }
+
+  if (previous?.activeId !== store.activeId) {
+    await storage.repository<string>('settings').put(ACTIVE_SETTING, store.activeId);
+  }
+}
+
+/**
+ * Points the store at a live (non-archived) workspace, creating one if none is left.
+ */
+function ensureActive(store: WorkspaceStore): WorkspaceStore {
+  const active = store.workspaces.find(w => w.id === store.activeId && !w.archived);
+  if (active) return store;
+  const fallback = store.workspaces.find(w => !w.archived);
+  if (fallback) return { ...store, activeId: fallback.id };
+  const fresh = createWorkspace('My Channel');
+  return { activeId: fresh.id, workspaces: [...store.workspaces, fresh] };
+}
+
+export function getActiveWorkspace(store: WorkspaceStore): Workspace {
+  return store.workspaces.find(w => w.id === store.activeId)!;
+}
+
+export function updateWorkspace(
+  store: WorkspaceStore,
+  id: string,
+  patch: Partial<Workspace> | ((workspace: Workspace) => Partial<Workspace>),
+): WorkspaceStore {
+  return {
+    ...store,
+    workspaces: store.workspaces.map(w => {
+      if (w.id !== id) return w;
+      const changes = typeof patch === 'function' ? patch(w) : patch;
+      return { ...w, ...changes, updatedAt: new Date().toISOString() };
+    }),
+  };
+}
+
+export function addWorkspace(store: WorkspaceStore, workspace: Workspace): WorkspaceStore {
+  return { activeId: workspace.id, workspaces: [...store.workspaces, workspace] };
+}
+
+export function switchWorkspace(store: WorkspaceStore, id: string): WorkspaceStore {
+  return ensureActive({ ...store, activeId: id });
+}
+
+export function setWorkspaceArchived(store: WorkspaceStore, id: string, archived: boolean): WorkspaceStore {
+  return ensureActive(updateWorkspace(store, id, { archived }));
+}
+
+export function removeWorkspace(store: WorkspaceStore, id: string): WorkspaceStore {
+  return ensureActive({ ...store, workspaces: store.workspaces.filter(w => w.id !== id) });
+}